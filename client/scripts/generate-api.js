@@ -0,0 +1,429 @@
+/**
+ * API Client Generator
+ * =====================
+ * Writes src/api/generated.ts from the server's OpenAPI document
+ * (server/src/openapi.js, served at /api/openapi.json):
+ *
+ * - a type for every component schema and a params type per operation
+ * - a runtime schema (see src/api/schema.ts) for every type a response uses
+ * - an endpoint function per operation, built on fetchAPI
+ * - LiveEventMap and liveEventSchemas for the event stream, from the payload
+ *   schema of each event type its `x-events` extension lists
+ *
+ * Run `npm run generate:api` after changing the document, or
+ * `npm run generate:api -- --check` to fail when generated.ts is out of date.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { fileURLToPath } from 'node:url'
+
+const SPEC_PATH = '../../server/src/openapi.js'
+const OUTPUT_PATH = fileURLToPath(new URL('../src/api/generated.ts', import.meta.url))
+const MAX_LINE = 100
+
+const SCHEMA_REF = '#/components/schemas/'
+
+// Exports of src/api/schema.ts the generated code may use, in import order
+const SCHEMA_BUILDERS = [
+  'array',
+  'boolean',
+  'decimal',
+  'nullable',
+  'number',
+  'object',
+  'oneOf',
+  'optional',
+  'record',
+  'string',
+  'unknown',
+  'Schema',
+  'Shape',
+]
+
+// Names -------------------------------------------------------------------------
+
+const refName = (ref) => ref.slice(SCHEMA_REF.length)
+const lowerFirst = (text) => text.charAt(0).toLowerCase() + text.slice(1)
+const upperFirst = (text) => text.charAt(0).toUpperCase() + text.slice(1)
+const schemaName = (name) => `${lowerFirst(name)}Schema`
+const shapeName = (name) => `${lowerFirst(name)}Shape`
+const paramsName = (operation) => `${upperFirst(operation.operationId)}Params`
+const propertyKey = (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`)
+const literal = (value) => (typeof value === 'string' ? `'${value}'` : String(value))
+
+function docComment(description, indent) {
+  if (!description) return ''
+  const oneLine = `${indent}/** ${description} */\n`
+  if (oneLine.length <= MAX_LINE) return oneLine
+
+  const lines = []
+  description.split(' ').forEach((word) => {
+    const last = lines.length - 1
+    if (last >= 0 && `${indent} * ${lines[last]} ${word}`.length <= MAX_LINE) {
+      lines[last] += ` ${word}`
+    } else {
+      lines.push(word)
+    }
+  })
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}\n`).join('')}${indent} */\n`
+}
+
+function jsonSchemaOf(content) {
+  return content && content['application/json'] && content['application/json'].schema
+}
+
+// Types -------------------------------------------------------------------------
+
+/**
+ * TypeScript type of a schema. Nested objects are written inline, indented
+ * to the given depth.
+ */
+function typeOf(schema, indent = '') {
+  let type
+  if (schema.$ref) {
+    type = refName(schema.$ref)
+  } else if (schema.allOf) {
+    type = schema.allOf.map((part) => typeOf(part, indent)).join(' & ')
+  } else if (schema.enum) {
+    type = schema.enum.map(literal).join(' | ')
+  } else if (schema.type === 'array') {
+    const item = typeOf(schema.items, indent)
+    type = /[ |&]/.test(item) ? `Array<${item}>` : `${item}[]`
+  } else if (schema.type === 'object') {
+    type = objectTypeOf(schema, indent)
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number'
+  } else {
+    type = schema.type
+  }
+  return schema.nullable ? `${type} | null` : type
+}
+
+function objectTypeOf(schema, indent) {
+  if (schema.additionalProperties) {
+    return `Record<string, ${typeOf(schema.additionalProperties, indent)}>`
+  }
+  if (!schema.properties) {
+    return 'Record<string, unknown>'
+  }
+  if (!Object.keys(schema.properties).length) {
+    return 'Record<string, never>'
+  }
+  const required = schema.required || []
+  const inner = `${indent}  `
+  const fields = Object.entries(schema.properties).map(([key, property]) => {
+    const mark = required.includes(key) ? '' : '?'
+    const line = `${inner}${propertyKey(key)}${mark}: ${typeOf(property, inner)}`
+    return `${docComment(property.description, inner)}${line}\n`
+  })
+  return `{\n${fields.join('')}${indent}}`
+}
+
+function typeDeclaration(name, schema) {
+  const oneLine = `export type ${name} = ${typeOf(schema)}`
+  if (schema.enum && oneLine.length > MAX_LINE) {
+    const members = schema.enum.map((value) => `\n  | ${literal(value)}`).join('')
+    return `${docComment(schema.description, '')}export type ${name} =${members}\n`
+  }
+  return `${docComment(schema.description, '')}${oneLine}\n`
+}
+
+function paramsDeclaration(operation) {
+  const query = (operation.parameters || []).filter((param) => param.in === 'query')
+  const schema = {
+    type: 'object',
+    required: query.filter((param) => param.required).map((param) => param.name),
+    properties: Object.fromEntries(
+      query.map((param) => [param.name, { ...param.schema, description: param.description }]),
+    ),
+  }
+  return `export type ${paramsName(operation)} = ${typeOf(schema)}\n`
+}
+
+// Runtime schemas ---------------------------------------------------------------
+
+/**
+ * Expression building the runtime schema of a schema. `typePath` is the type
+ * it checks, used to annotate nested objects.
+ */
+function schemaOf(schema, typePath) {
+  let expression
+  if (schema.$ref) {
+    expression = schemaName(refName(schema.$ref))
+  } else if (schema.allOf && schema.allOf.length === 1) {
+    // A wrapped $ref, e.g. to make it nullable
+    expression = schemaOf(schema.allOf[0], typePath)
+  } else if (schema.allOf) {
+    const parts = schema.allOf.map((part) =>
+      part.$ref ? `...${shapeName(refName(part.$ref))}` : shapeEntries(part, typePath),
+    )
+    expression = `object<${typePath}>({\n${parts.join(',\n')},\n})`
+  } else if (schema.enum) {
+    expression = `oneOf(${schema.enum.map(literal).join(', ')})`
+  } else if (schema.type === 'array') {
+    expression = `array(${schemaOf(schema.items, `${typePath}[number]`)})`
+  } else if (schema.type === 'object' && !schema.properties) {
+    const entry = schema.additionalProperties
+      ? schemaOf(schema.additionalProperties, `${typePath}[string]`)
+      : 'unknown'
+    expression = `record(${entry})`
+  } else if (schema.type === 'object' && !Object.keys(schema.properties).length) {
+    expression = `object<${typePath}>({})`
+  } else if (schema.type === 'object') {
+    expression = `object<${typePath}>({\n${shapeEntries(schema, typePath)},\n})`
+  } else if (schema.type === 'string') {
+    expression = schema.format === 'decimal' ? 'decimal' : 'string'
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    expression = 'number'
+  } else {
+    expression = schema.type
+  }
+  return schema.nullable ? `nullable(${expression})` : expression
+}
+
+/**
+ * `key: schema` lines of an object's shape, unindented
+ */
+function shapeEntries(schema, typePath) {
+  const required = schema.required || []
+  return Object.entries(schema.properties)
+    .map(([key, property]) => {
+      const isRequired = required.includes(key)
+      const path = `${typePath}['${key}']`
+      // Nested object types are named by indexing into their parent type
+      const type = isRequired && !property.nullable ? path : `NonNullable<${path}>`
+      const value = schemaOf(property, type)
+      return `${propertyKey(key)}: ${isRequired ? value : `optional(${value})`}`
+    })
+    .join(',\n')
+}
+
+/**
+ * Re-indent an expression built from unindented lines: every open bracket at
+ * the end of a line indents the lines up to its closing one
+ */
+function format(code) {
+  let depth = 0
+  return code
+    .split('\n')
+    .map((line) => {
+      if (/^[)}\]]/.test(line)) depth -= 1
+      const formatted = '  '.repeat(depth) + line
+      if (/[({[]$/.test(line)) depth += 1
+      return formatted
+    })
+    .join('\n')
+}
+
+/** Component names a schema refers to */
+function refsOf(schema, refs = new Set()) {
+  if (!schema || typeof schema !== 'object') return refs
+  if (schema.$ref) refs.add(refName(schema.$ref))
+  Object.values(schema).forEach((value) => refsOf(value, refs))
+  return refs
+}
+
+/**
+ * Components reachable from the response and event schemas, each listed after
+ * the ones it refers to so the constants are defined before use
+ */
+function responseComponents(spec, roots) {
+  const { schemas } = spec.components
+  const ordered = []
+  const visit = (name) => {
+    if (ordered.includes(name)) return
+    refsOf(schemas[name]).forEach(visit)
+    ordered.push(name)
+  }
+  roots.forEach((schema) => refsOf(schema).forEach(visit))
+  return ordered
+}
+
+function schemaDeclaration(name, schema, shapes) {
+  if (shapes.has(name)) {
+    const shape = `const ${shapeName(name)}: Shape<${name}> = {\n${shapeEntries(schema, name)},\n}`
+    const declaration = `export const ${schemaName(name)} = object<${name}>(${shapeName(name)})`
+    return `${format(shape)}\n\n${declaration}\n`
+  }
+  const declaration = `export const ${schemaName(name)} = ${format(schemaOf(schema, name))}`
+  if (schema.enum && declaration.length > MAX_LINE) {
+    const values = schema.enum.map((value) => `  ${literal(value)},\n`).join('')
+    return `export const ${schemaName(name)} = oneOf(\n${values})\n`
+  }
+  return `${declaration}\n`
+}
+
+// Endpoint functions ------------------------------------------------------------
+
+function successContent(operation) {
+  const status = Object.keys(operation.responses).find((code) => code.startsWith('2'))
+  return operation.responses[status].content || {}
+}
+
+function successSchema(operation) {
+  return jsonSchemaOf(successContent(operation))
+}
+
+/** Payload schema per event type of an event stream */
+function eventsOf(operation) {
+  const stream = successContent(operation)['text/event-stream']
+  return stream && stream['x-events']
+}
+
+function endpointFunction(path, method, operation) {
+  const params = operation.parameters || []
+  const pathParams = params.filter((param) => param.in === 'path')
+  const queryParams = params.filter((param) => param.in === 'query')
+  const body = operation.requestBody && jsonSchemaOf(operation.requestBody.content)
+  const response = successSchema(operation)
+
+  const args = pathParams.map((param) => `${param.name}: ${typeOf(param.schema)}`)
+  if (queryParams.length) {
+    const hasRequired = queryParams.some((param) => param.required)
+    args.push(`params: ${paramsName(operation)}${hasRequired ? '' : ' = {}'}`)
+  }
+  if (body) {
+    args.push(`request: ${typeOf(body)}`)
+  }
+  args.push('options: RequestOptions = {}')
+
+  const returns = `Promise<${typeOf(response)}>`
+  const name = `export async function ${operation.operationId}`
+  const oneLine = `${name}(${args.join(', ')}): ${returns} {`
+  const signature = oneLine.length <= MAX_LINE
+    ? oneLine
+    : `${name}(\n${args.map((arg) => `  ${arg},\n`).join('')}): ${returns} {`
+
+  const query = queryParams.length ? '${buildQueryString(params)}' : ''
+  const url = path.replace(/\{(\w+)\}/g, '${$1}') + query
+  let init = 'options'
+  if (method !== 'get') {
+    const fields = [`method: '${method.toUpperCase()}'`]
+    if (body) fields.push('body: JSON.stringify(request)')
+    init = `{ ...options, ${fields.join(', ')} }`
+  }
+  const quoted = url.includes('${') ? `\`${url}\`` : `'${url}'`
+  const fetchArgs = [quoted, init, schemaOf(response, 'never')]
+  const call = `  return fetchAPI(${fetchArgs.join(', ')})`
+  const statement = call.length <= MAX_LINE
+    ? call
+    : `  return fetchAPI(\n${fetchArgs.map((arg) => `    ${arg},\n`).join('')}  )`
+
+  return `${docComment(operation.summary, '')}${signature}\n${statement}\n}\n`
+}
+
+// Live events -------------------------------------------------------------------
+
+function liveEventDeclarations(path, operation) {
+  const events = Object.entries(eventsOf(operation))
+  const members = events.map(([type, schema]) => `  ${propertyKey(type)}: ${typeOf(schema)}\n`)
+  const entries = events.map(([type, schema]) => `  ${propertyKey(type)}: ${schemaOf(schema)},\n`)
+  const description = `Payloads of the events streamed by GET ${path}, keyed by event type`
+  return [
+    `${docComment(description, '')}export type LiveEventMap = {\n${members.join('')}}\n`,
+    'export const liveEventSchemas: { [K in keyof LiveEventMap]: Schema<LiveEventMap[K]> } = {\n' +
+      `${entries.join('')}}\n`,
+  ].join('\n')
+}
+
+// Output ------------------------------------------------------------------------
+
+function banner(title) {
+  const rule = '// ============================================'
+  return `${rule}\n// ${title}\n${rule}\n`
+}
+
+/**
+ * Operations the client calls: those answering with JSON
+ */
+function clientOperations(spec) {
+  return Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods)
+      .filter(([, operation]) => successSchema(operation))
+      .map(([method, operation]) => ({ path, method, operation })),
+  )
+}
+
+export function generateClient(spec) {
+  const { schemas } = spec.components
+  const operations = clientOperations(spec)
+  const streams = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.values(methods)
+      .filter(eventsOf)
+      .map((operation) => ({ path, operation })),
+  )
+  if (streams.length > 1) {
+    throw new Error('Only one event stream is supported, as LiveEventMap')
+  }
+  const components = responseComponents(spec, [
+    ...operations.map(({ operation }) => successSchema(operation)),
+    ...streams.flatMap(({ operation }) => Object.values(eventsOf(operation))),
+  ])
+  // Objects extended through allOf share their shape; a lone part only wraps a $ref
+  const shapes = new Set(
+    Object.values(schemas)
+      .filter((schema) => schema.allOf && schema.allOf.length > 1)
+      .flatMap((schema) => schema.allOf.filter((part) => part.$ref))
+      .map((part) => refName(part.$ref)),
+  )
+
+  const sections = [
+    banner('Types'),
+    Object.entries(schemas).map(([name, schema]) => typeDeclaration(name, schema)).join('\n'),
+    banner('Params'),
+    operations
+      .filter(({ operation }) => (operation.parameters || []).some((param) => param.in === 'query'))
+      .map(({ operation }) => paramsDeclaration(operation))
+      .join('\n'),
+    banner('Response schemas'),
+    components.map((name) => schemaDeclaration(name, schemas[name], shapes)).join('\n'),
+  ]
+
+  let tag
+  operations.forEach(({ path, method, operation }) => {
+    if (operation.tags[0] !== tag) {
+      tag = operation.tags[0]
+      sections.push(banner(tag))
+    }
+    sections.push(endpointFunction(path, method, operation))
+  })
+  streams.forEach(({ path, operation }) => {
+    sections.push(banner(operation.tags[0]), liveEventDeclarations(path, operation))
+  })
+
+  const code = sections.join('\n')
+  // Import only the schema builders this document needs
+  const builders = SCHEMA_BUILDERS.filter((name) => new RegExp(`\\b${name}\\b`).test(code))
+    .map((name) => (/^[A-Z]/.test(name) ? `type ${name}` : name))
+  return `/**
+ * Generated API Client
+ * =====================
+ * Generated from the OpenAPI document of ${spec.info.title} ${spec.info.version}
+ * by scripts/generate-api.js. Do not edit; run \`npm run generate:api\` instead.
+ */
+
+import {
+${builders.map((name) => `  ${name},\n`).join('')}} from './schema'
+import { buildQueryString, fetchAPI, type RequestOptions } from './request'
+
+${code}`
+}
+
+export function loadSpec() {
+  return createRequire(import.meta.url)(SPEC_PATH)
+}
+
+// Only write the file when run directly; the contract tests reuse generateClient
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const source = generateClient(loadSpec())
+  if (process.argv.includes('--check')) {
+    if (readFileSync(OUTPUT_PATH, 'utf8') !== source) {
+      console.error('src/api/generated.ts is out of date; run `npm run generate:api`')
+      process.exit(1)
+    }
+  } else {
+    writeFileSync(OUTPUT_PATH, source)
+    console.log(`Wrote ${OUTPUT_PATH}`)
+  }
+}
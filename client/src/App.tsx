@@ -1,11 +1,37 @@
+import { useCallback, useEffect, useState } from 'react'
 import { Routes, Route, NavLink } from 'react-router-dom'
+import CommandPalette from './components/CommandPalette'
+import WalletConnect from './components/WalletConnect'
+import Account from './pages/Account'
 import Dashboard from './pages/Dashboard'
+import EpochDetail from './pages/EpochDetail'
+import Epochs from './pages/Epochs'
 import HealthRecords from './pages/HealthRecords'
+import NodeDetail from './pages/NodeDetail'
 import Nodes from './pages/Nodes'
+import StakerProfile from './pages/StakerProfile'
 import Staking from './pages/Staking'
+import TransactionDetail from './pages/TransactionDetail'
 import Transactions from './pages/Transactions'
 
+const SEARCH_SHORTCUT = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl K'
+
 function App() {
+  const [searchOpen, setSearchOpen] = useState(false)
+  const closeSearch = useCallback(() => setSearchOpen(false), [])
+
+  // Ctrl+K / Cmd+K toggles the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        setSearchOpen((open) => !open)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   return (
     <div className="app">
       <aside className="sidebar">
@@ -13,7 +39,12 @@ function App() {
           <img src="/vite.svg" alt="ChainHealth" />
           <span>ChainHealth</span>
         </div>
-        
+
+        <button className="search-trigger" type="button" onClick={() => setSearchOpen(true)}>
+          <span>Search...</span>
+          <kbd>{SEARCH_SHORTCUT}</kbd>
+        </button>
+
         <nav className="nav">
           <NavLink to="/" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>
             Dashboard
@@ -30,7 +61,15 @@ function App() {
           <NavLink to="/transactions" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>
             Transactions
           </NavLink>
+          <NavLink to="/epochs" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>
+            Epochs
+          </NavLink>
+          <NavLink to="/account" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>
+            My Account
+          </NavLink>
         </nav>
+
+        <WalletConnect />
       </aside>
 
       <main className="main-content">
@@ -38,10 +77,18 @@ function App() {
           <Route path="/" element={<Dashboard />} />
           <Route path="/health-records" element={<HealthRecords />} />
           <Route path="/nodes" element={<Nodes />} />
+          <Route path="/nodes/:nodeId" element={<NodeDetail />} />
           <Route path="/staking" element={<Staking />} />
+          <Route path="/staking/:stakerId" element={<StakerProfile />} />
           <Route path="/transactions" element={<Transactions />} />
+          <Route path="/transactions/:txHash" element={<TransactionDetail />} />
+          <Route path="/epochs" element={<Epochs />} />
+          <Route path="/epochs/:epochNumber" element={<EpochDetail />} />
+          <Route path="/account" element={<Account />} />
         </Routes>
       </main>
+
+      {searchOpen ? <CommandPalette onClose={closeSearch} /> : null}
     </div>
   )
 }
@@ -0,0 +1,234 @@
+/**
+ * Query Cache
+ * ============
+ * In-memory response cache shared by every page.
+ *
+ * Entries are keyed by endpoint + params, so two components asking for the
+ * same data share one request and one cached result. Cached data is served
+ * immediately and revalidated in the background once it is older than the
+ * caller's stale time (stale-while-revalidate).
+ *
+ * Requests are cancelled through an AbortSignal once no mounted component
+ * needs their key any more, and a response is only written back if it belongs
+ * to the request currently tracked for that key, so a superseded response can
+ * never overwrite a newer one.
+ */
+
+import { buildQueryString, type QueryParams, type RequestOptions } from './index'
+
+export type QueryKey = readonly [endpoint: string, params?: QueryParams]
+
+export type CacheEntry<T> = {
+  data?: T
+  error?: Error
+  updatedAt: number
+  fetching: boolean
+  invalidated: boolean
+}
+
+/**
+ * How long cached data is considered fresh, per kind of endpoint
+ */
+export const STALE_TIMES = {
+  default: 30_000,
+  stats: 5 * 60_000,
+  static: Number.POSITIVE_INFINITY,
+}
+
+type InflightRequest = {
+  promise: Promise<unknown>
+  controller: AbortController
+}
+
+const entries = new Map<string, CacheEntry<unknown>>()
+const inflight = new Map<string, InflightRequest>()
+const listeners = new Map<string, Set<() => void>>()
+const observers = new Map<string, number>()
+
+/**
+ * Serialize a query key; params are sorted and empty values dropped so that
+ * equivalent requests always map to the same entry
+ */
+export function serializeQueryKey([endpoint, params = {}]: QueryKey): string {
+  const sorted = Object.fromEntries(
+    Object.entries(params).sort(([a], [b]) => a.localeCompare(b)),
+  )
+  return `${endpoint}${buildQueryString(sorted)}`
+}
+
+function setEntry<T>(key: string, patch: Partial<CacheEntry<T>>) {
+  const previous = entries.get(key) || { updatedAt: 0, fetching: false, invalidated: false }
+  entries.set(key, { ...previous, ...patch })
+  listeners.get(key)?.forEach((listener) => listener())
+}
+
+export function getQueryEntry<T>(key: string): CacheEntry<T> | undefined {
+  return entries.get(key) as CacheEntry<T> | undefined
+}
+
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  const keyListeners = listeners.get(key) || new Set()
+  keyListeners.add(listener)
+  listeners.set(key, keyListeners)
+  return () => {
+    keyListeners.delete(listener)
+    if (!keyListeners.size) {
+      listeners.delete(key)
+    }
+  }
+}
+
+/**
+ * Whether an entry should be refetched when a component mounts or its key changes
+ */
+export function needsFetch(entry: CacheEntry<unknown> | undefined, staleTime: number): boolean {
+  if (!entry) return true
+  if (entry.fetching) return false
+  if (entry.invalidated || entry.error) return true
+  // Never loaded, e.g. its first request was cancelled; no stale time covers that
+  if (!entry.updatedAt) return true
+  return Date.now() - entry.updatedAt > staleTime
+}
+
+/**
+ * Run a fetcher for a key, reusing the in-flight request if there is one
+ */
+export function fetchQuery<T>(
+  key: string,
+  fetcher: (options: RequestOptions) => Promise<T>,
+): Promise<T> {
+  const pending = inflight.get(key)
+  if (pending) {
+    return pending.promise as Promise<T>
+  }
+
+  const controller = new AbortController()
+  const isCurrent = () => inflight.get(key)?.controller === controller
+
+  const promise = fetcher({ signal: controller.signal }).then(
+    (data) => {
+      if (isCurrent()) {
+        inflight.delete(key)
+        setEntry<T>(key, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          fetching: false,
+          invalidated: false,
+        })
+      }
+      return data
+    },
+    (err: unknown) => {
+      if (isCurrent()) {
+        inflight.delete(key)
+        setEntry<T>(key, {
+          error: err instanceof Error ? err : new Error(String(err)),
+          fetching: false,
+          invalidated: false,
+        })
+      }
+      throw err
+    },
+  )
+
+  inflight.set(key, { promise, controller })
+  // Clearing the error lets a retry fall back to the loading state
+  setEntry<T>(key, { fetching: true, error: undefined })
+  return promise
+}
+
+/**
+ * Abort the in-flight request for a key, keeping any previously cached data
+ */
+export function cancelQuery(key: string) {
+  const pending = inflight.get(key)
+  if (!pending) return
+
+  inflight.delete(key)
+  pending.controller.abort()
+  setEntry(key, { fetching: false })
+}
+
+/**
+ * Register a mounted consumer of a key. The returned release function cancels
+ * the key's request once its last consumer goes away.
+ */
+export function retainQuery(key: string): () => void {
+  observers.set(key, (observers.get(key) || 0) + 1)
+  return () => {
+    const remaining = (observers.get(key) || 1) - 1
+    if (remaining > 0) {
+      observers.set(key, remaining)
+      return
+    }
+    observers.delete(key)
+    cancelQuery(key)
+  }
+}
+
+/**
+ * Abort every in-flight request and drop all cached data, e.g. between tests
+ */
+export function clearQueryCache() {
+  inflight.forEach((pending) => pending.controller.abort())
+  inflight.clear()
+  entries.clear()
+}
+
+/**
+ * Mark every entry whose key starts with the given endpoint as stale.
+ * Mounted queries refetch immediately; others refetch on next use.
+ */
+export function invalidateQueries(endpointPrefix = '') {
+  entries.forEach((entry, key) => {
+    if (key.startsWith(endpointPrefix)) {
+      setEntry(key, { invalidated: true })
+    }
+  })
+}
+
+/**
+ * Replace the cached data for one key, e.g. to merge a live update without
+ * refetching. Keys with no cached data are left alone.
+ */
+export function setQueryData<T>(key: QueryKey, updater: (data: T) => T) {
+  const serialized = serializeQueryKey(key)
+  const entry = entries.get(serialized)
+  if (entry?.data !== undefined) {
+    setEntry<T>(serialized, { data: updater(entry.data as T) })
+  }
+}
+
+/**
+ * Capture the cached data of every key that starts with the given prefix.
+ * The returned function writes it back, to roll back an optimistic update.
+ */
+export function snapshotQueries(keyPrefix: string): () => void {
+  const saved = new Map<string, unknown>()
+  entries.forEach((entry, key) => {
+    if (key.startsWith(keyPrefix) && entry.data !== undefined) {
+      saved.set(key, entry.data)
+    }
+  })
+  return () => saved.forEach((data, key) => setEntry(key, { data }))
+}
+
+/**
+ * Like setQueryData, for every cached key that starts with the given prefix,
+ * e.g. `/transactions?` for all transaction list pages. The updater also gets
+ * the entry's query params, and can return the data unchanged to skip an entry
+ * without notifying its listeners.
+ */
+export function updateQueryData<T>(
+  keyPrefix: string,
+  updater: (data: T, params: URLSearchParams) => T,
+) {
+  entries.forEach((entry, key) => {
+    if (!key.startsWith(keyPrefix) || entry.data === undefined) return
+    const data = updater(entry.data as T, new URLSearchParams(key.split('?')[1] || ''))
+    if (data !== entry.data) {
+      setEntry<T>(key, { data })
+    }
+  })
+}
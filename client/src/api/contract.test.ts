@@ -0,0 +1,504 @@
+// @vitest-environment node
+/**
+ * Contract tests against the real Express app, started in-process on fixed
+ * data. Every client function validates its response against the schemas
+ * generated from the OpenAPI document, so a call that resolves matches its
+ * TypeScript type. The list tests also check that each documented filter and
+ * sort changes the results the way the client expects, and the document
+ * itself is checked against the committed client.
+ */
+
+import { readFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as api from './index'
+import { ApiClientError } from './errors'
+import { liveEventSchemas } from './generated'
+import { validateResponse } from './request'
+import { WALLET_ADDRESS } from '../test/fixtures'
+import type {
+  HealthRecordFilters,
+  LiveEvent,
+  LiveEventType,
+  PaginatedResponse,
+  SortOrder,
+} from '../types'
+import { generateClient, loadSpec } from '../../scripts/generate-api.js'
+
+const REFERENCE_TIME = Date.UTC(2025, 0, 1)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The server generates its data when first required
+process.env.DATA_SCENARIO = 'default'
+process.env.DATA_SEED = '1'
+process.env.DATA_REFERENCE_TIME = new Date(REFERENCE_TIME).toISOString()
+const app = createRequire(import.meta.url)('../../../server/src/app.js')
+
+const realFetch = globalThis.fetch
+let server: Server
+let baseUrl: string
+
+beforeAll(async () => {
+  server = app.listen(0)
+  await new Promise((resolve) => server.once('listening', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', (input: string, init?: RequestInit) =>
+    realFetch(new URL(input, baseUrl), init),
+  )
+  // The request log of the server
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+type MessageListener = (message: MessageEvent<string>) => void
+
+/** Enough of EventSource for subscribeToLiveEvents, over fetch since Node has none */
+class FetchEventSource {
+  onopen: (() => void) | null = null
+  onerror: (() => void) | null = null
+  private listeners = new Map<string, MessageListener[]>()
+  private controller = new AbortController()
+
+  constructor(url: string) {
+    realFetch(new URL(url, baseUrl), { signal: this.controller.signal })
+      .then((response) => {
+        this.onopen?.()
+        return this.read(response.body.pipeThrough(new TextDecoderStream()).getReader())
+      })
+      .catch(() => {
+        if (!this.controller.signal.aborted) this.onerror?.()
+      })
+  }
+
+  addEventListener(type: string, listener: MessageListener) {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener])
+  }
+
+  close() {
+    this.controller.abort()
+  }
+
+  private async read(reader: ReadableStreamDefaultReader<string>) {
+    let buffer = ''
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) return
+      const blocks = (buffer + value).split('\n\n')
+      buffer = blocks.pop()
+      blocks.forEach((block) => this.dispatch(block))
+    }
+  }
+
+  private dispatch(block: string) {
+    const fields = new Map(
+      block
+        .split('\n')
+        .filter((line) => !line.startsWith(':'))
+        .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]),
+    )
+    const message = { data: fields.get('data'), lastEventId: fields.get('id') || '' }
+    this.listeners.get(fields.get('event'))?.forEach((listener) => {
+      listener(message as MessageEvent<string>)
+    })
+  }
+}
+
+/** The payload of the first event of a type on a stream */
+function nextEventData(url: string, type: LiveEventType): Promise<unknown> {
+  const source = new FetchEventSource(url)
+  return new Promise((resolve) => {
+    source.addEventListener(type, (message) => {
+      source.close()
+      resolve(JSON.parse(message.data))
+    })
+  })
+}
+
+type ListFunction<P, T> = (params: P) => Promise<PaginatedResponse<T>>
+
+/**
+ * A filter has to narrow the list down to a non-empty subset, and every item
+ * of that subset has to match it
+ */
+async function expectFilter<P, T>(
+  list: ListFunction<P, T>,
+  params: P,
+  matches: (item: T) => boolean,
+) {
+  const all = await list({ limit: 100 } as P)
+  const filtered = await list({ ...params, limit: 100 })
+
+  expect(filtered.pagination.totalItems).toBeGreaterThan(0)
+  expect(filtered.pagination.totalItems).toBeLessThan(all.pagination.totalItems)
+  expect(filtered.data.filter((item) => !matches(item))).toEqual([])
+}
+
+function expectSorted(values: number[], sortOrder: SortOrder) {
+  const sorted = [...values].sort((a, b) => (sortOrder === 'asc' ? a - b : b - a))
+  expect(values).toEqual(sorted)
+  // A sort that leaves the list in its original order proves nothing
+  expect(new Set(values).size).toBeGreaterThan(1)
+}
+
+/** Both orders of each sort field have to be respected */
+async function expectSorts<P, T>(
+  list: ListFunction<P, T>,
+  fields: Array<keyof T & string>,
+) {
+  for (const sortBy of fields) {
+    for (const sortOrder of ['asc', 'desc'] as const) {
+      const { data } = await list({ sortBy, sortOrder, limit: 100 } as P)
+      expectSorted(data.map((item) => Number(item[sortBy])), sortOrder)
+    }
+  }
+}
+
+describe('stats', () => {
+  it('reports the data the server was started with', async () => {
+    const stats = await api.getStats()
+
+    expect(stats.metadata).toMatchObject({ scenario: 'default', seed: 1 })
+  })
+
+  it('returns the overview', async () => {
+    const overview = await api.getStatsOverview()
+    const nodes = await api.getNodes({ status: ['ACTIVE'] })
+
+    expect(overview.activeNodes).toBe(nodes.pagination.totalItems)
+  })
+})
+
+describe('nodes', () => {
+  it('returns a page, a single node and its rewards', async () => {
+    const firstPage = await api.getNodes({ limit: 10 })
+    const secondPage = await api.getNodes({ limit: 10, page: 2 })
+    const [node] = firstPage.data
+
+    expect(firstPage.data).toHaveLength(10)
+    expect(secondPage.pagination.page).toBe(2)
+    expect(secondPage.data[0].nodeId).not.toBe(node.nodeId)
+    await expect(api.getNodeById(node.nodeId)).resolves.toEqual(node)
+    await expect(api.getNodeRewards(node.nodeId)).resolves.toBeInstanceOf(Array)
+    await expect(api.getNodeStats()).resolves.toMatchObject({
+      totalNodes: firstPage.pagination.totalItems,
+    })
+  })
+
+  it('applies the filters', async () => {
+    const [node] = (await api.getNodes({ limit: 1 })).data
+
+    await expectFilter(api.getNodes, { status: ['ACTIVE', 'SLASHED'] }, (n) =>
+      ['ACTIVE', 'SLASHED'].includes(n.status),
+    )
+    await expectFilter(api.getNodes, { nodeType: [node.nodeType] }, (n) =>
+      n.nodeType === node.nodeType,
+    )
+    await expectFilter(api.getNodes, { region: [node.region] }, (n) => n.region === node.region)
+    await expectFilter(api.getNodes, { minUptime: 95, maxUptime: 99 }, (n) =>
+      Number(n.uptime) >= 95 && Number(n.uptime) <= 99,
+    )
+  })
+
+  it('applies the sorts', async () => {
+    await expectSorts(api.getNodes, [
+      'stakedAmount',
+      'uptime',
+      'totalRewardsEarned',
+      'validationsPerformed',
+    ])
+  })
+
+  it('rejects inverted ranges and unknown nodes', async () => {
+    await expect(api.getNodes({ minUptime: 99, maxUptime: 90 })).rejects.toMatchObject({
+      status: 400,
+    })
+    await expect(api.getNodeById('NODE-999999')).rejects.toMatchObject({ status: 404 })
+  })
+})
+
+describe('stakers', () => {
+  it('returns a page, a single staker and the demo wallet', async () => {
+    const [staker] = (await api.getStakers({ limit: 1 })).data
+
+    await expect(api.getStakerById(staker.stakerId)).resolves.toMatchObject(staker)
+    await expect(api.getStakerByWallet(WALLET_ADDRESS)).resolves.toMatchObject({
+      walletAddress: WALLET_ADDRESS,
+    })
+    await expect(api.getStakerStats()).resolves.toBeDefined()
+  })
+
+  it('applies the filters', async () => {
+    const [staker] = (await api.getStakers({ limit: 1 })).data
+
+    await expectFilter(api.getStakers, { minStake: 10_000, maxStake: 50_000 }, (s) =>
+      Number(s.stakedAmount) >= 10_000 && Number(s.stakedAmount) <= 50_000,
+    )
+    await expectFilter(api.getStakers, { delegatedTo: staker.delegatedTo }, (s) =>
+      s.delegatedTo === staker.delegatedTo,
+    )
+    // The client never repeats it, but a hand-written URL may
+    const repeated = await fetch(`/api/stakers?delegatedTo=${staker.delegatedTo}&delegatedTo=x`)
+    expect(repeated.status).toBe(400)
+  })
+
+  it('applies the sorts', async () => {
+    await expectSorts(api.getStakers, [
+      'stakedAmount',
+      'pendingRewards',
+      'claimedRewards',
+      'stakingMultiplier',
+    ])
+  })
+})
+
+describe('health records', () => {
+  const startDate = REFERENCE_TIME - 7 * DAY_MS
+  const endDate = REFERENCE_TIME
+
+  it('returns a page, a single record and the lookups', async () => {
+    const [record] = (await api.getHealthRecords({ limit: 1 })).data
+
+    await expect(api.getHealthRecordById(record.recordId)).resolves.toEqual(record)
+    await expect(api.getHealthRecordStats()).resolves.toBeDefined()
+    await expect(api.getDataTypes()).resolves.toContain(record.dataType)
+    await expect(api.getDeviceTypes()).resolves.toContain(record.deviceType)
+  })
+
+  it("compares a record with all of its user's readings of the type", async () => {
+    const [record] = (await api.getHealthRecords({ limit: 1 })).data
+    const readings = await api.getHealthRecords({
+      userAddress: record.userAddress,
+      dataType: [record.dataType],
+      limit: 1,
+    })
+    const comparison = await api.getHealthRecordComparison(record.recordId)
+
+    expect(comparison.count).toBe(readings.pagination.totalItems)
+    expect(comparison.min).toBeLessThanOrEqual(record.value)
+    expect(comparison.max).toBeGreaterThanOrEqual(record.value)
+    await expect(api.getHealthRecordComparison('REC-99999999')).rejects.toMatchObject({
+      status: 404,
+    })
+  })
+
+  it('applies the filters', async () => {
+    const [record] = (await api.getHealthRecords({ limit: 1 })).data
+
+    await expectFilter(api.getHealthRecords, { dataType: ['HEART_RATE', 'STEPS'] }, (r) =>
+      ['HEART_RATE', 'STEPS'].includes(r.dataType),
+    )
+    await expectFilter(api.getHealthRecords, { deviceType: [record.deviceType] }, (r) =>
+      r.deviceType === record.deviceType,
+    )
+    await expectFilter(api.getHealthRecords, { validationStatus: ['REJECTED'] }, (r) =>
+      r.validationStatus === 'REJECTED',
+    )
+    await expectFilter(api.getHealthRecords, { userAddress: WALLET_ADDRESS }, (r) =>
+      r.userAddress === WALLET_ADDRESS,
+    )
+    await expectFilter(
+      api.getHealthRecords,
+      { dataType: ['HEART_RATE'], minValue: 60, maxValue: 80 },
+      (r) => r.dataType === 'HEART_RATE' && r.value >= 60 && r.value <= 80,
+    )
+    await expectFilter(api.getHealthRecords, { startDate, endDate }, (r) =>
+      r.timestamp >= startDate && r.timestamp <= endDate,
+    )
+  })
+
+  it('applies the sorts', async () => {
+    await expectSorts(api.getHealthRecords, ['timestamp', 'value'])
+  })
+
+  it('counts the same records in the time series as in the list', async () => {
+    const filters: HealthRecordFilters = { dataType: ['SLEEP'], startDate, endDate }
+    const list = await api.getHealthRecords(filters)
+    const series = await api.getHealthRecordTimeSeries({
+      ...filters,
+      bucket: 'day',
+      groupBy: 'validationStatus',
+    })
+
+    const total = series.buckets.reduce((sum, bucket) => sum + bucket.total, 0)
+    expect(total).toBe(list.pagination.totalItems)
+    expect(series.groups.length).toBeGreaterThan(0)
+    await expect(
+      api.getHealthRecordTimeSeries({ startDate: endDate, endDate: startDate }),
+    ).rejects.toBeInstanceOf(ApiClientError)
+  })
+
+  it('ends the recent activity at the reference time', async () => {
+    const stats = await api.getHealthRecordStats()
+    const series = await api.getHealthRecordTimeSeries({})
+    const lastDay = stats.recordsByDay[stats.recordsByDay.length - 1]
+
+    expect(lastDay.date).toBe('2025-01-01')
+    expect(stats.recordsByDay.some((day) => day.count > 0)).toBe(true)
+    expect(series.endDate).toBe(REFERENCE_TIME)
+    expect(series.buckets.some((bucket) => bucket.total > 0)).toBe(true)
+  })
+
+  it('aligns the buckets to the time zone offset', async () => {
+    // UTC-5: local days start at 05:00 UTC
+    const series = await api.getHealthRecordTimeSeries({ startDate, endDate, tzOffset: 300 })
+
+    expect(series.tzOffset).toBe(300)
+    series.buckets.forEach((bucket) => expect(bucket.start % DAY_MS).toBe(5 * 60 * 60 * 1000))
+    await expect(
+      api.getHealthRecordTimeSeries({ startDate, endDate, tzOffset: 24 * 60 }),
+    ).rejects.toBeInstanceOf(ApiClientError)
+  })
+})
+
+describe('epochs', () => {
+  it('returns the current epoch, the stats and a single epoch', async () => {
+    const current = await api.getCurrentEpoch()
+    const [latest] = (await api.getEpochs()).data
+
+    await expect(api.getEpochByNumber(latest.epochNumber)).resolves.toMatchObject({
+      epochNumber: latest.epochNumber,
+    })
+    expect(current.epochNumber).toBe(latest.epochNumber)
+    await expect(api.getEpochStats()).resolves.toBeDefined()
+  })
+
+  it('applies the sort order', async () => {
+    for (const sortOrder of ['asc', 'desc'] as const) {
+      const { data } = await api.getEpochs({ sortOrder })
+      expectSorted(data.map((epoch) => epoch.epochNumber), sortOrder)
+    }
+  })
+})
+
+describe('transactions', () => {
+  it('returns a page, a single transaction and the lookups', async () => {
+    const [tx] = (await api.getTransactions({ limit: 1 })).data
+
+    await expect(api.getTransactionByHash(tx.txHash)).resolves.toEqual(tx)
+    await expect(api.getTransactionStats()).resolves.toBeDefined()
+    await expect(api.getTransactionTypes()).resolves.toContain(tx.txType)
+  })
+
+  it('applies the filters', async () => {
+    const endDate = REFERENCE_TIME
+    const startDate = endDate - 7 * DAY_MS
+
+    await expectFilter(api.getTransactions, { txType: ['STAKE', 'UNSTAKE'] }, (tx) =>
+      ['STAKE', 'UNSTAKE'].includes(tx.txType),
+    )
+    await expectFilter(api.getTransactions, { status: ['FAILED'] }, (tx) =>
+      tx.status === 'FAILED',
+    )
+    await expectFilter(api.getTransactions, { address: WALLET_ADDRESS }, (tx) =>
+      tx.from === WALLET_ADDRESS || tx.to === WALLET_ADDRESS,
+    )
+    await expectFilter(api.getTransactions, { minAmount: 100, maxAmount: 1000 }, (tx) =>
+      Number(tx.amount) >= 100 && Number(tx.amount) <= 1000,
+    )
+    await expectFilter(api.getTransactions, { minGasUsed: 50_000, maxGasUsed: 100_000 }, (tx) =>
+      tx.gasUsed >= 50_000 && tx.gasUsed <= 100_000,
+    )
+    await expectFilter(api.getTransactions, { startDate, endDate }, (tx) =>
+      tx.timestamp >= startDate && tx.timestamp <= endDate,
+    )
+  })
+
+  it('applies the sorts', async () => {
+    await expectSorts(api.getTransactions, ['timestamp', 'amount', 'gasUsed'])
+  })
+})
+
+describe('search', () => {
+  it('finds entities by ID', async () => {
+    const [node] = (await api.getNodes({ limit: 1 })).data
+
+    const { results } = await api.search({ q: node.nodeId, limit: 3 })
+
+    expect(results.nodes.items[0]).toMatchObject({ nodeId: node.nodeId })
+    expect(results.nodes.items.length).toBeLessThanOrEqual(3)
+  })
+})
+
+describe('OpenAPI document', () => {
+  it('serves the document the client is generated from', async () => {
+    expect(await api.getOpenApiDocument()).toEqual(loadSpec())
+  })
+
+  it('matches the committed client', () => {
+    const committed = readFileSync(new URL('./generated.ts', import.meta.url), 'utf8')
+
+    // Run `npm run generate:api` after changing the document
+    expect(generateClient(loadSpec())).toBe(committed)
+  })
+})
+
+// These run last, since they change the data the other tests read
+describe('staking actions', () => {
+  it('stakes, unstakes, claims and delegates', async () => {
+    const staker = await api.getStakerByWallet(WALLET_ADDRESS)
+    const staked = await api.stake(staker.stakerId, { amount: '100' })
+    expect(Number(staked.staker.stakedAmount)).toBeCloseTo(Number(staker.stakedAmount) + 100)
+    expect(staked.transaction).toMatchObject({ txType: 'STAKE', status: 'PENDING' })
+
+    const stakers = (await api.getStakers({ sortBy: 'pendingRewards', limit: 100 })).data
+    const unlocked = stakers.find((s) => s.unlockTime < Date.now())
+    expect(unlocked).toBeDefined()
+    const unstaked = await api.unstake(unlocked.stakerId, { amount: '1' })
+    expect(unstaked.transaction.txType).toBe('UNSTAKE')
+
+    const claimed = await api.claimRewards(stakers[0].stakerId)
+    expect(claimed.staker.pendingRewards).toBe('0.000000')
+
+    const [node] = (await api.getNodes({ status: ['ACTIVE'], limit: 100 })).data
+      .filter((n) => n.nodeId !== staker.delegatedTo)
+    const delegated = await api.delegate(staker.stakerId, { nodeId: node.nodeId })
+    expect(delegated.staker.delegatedTo).toBe(node.nodeId)
+
+    await expect(api.claimRewards(stakers[0].stakerId)).rejects.toMatchObject({ status: 400 })
+  })
+})
+
+describe('live events', () => {
+  it('streams the simulated activity', async () => {
+    const warn = vi.spyOn(console, 'warn')
+    vi.stubGlobal('EventSource', FetchEventSource)
+    const expected: LiveEventType[] = ['transaction', 'record-status', 'node-heartbeat']
+    const received = new Map<LiveEventType, LiveEvent>()
+
+    // The simulator ticks every few seconds, once someone is listening
+    await new Promise<void>((resolve) => {
+      const close = api.subscribeToLiveEvents({
+        onEvent: (event) => {
+          received.set(event.type, event)
+          if (expected.every((type) => received.has(type))) {
+            close()
+            resolve()
+          }
+        },
+      })
+    })
+
+    // Events that fail validation are logged and skipped
+    expect(warn).not.toHaveBeenCalled()
+    expect(received.get('transaction').id).toBeGreaterThan(0)
+  }, 30_000)
+
+  it('replays missed events, or asks to resync when it cannot', async () => {
+    // The staking actions published the first events
+    const replayed = await nextEventData('/api/events?lastEventId=1', 'transaction')
+    expect(
+      validateResponse('/events (transaction)', replayed, liveEventSchemas.transaction),
+    ).toMatchObject({ transaction: { txHash: expect.stringMatching(/^0x/) } })
+
+    const resync = await nextEventData('/api/events?lastEventId=1000000000', 'resync')
+    expect(validateResponse('/events (resync)', resync, liveEventSchemas.resync)).toEqual({})
+  })
+})
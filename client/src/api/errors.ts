@@ -0,0 +1,144 @@
+/**
+ * API Errors
+ * ===========
+ * Error classes thrown by the API client, so the UI can tell failure kinds apart.
+ *
+ * Every class extends `ApiError` and carries the endpoint it came from. HTTP
+ * failures also carry the status code and the parsed response body; the
+ * server reports problems as `{ error: string }`, which becomes the message.
+ */
+
+import type { ContractIssue } from './schema'
+
+type ApiErrorDetails = {
+  status?: number
+  body?: unknown
+}
+
+export class ApiError extends Error {
+  readonly endpoint: string
+  readonly status?: number
+  readonly body?: unknown
+
+  constructor(message: string, endpoint: string, { status, body }: ApiErrorDetails = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.endpoint = endpoint
+    this.status = status
+    this.body = body
+  }
+
+  /** The `error` field of the server's JSON body, if it sent one */
+  get serverMessage(): string | undefined {
+    const body = this.body as { error?: unknown } | undefined
+    return typeof body?.error === 'string' ? body.error : undefined
+  }
+}
+
+/**
+ * The request never got a response, e.g. the API server is not running
+ */
+export class ApiNetworkError extends ApiError {
+  constructor(endpoint: string) {
+    super('Unable to connect to the API server', endpoint)
+    this.name = 'ApiNetworkError'
+  }
+}
+
+/**
+ * The server rejected the request (HTTP 4xx)
+ */
+export class ApiClientError extends ApiError {
+  constructor(message: string, endpoint: string, details: ApiErrorDetails) {
+    super(message, endpoint, details)
+    this.name = 'ApiClientError'
+  }
+}
+
+/**
+ * The server failed while handling the request (HTTP 5xx)
+ */
+export class ApiServerError extends ApiError {
+  constructor(message: string, endpoint: string, details: ApiErrorDetails) {
+    super(message, endpoint, details)
+    this.name = 'ApiServerError'
+  }
+}
+
+/**
+ * No response arrived within the request's timeout
+ */
+export class ApiTimeoutError extends ApiError {
+  readonly timeout: number
+
+  constructor(endpoint: string, timeout: number) {
+    super(`No response after ${timeout / 1000}s`, endpoint)
+    this.name = 'ApiTimeoutError'
+    this.timeout = timeout
+  }
+}
+
+/**
+ * The caller cancelled the request, usually because its result is no longer needed
+ */
+export class ApiAbortedError extends ApiError {
+  constructor(endpoint: string) {
+    super('Request was cancelled', endpoint)
+    this.name = 'ApiAbortedError'
+  }
+}
+
+function describeIssue({ path, expected, received }: ContractIssue): string {
+  return `${path || 'response'} should be ${expected} but was ${received}`
+}
+
+/**
+ * The server answered, but the payload does not match the shape in types.ts
+ */
+export class ApiContractError extends ApiError {
+  readonly issues: ContractIssue[]
+
+  constructor(endpoint: string, issues: ContractIssue[]) {
+    const extra = issues.length > 1 ? ` (+${issues.length - 1} more)` : ''
+    super(`Unexpected response from ${endpoint}: ${describeIssue(issues[0])}${extra}`, endpoint)
+    this.name = 'ApiContractError'
+    this.issues = issues
+  }
+
+  /** Field path of the first mismatch, e.g. `data[3].uptime` */
+  get path(): string {
+    return this.issues[0].path
+  }
+
+  describeIssues(): string[] {
+    return this.issues.map(describeIssue)
+  }
+}
+
+/**
+ * Whether the request timed out, on our side or the server's (HTTP 408)
+ */
+export function isTimeout(error: unknown): error is ApiTimeoutError | ApiClientError {
+  return (
+    error instanceof ApiTimeoutError || (error instanceof ApiClientError && error.status === 408)
+  )
+}
+
+/**
+ * Whether the server asked us to slow down (HTTP 429)
+ */
+export function isRateLimited(error: unknown): error is ApiClientError {
+  return error instanceof ApiClientError && error.status === 429
+}
+
+/**
+ * Whether retrying the same request could succeed
+ */
+export function isRetryable(error: unknown): boolean {
+  return (
+    error instanceof ApiNetworkError ||
+    error instanceof ApiServerError ||
+    isTimeout(error) ||
+    isRateLimited(error)
+  )
+}
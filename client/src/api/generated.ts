@@ -0,0 +1,1364 @@
+/**
+ * Generated API Client
+ * =====================
+ * Generated from the OpenAPI document of ChainHealth AI API 1.0.0
+ * by scripts/generate-api.js. Do not edit; run `npm run generate:api` instead.
+ */
+
+import {
+  array,
+  boolean,
+  decimal,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  unknown,
+  type Schema,
+  type Shape,
+} from './schema'
+import { buildQueryString, fetchAPI, type RequestOptions } from './request'
+
+// ============================================
+// Types
+// ============================================
+
+export type ErrorResponse = {
+  error: string
+  path?: string
+}
+
+export type Pagination = {
+  page: number
+  limit: number
+  totalItems: number
+  totalPages: number
+  hasMore: boolean
+}
+
+export type SortOrder = 'asc' | 'desc'
+
+export type NodeType = 'VALIDATOR' | 'LIGHT' | 'RELAY' | 'ARCHIVE'
+
+export type NodeStatus = 'ACTIVE' | 'INACTIVE' | 'PENDING' | 'SLASHED'
+
+export type Region = 'NA-EAST' | 'NA-WEST' | 'EU-WEST' | 'EU-EAST' | 'ASIA-PACIFIC' | 'LATAM'
+
+export type DataType =
+  | 'HEART_RATE'
+  | 'STEPS'
+  | 'SLEEP'
+  | 'ACTIVE_MINUTES'
+  | 'CALORIES'
+  | 'BLOOD_OXYGEN'
+  | 'STRESS'
+  | 'HRV'
+
+export type DeviceType =
+  | 'APPLE_WATCH'
+  | 'FITBIT'
+  | 'GARMIN'
+  | 'OURA'
+  | 'WHOOP'
+  | 'SAMSUNG'
+  | 'XIAOMI'
+
+export type ValidationStatus = 'VALIDATED' | 'PENDING' | 'REJECTED'
+
+export type TxType =
+  | 'TRANSFER'
+  | 'STAKE'
+  | 'UNSTAKE'
+  | 'CLAIM_REWARD'
+  | 'DELEGATE'
+  | 'UNDELEGATE'
+  | 'SLASH'
+
+export type TxStatus = 'CONFIRMED' | 'PENDING' | 'FAILED'
+
+/** Lock in days */
+export type LockPeriod = 7 | 14 | 30 | 60 | 90 | 180 | 365
+
+export type NodeSortField =
+  | 'stakedAmount'
+  | 'uptime'
+  | 'totalRewardsEarned'
+  | 'validationsPerformed'
+
+export type StakerSortField =
+  | 'stakedAmount'
+  | 'pendingRewards'
+  | 'claimedRewards'
+  | 'stakingMultiplier'
+
+export type HealthRecordSortField = 'timestamp' | 'value'
+
+export type TransactionSortField = 'timestamp' | 'amount' | 'gasUsed'
+
+/** Bucket size, on local boundaries at tzOffset */
+export type TimeSeriesBucket = 'hour' | 'day' | 'week'
+
+export type HealthRecordGroupBy = 'dataType' | 'deviceType' | 'validationStatus'
+
+export type StatsOverview = {
+  activeNodes: number
+  totalStaked: string
+  healthRecordsValidated: number
+  totalRewardsDistributed: string
+  totalUsers: number
+  totalTransactions: number
+}
+
+export type PlatformStats = {
+  metadata?: {
+    generatedAt: string
+    version: string
+    /** Data scenario the server was started with */
+    scenario?: string
+    seed?: number
+  }
+  network: {
+    totalNodes: number
+    activeNodes: number
+    totalNodeStake: string
+    avgUptime: string
+    networkHealth: string
+  }
+  staking: {
+    totalStakers: number
+    totalStaked: string
+    totalPendingRewards: string
+    avgStakePerUser: string
+  }
+  healthData: {
+    totalRecords: number
+    validatedRecords: number
+    pendingRecords: number
+    validationRate: string
+    uniqueUsers: number
+  }
+  rewards: {
+    totalEpochs: number
+    currentEpoch: number
+    totalRewardsDistributed: string
+    avgRewardsPerEpoch: string
+  }
+  transactions: {
+    totalTransactions: number
+    totalVolume: string
+    confirmedRate: string
+  }
+}
+
+export type Node = {
+  nodeId: string
+  operatorAddress?: string
+  nodeType: NodeType
+  region: Region
+  status: NodeStatus
+  uptime: string
+  stakedAmount: string
+  totalRewardsEarned?: string
+  validationsPerformed: number
+  validationsSuccessful?: number
+  validationsFailed?: number
+  slashingEvents?: number
+  registeredAt?: number
+  lastHeartbeat?: number
+  metadata?: {
+    version?: string
+    hardware?: string
+    bandwidth?: number
+  }
+}
+
+export type NodePage = {
+  data: Node[]
+  pagination: Pagination
+}
+
+export type NodeStats = {
+  totalNodes: number
+  activeNodes: number
+  totalStaked: string
+  totalRewards: string
+  avgUptime: string
+  totalValidations: number
+  byType: Record<string, number>
+  byStatus: Record<string, number>
+  byRegion: Record<string, number>
+}
+
+export type NodeEpochReward = {
+  epochNumber: number
+  startTime: number
+  endTime: number
+  reward: string
+  validations: number
+}
+
+export type Staker = {
+  stakerId: string
+  walletAddress: string
+  stakedAmount: string
+  pendingRewards: string
+  claimedRewards: string
+  stakingMultiplier: number
+  lockPeriod: LockPeriod
+  unlockTime: number
+  /** ID of the node the stake is delegated to */
+  delegatedTo?: string
+}
+
+export type StakerPage = {
+  data: Staker[]
+  pagination: Pagination
+}
+
+export type StakerDetail = Staker & {
+  delegatedNode: {
+    nodeId: string
+    nodeType: NodeType
+    status: NodeStatus
+    uptime: string
+  } | null
+}
+
+export type StakerStats = {
+  totalStakers: number
+  totalStaked: string
+  totalPendingRewards: string
+  totalClaimedRewards: string
+  avgStake: string
+  avgMultiplier: string
+  byLockPeriod: Record<string, number>
+  topStakers: Array<{
+    stakerId: string
+    walletAddress: string
+    stakedAmount: string
+    delegatedTo?: string
+  }>
+}
+
+export type StakeRequest = {
+  /** Tokens to add */
+  amount: string
+  /** Cannot be shorter than the current lock. Defaults to the current lock. */
+  lockPeriod?: LockPeriod
+}
+
+export type UnstakeRequest = {
+  /** Tokens to withdraw, at most the staked amount */
+  amount: string
+}
+
+export type DelegateRequest = {
+  /** An ACTIVE node */
+  nodeId: string
+}
+
+export type StakingActionResult = {
+  staker: Staker
+  transaction: Transaction
+}
+
+export type HealthRecord = {
+  recordId: string
+  userAddress: string
+  dataType: DataType
+  value: number
+  unit: string
+  deviceType: DeviceType
+  timestamp: number
+  /** ID of the validating node */
+  validatedBy: string
+  validationStatus: ValidationStatus
+  rewardEarned: string
+}
+
+export type HealthRecordPage = {
+  data: HealthRecord[]
+  pagination: Pagination
+}
+
+export type HealthRecordStats = {
+  totalRecords: number
+  validatedRecords: number
+  pendingRecords: number
+  rejectedRecords: number
+  validationRate: string
+  uniqueUsers: number
+  byDataType: Record<string, number>
+  byDeviceType: Record<string, number>
+  recordsByDay: Array<{
+    date: string
+    count: number
+  }>
+}
+
+export type HealthRecordComparison = {
+  /** Readings of the record's data type by its user */
+  count: number
+  min: number
+  max: number
+  average: number
+  /** Percent of the readings below the record, ties half */
+  percentile: number
+}
+
+export type HealthRecordTimeSeries = {
+  startDate: number
+  endDate: number
+  bucket: TimeSeriesBucket
+  /** Offset the buckets are aligned to, in minutes */
+  tzOffset: number
+  /** Field the counts are split by, or null for totals only */
+  groupBy: 'dataType' | 'deviceType' | 'validationStatus' | null
+  groups: string[]
+  buckets: Array<{
+    start: number
+    end: number
+    total: number
+    counts: Record<string, number>
+  }>
+}
+
+export type NodeReward = {
+  nodeId: string
+  reward: string
+  validations: number
+}
+
+export type EpochSummary = {
+  epochNumber: number
+  startTime: number
+  endTime: number
+  totalRewardsPool: string
+  totalValidations: number
+  activeNodes: number
+  activeStakers: number
+  topNodeRewardsCount: number
+}
+
+export type EpochPage = {
+  data: EpochSummary[]
+  pagination: Pagination
+}
+
+export type Epoch = {
+  epochNumber: number
+  startTime: number
+  endTime: number
+  totalRewardsPool: string
+  totalValidations: number
+  activeNodes: number
+  activeStakers: number
+  nodeRewards: NodeReward[]
+}
+
+export type CurrentEpoch = {
+  epochNumber: number
+  startTime: number
+  endTime: number
+  totalRewardsPool: string
+  totalValidations: number
+  activeNodes: number
+  activeStakers: number
+  topRewards: NodeReward[]
+}
+
+export type EpochStats = {
+  totalEpochs: number
+  totalRewardsDistributed: string
+  totalValidationsAllTime: number
+  avgRewardsPerEpoch: string
+  avgValidationsPerEpoch: number
+  avgActiveNodes: number
+  avgActiveStakers: number
+  rewardsTrend: Array<{
+    epoch: number
+    rewards: string
+    validations: number
+    activeNodes: number
+  }>
+}
+
+export type Transaction = {
+  txHash: string
+  txType: TxType
+  from: string
+  to: string
+  amount: string
+  gasUsed: number
+  gasPrice: number
+  timestamp: number
+  blockNumber: number
+  status: TxStatus
+  nonce: number
+}
+
+export type TransactionPage = {
+  data: Transaction[]
+  pagination: Pagination
+}
+
+export type TransactionStats = {
+  totalTransactions: number
+  confirmedTxs: number
+  pendingTxs: number
+  failedTxs: number
+  successRate: string
+  totalVolume: string
+  totalGasUsed: number
+  avgGasPrice: string
+  byType: Record<string, number>
+  volumeByType: Record<string, string>
+  recentTxs: Array<{
+    txHash: string
+    txType: TxType
+    amount: string
+    timestamp: number
+    status: TxStatus
+  }>
+}
+
+export type NodeSearchResult = {
+  nodeId: string
+  nodeType: NodeType
+  region: Region
+  status: NodeStatus
+}
+
+export type StakerSearchResult = {
+  stakerId: string
+  walletAddress: string
+  stakedAmount: string
+}
+
+export type TransactionSearchResult = {
+  txHash: string
+  txType: TxType
+  amount: string
+  status: TxStatus
+  timestamp: number
+}
+
+export type HealthRecordSearchResult = {
+  recordId: string
+  dataType: DataType
+  userAddress: string
+  validationStatus: ValidationStatus
+}
+
+export type SearchResults = {
+  query: string
+  results: {
+    nodes: {
+      total: number
+      items: NodeSearchResult[]
+    }
+    stakers: {
+      total: number
+      items: StakerSearchResult[]
+    }
+    transactions: {
+      total: number
+      items: TransactionSearchResult[]
+    }
+    healthRecords: {
+      total: number
+      items: HealthRecordSearchResult[]
+    }
+  }
+}
+
+export type TransactionEvent = {
+  transaction: Transaction
+  /** Null when the transaction is new */
+  previousStatus: TxStatus | null
+}
+
+export type RecordStatusEvent = {
+  record: HealthRecord
+  /** Null when the record is new */
+  previousStatus: ValidationStatus | null
+}
+
+export type NodeHeartbeat = {
+  nodeId: string
+  status: NodeStatus
+  uptime: string
+  lastHeartbeat: number
+}
+
+/** The server could not replay missed events; cached data should be refetched */
+export type ResyncEvent = Record<string, never>
+
+// ============================================
+// Params
+// ============================================
+
+export type GetNodesParams = {
+  /** Page number, default 1 */
+  page?: number
+  /** Items per page, default 20, max 100 */
+  limit?: number
+  /** Sort field */
+  sortBy?: NodeSortField
+  /** Sort order, default 'desc' */
+  sortOrder?: SortOrder
+  /** Node statuses; matches any of the values */
+  status?: NodeStatus[]
+  /** Node types; matches any of the values */
+  nodeType?: NodeType[]
+  /** Regions; matches any of the values */
+  region?: Region[]
+  /** Minimum uptime percentage, inclusive */
+  minUptime?: number
+  /** Maximum uptime percentage, inclusive */
+  maxUptime?: number
+}
+
+export type GetStakersParams = {
+  /** Page number, default 1 */
+  page?: number
+  /** Items per page, default 20, max 100 */
+  limit?: number
+  /** Sort field */
+  sortBy?: StakerSortField
+  /** Sort order, default 'desc' */
+  sortOrder?: SortOrder
+  /** Minimum staked amount, inclusive */
+  minStake?: number
+  /** Maximum staked amount, inclusive */
+  maxStake?: number
+  /** ID of the node stakes are delegated to */
+  delegatedTo?: string
+}
+
+export type GetHealthRecordsParams = {
+  /** Page number, default 1 */
+  page?: number
+  /** Items per page, default 20, max 100 */
+  limit?: number
+  /** Sort field */
+  sortBy?: HealthRecordSortField
+  /** Sort order, default 'desc' */
+  sortOrder?: SortOrder
+  /** Data types; matches any of the values */
+  dataType?: DataType[]
+  /** Device types; matches any of the values */
+  deviceType?: DeviceType[]
+  /** Validation statuses; matches any of the values */
+  validationStatus?: ValidationStatus[]
+  /** User wallet address */
+  userAddress?: string
+  /** Minimum recorded value, inclusive */
+  minValue?: number
+  /** Maximum recorded value, inclusive */
+  maxValue?: number
+  /** Only records at or after this timestamp */
+  startDate?: number
+  /** Only records at or before this timestamp */
+  endDate?: number
+}
+
+export type GetHealthRecordTimeSeriesParams = {
+  /** Range start, default 7 days before endDate */
+  startDate?: number
+  /** Range end, default the data's reference time */
+  endDate?: number
+  /** Bucket size, default 'day' */
+  bucket?: TimeSeriesBucket
+  /**
+   * Minutes the local time zone is behind UTC (Date#getTimezoneOffset), default 0. Buckets start on
+   * local hours, days and weeks (Monday) at this offset.
+   */
+  tzOffset?: number
+  /** Split the counts by this field */
+  groupBy?: HealthRecordGroupBy
+  /** Data types; matches any of the values */
+  dataType?: DataType[]
+  /** Device types; matches any of the values */
+  deviceType?: DeviceType[]
+  /** Validation statuses; matches any of the values */
+  validationStatus?: ValidationStatus[]
+  /** User wallet address */
+  userAddress?: string
+  /** Minimum recorded value, inclusive */
+  minValue?: number
+  /** Maximum recorded value, inclusive */
+  maxValue?: number
+}
+
+export type GetEpochsParams = {
+  /** Page number, default 1 */
+  page?: number
+  /** Items per page, default 20, max 100 */
+  limit?: number
+  /** Sort order, default 'desc' */
+  sortOrder?: SortOrder
+}
+
+export type GetTransactionsParams = {
+  /** Page number, default 1 */
+  page?: number
+  /** Items per page, default 20, max 100 */
+  limit?: number
+  /** Sort field */
+  sortBy?: TransactionSortField
+  /** Sort order, default 'desc' */
+  sortOrder?: SortOrder
+  /** Transaction types; matches any of the values */
+  txType?: TxType[]
+  /** Transaction statuses; matches any of the values */
+  status?: TxStatus[]
+  /** Address on either side of the transfer */
+  address?: string
+  /** Minimum token amount, inclusive */
+  minAmount?: number
+  /** Maximum token amount, inclusive */
+  maxAmount?: number
+  /** Minimum gas used, inclusive */
+  minGasUsed?: number
+  /** Maximum gas used, inclusive */
+  maxGasUsed?: number
+  /** Only transactions at or after this timestamp */
+  startDate?: number
+  /** Only transactions at or before this timestamp */
+  endDate?: number
+}
+
+export type SearchParams = {
+  /**
+   * At least 2 characters. Matches partial node, staker and record IDs, wallet address prefixes and
+   * tx hash prefixes.
+   */
+  q: string
+  /** Results per group, default 5, max 20 */
+  limit?: number
+}
+
+// ============================================
+// Response schemas
+// ============================================
+
+export const platformStatsSchema = object<PlatformStats>({
+  metadata: optional(object<NonNullable<PlatformStats['metadata']>>({
+    generatedAt: string,
+    version: string,
+    scenario: optional(string),
+    seed: optional(number),
+  })),
+  network: object<PlatformStats['network']>({
+    totalNodes: number,
+    activeNodes: number,
+    totalNodeStake: decimal,
+    avgUptime: decimal,
+    networkHealth: decimal,
+  }),
+  staking: object<PlatformStats['staking']>({
+    totalStakers: number,
+    totalStaked: decimal,
+    totalPendingRewards: decimal,
+    avgStakePerUser: decimal,
+  }),
+  healthData: object<PlatformStats['healthData']>({
+    totalRecords: number,
+    validatedRecords: number,
+    pendingRecords: number,
+    validationRate: decimal,
+    uniqueUsers: number,
+  }),
+  rewards: object<PlatformStats['rewards']>({
+    totalEpochs: number,
+    currentEpoch: number,
+    totalRewardsDistributed: decimal,
+    avgRewardsPerEpoch: decimal,
+  }),
+  transactions: object<PlatformStats['transactions']>({
+    totalTransactions: number,
+    totalVolume: decimal,
+    confirmedRate: decimal,
+  }),
+})
+
+export const statsOverviewSchema = object<StatsOverview>({
+  activeNodes: number,
+  totalStaked: decimal,
+  healthRecordsValidated: number,
+  totalRewardsDistributed: decimal,
+  totalUsers: number,
+  totalTransactions: number,
+})
+
+export const nodeTypeSchema = oneOf('VALIDATOR', 'LIGHT', 'RELAY', 'ARCHIVE')
+
+export const regionSchema = oneOf(
+  'NA-EAST',
+  'NA-WEST',
+  'EU-WEST',
+  'EU-EAST',
+  'ASIA-PACIFIC',
+  'LATAM',
+)
+
+export const nodeStatusSchema = oneOf('ACTIVE', 'INACTIVE', 'PENDING', 'SLASHED')
+
+export const nodeSchema = object<Node>({
+  nodeId: string,
+  operatorAddress: optional(string),
+  nodeType: nodeTypeSchema,
+  region: regionSchema,
+  status: nodeStatusSchema,
+  uptime: decimal,
+  stakedAmount: decimal,
+  totalRewardsEarned: optional(decimal),
+  validationsPerformed: number,
+  validationsSuccessful: optional(number),
+  validationsFailed: optional(number),
+  slashingEvents: optional(number),
+  registeredAt: optional(number),
+  lastHeartbeat: optional(number),
+  metadata: optional(object<NonNullable<Node['metadata']>>({
+    version: optional(string),
+    hardware: optional(string),
+    bandwidth: optional(number),
+  })),
+})
+
+export const paginationSchema = object<Pagination>({
+  page: number,
+  limit: number,
+  totalItems: number,
+  totalPages: number,
+  hasMore: boolean,
+})
+
+export const nodePageSchema = object<NodePage>({
+  data: array(nodeSchema),
+  pagination: paginationSchema,
+})
+
+export const nodeStatsSchema = object<NodeStats>({
+  totalNodes: number,
+  activeNodes: number,
+  totalStaked: decimal,
+  totalRewards: decimal,
+  avgUptime: decimal,
+  totalValidations: number,
+  byType: record(number),
+  byStatus: record(number),
+  byRegion: record(number),
+})
+
+export const nodeEpochRewardSchema = object<NodeEpochReward>({
+  epochNumber: number,
+  startTime: number,
+  endTime: number,
+  reward: decimal,
+  validations: number,
+})
+
+export const lockPeriodSchema = oneOf(7, 14, 30, 60, 90, 180, 365)
+
+const stakerShape: Shape<Staker> = {
+  stakerId: string,
+  walletAddress: string,
+  stakedAmount: decimal,
+  pendingRewards: decimal,
+  claimedRewards: decimal,
+  stakingMultiplier: number,
+  lockPeriod: lockPeriodSchema,
+  unlockTime: number,
+  delegatedTo: optional(string),
+}
+
+export const stakerSchema = object<Staker>(stakerShape)
+
+export const stakerPageSchema = object<StakerPage>({
+  data: array(stakerSchema),
+  pagination: paginationSchema,
+})
+
+export const stakerStatsSchema = object<StakerStats>({
+  totalStakers: number,
+  totalStaked: decimal,
+  totalPendingRewards: decimal,
+  totalClaimedRewards: decimal,
+  avgStake: decimal,
+  avgMultiplier: decimal,
+  byLockPeriod: record(number),
+  topStakers: array(object<StakerStats['topStakers'][number]>({
+    stakerId: string,
+    walletAddress: string,
+    stakedAmount: decimal,
+    delegatedTo: optional(string),
+  })),
+})
+
+export const stakerDetailSchema = object<StakerDetail>({
+  ...stakerShape,
+  delegatedNode: nullable(object<NonNullable<StakerDetail['delegatedNode']>>({
+    nodeId: string,
+    nodeType: nodeTypeSchema,
+    status: nodeStatusSchema,
+    uptime: decimal,
+  })),
+})
+
+export const txTypeSchema = oneOf(
+  'TRANSFER',
+  'STAKE',
+  'UNSTAKE',
+  'CLAIM_REWARD',
+  'DELEGATE',
+  'UNDELEGATE',
+  'SLASH',
+)
+
+export const txStatusSchema = oneOf('CONFIRMED', 'PENDING', 'FAILED')
+
+export const transactionSchema = object<Transaction>({
+  txHash: string,
+  txType: txTypeSchema,
+  from: string,
+  to: string,
+  amount: decimal,
+  gasUsed: number,
+  gasPrice: number,
+  timestamp: number,
+  blockNumber: number,
+  status: txStatusSchema,
+  nonce: number,
+})
+
+export const stakingActionResultSchema = object<StakingActionResult>({
+  staker: stakerSchema,
+  transaction: transactionSchema,
+})
+
+export const dataTypeSchema = oneOf(
+  'HEART_RATE',
+  'STEPS',
+  'SLEEP',
+  'ACTIVE_MINUTES',
+  'CALORIES',
+  'BLOOD_OXYGEN',
+  'STRESS',
+  'HRV',
+)
+
+export const deviceTypeSchema = oneOf(
+  'APPLE_WATCH',
+  'FITBIT',
+  'GARMIN',
+  'OURA',
+  'WHOOP',
+  'SAMSUNG',
+  'XIAOMI',
+)
+
+export const validationStatusSchema = oneOf('VALIDATED', 'PENDING', 'REJECTED')
+
+export const healthRecordSchema = object<HealthRecord>({
+  recordId: string,
+  userAddress: string,
+  dataType: dataTypeSchema,
+  value: number,
+  unit: string,
+  deviceType: deviceTypeSchema,
+  timestamp: number,
+  validatedBy: string,
+  validationStatus: validationStatusSchema,
+  rewardEarned: decimal,
+})
+
+export const healthRecordPageSchema = object<HealthRecordPage>({
+  data: array(healthRecordSchema),
+  pagination: paginationSchema,
+})
+
+export const healthRecordStatsSchema = object<HealthRecordStats>({
+  totalRecords: number,
+  validatedRecords: number,
+  pendingRecords: number,
+  rejectedRecords: number,
+  validationRate: decimal,
+  uniqueUsers: number,
+  byDataType: record(number),
+  byDeviceType: record(number),
+  recordsByDay: array(object<HealthRecordStats['recordsByDay'][number]>({
+    date: string,
+    count: number,
+  })),
+})
+
+export const timeSeriesBucketSchema = oneOf('hour', 'day', 'week')
+
+export const healthRecordTimeSeriesSchema = object<HealthRecordTimeSeries>({
+  startDate: number,
+  endDate: number,
+  bucket: timeSeriesBucketSchema,
+  tzOffset: number,
+  groupBy: nullable(oneOf('dataType', 'deviceType', 'validationStatus')),
+  groups: array(string),
+  buckets: array(object<HealthRecordTimeSeries['buckets'][number]>({
+    start: number,
+    end: number,
+    total: number,
+    counts: record(number),
+  })),
+})
+
+export const healthRecordComparisonSchema = object<HealthRecordComparison>({
+  count: number,
+  min: number,
+  max: number,
+  average: number,
+  percentile: number,
+})
+
+export const epochSummarySchema = object<EpochSummary>({
+  epochNumber: number,
+  startTime: number,
+  endTime: number,
+  totalRewardsPool: decimal,
+  totalValidations: number,
+  activeNodes: number,
+  activeStakers: number,
+  topNodeRewardsCount: number,
+})
+
+export const epochPageSchema = object<EpochPage>({
+  data: array(epochSummarySchema),
+  pagination: paginationSchema,
+})
+
+export const nodeRewardSchema = object<NodeReward>({
+  nodeId: string,
+  reward: decimal,
+  validations: number,
+})
+
+export const currentEpochSchema = object<CurrentEpoch>({
+  epochNumber: number,
+  startTime: number,
+  endTime: number,
+  totalRewardsPool: decimal,
+  totalValidations: number,
+  activeNodes: number,
+  activeStakers: number,
+  topRewards: array(nodeRewardSchema),
+})
+
+export const epochStatsSchema = object<EpochStats>({
+  totalEpochs: number,
+  totalRewardsDistributed: decimal,
+  totalValidationsAllTime: number,
+  avgRewardsPerEpoch: decimal,
+  avgValidationsPerEpoch: number,
+  avgActiveNodes: number,
+  avgActiveStakers: number,
+  rewardsTrend: array(object<EpochStats['rewardsTrend'][number]>({
+    epoch: number,
+    rewards: decimal,
+    validations: number,
+    activeNodes: number,
+  })),
+})
+
+export const epochSchema = object<Epoch>({
+  epochNumber: number,
+  startTime: number,
+  endTime: number,
+  totalRewardsPool: decimal,
+  totalValidations: number,
+  activeNodes: number,
+  activeStakers: number,
+  nodeRewards: array(nodeRewardSchema),
+})
+
+export const transactionPageSchema = object<TransactionPage>({
+  data: array(transactionSchema),
+  pagination: paginationSchema,
+})
+
+export const transactionStatsSchema = object<TransactionStats>({
+  totalTransactions: number,
+  confirmedTxs: number,
+  pendingTxs: number,
+  failedTxs: number,
+  successRate: decimal,
+  totalVolume: decimal,
+  totalGasUsed: number,
+  avgGasPrice: decimal,
+  byType: record(number),
+  volumeByType: record(decimal),
+  recentTxs: array(object<TransactionStats['recentTxs'][number]>({
+    txHash: string,
+    txType: txTypeSchema,
+    amount: decimal,
+    timestamp: number,
+    status: txStatusSchema,
+  })),
+})
+
+export const nodeSearchResultSchema = object<NodeSearchResult>({
+  nodeId: string,
+  nodeType: nodeTypeSchema,
+  region: regionSchema,
+  status: nodeStatusSchema,
+})
+
+export const stakerSearchResultSchema = object<StakerSearchResult>({
+  stakerId: string,
+  walletAddress: string,
+  stakedAmount: decimal,
+})
+
+export const transactionSearchResultSchema = object<TransactionSearchResult>({
+  txHash: string,
+  txType: txTypeSchema,
+  amount: decimal,
+  status: txStatusSchema,
+  timestamp: number,
+})
+
+export const healthRecordSearchResultSchema = object<HealthRecordSearchResult>({
+  recordId: string,
+  dataType: dataTypeSchema,
+  userAddress: string,
+  validationStatus: validationStatusSchema,
+})
+
+export const searchResultsSchema = object<SearchResults>({
+  query: string,
+  results: object<SearchResults['results']>({
+    nodes: object<SearchResults['results']['nodes']>({
+      total: number,
+      items: array(nodeSearchResultSchema),
+    }),
+    stakers: object<SearchResults['results']['stakers']>({
+      total: number,
+      items: array(stakerSearchResultSchema),
+    }),
+    transactions: object<SearchResults['results']['transactions']>({
+      total: number,
+      items: array(transactionSearchResultSchema),
+    }),
+    healthRecords: object<SearchResults['results']['healthRecords']>({
+      total: number,
+      items: array(healthRecordSearchResultSchema),
+    }),
+  }),
+})
+
+export const transactionEventSchema = object<TransactionEvent>({
+  transaction: transactionSchema,
+  previousStatus: nullable(txStatusSchema),
+})
+
+export const recordStatusEventSchema = object<RecordStatusEvent>({
+  record: healthRecordSchema,
+  previousStatus: nullable(validationStatusSchema),
+})
+
+export const nodeHeartbeatSchema = object<NodeHeartbeat>({
+  nodeId: string,
+  status: nodeStatusSchema,
+  uptime: decimal,
+  lastHeartbeat: number,
+})
+
+export const resyncEventSchema = object<ResyncEvent>({})
+
+// ============================================
+// Stats
+// ============================================
+
+/** Overall platform statistics */
+export async function getStats(options: RequestOptions = {}): Promise<PlatformStats> {
+  return fetchAPI('/stats', options, platformStatsSchema)
+}
+
+/** Simplified overview for dashboard cards */
+export async function getStatsOverview(options: RequestOptions = {}): Promise<StatsOverview> {
+  return fetchAPI('/stats/overview', options, statsOverviewSchema)
+}
+
+// ============================================
+// Nodes
+// ============================================
+
+/** Paginated list of nodes */
+export async function getNodes(
+  params: GetNodesParams = {},
+  options: RequestOptions = {},
+): Promise<NodePage> {
+  return fetchAPI(`/nodes${buildQueryString(params)}`, options, nodePageSchema)
+}
+
+/** Aggregate node statistics */
+export async function getNodeStats(options: RequestOptions = {}): Promise<NodeStats> {
+  return fetchAPI('/nodes/stats', options, nodeStatsSchema)
+}
+
+/** A single node */
+export async function getNodeById(nodeId: string, options: RequestOptions = {}): Promise<Node> {
+  return fetchAPI(`/nodes/${nodeId}`, options, nodeSchema)
+}
+
+/** The node's reward entry for every epoch it earned in, oldest first */
+export async function getNodeRewards(
+  nodeId: string,
+  options: RequestOptions = {},
+): Promise<NodeEpochReward[]> {
+  return fetchAPI(`/nodes/${nodeId}/rewards`, options, array(nodeEpochRewardSchema))
+}
+
+// ============================================
+// Stakers
+// ============================================
+
+/** Paginated list of stakers */
+export async function getStakers(
+  params: GetStakersParams = {},
+  options: RequestOptions = {},
+): Promise<StakerPage> {
+  return fetchAPI(`/stakers${buildQueryString(params)}`, options, stakerPageSchema)
+}
+
+/** Aggregate staker statistics */
+export async function getStakerStats(options: RequestOptions = {}): Promise<StakerStats> {
+  return fetchAPI('/stakers/stats', options, stakerStatsSchema)
+}
+
+/** A single staker with its delegated node */
+export async function getStakerById(
+  stakerId: string,
+  options: RequestOptions = {},
+): Promise<StakerDetail> {
+  return fetchAPI(`/stakers/${stakerId}`, options, stakerDetailSchema)
+}
+
+/** The staker with a wallet address */
+export async function getStakerByWallet(
+  address: string,
+  options: RequestOptions = {},
+): Promise<Staker> {
+  return fetchAPI(`/stakers/wallet/${address}`, options, stakerSchema)
+}
+
+/** Add tokens to a stake and restart its lock */
+export async function stake(
+  stakerId: string,
+  request: StakeRequest,
+  options: RequestOptions = {},
+): Promise<StakingActionResult> {
+  return fetchAPI(
+    `/stakers/${stakerId}/stake`,
+    { ...options, method: 'POST', body: JSON.stringify(request) },
+    stakingActionResultSchema,
+  )
+}
+
+/** Withdraw tokens from a stake once its lock has ended */
+export async function unstake(
+  stakerId: string,
+  request: UnstakeRequest,
+  options: RequestOptions = {},
+): Promise<StakingActionResult> {
+  return fetchAPI(
+    `/stakers/${stakerId}/unstake`,
+    { ...options, method: 'POST', body: JSON.stringify(request) },
+    stakingActionResultSchema,
+  )
+}
+
+/** Claim all pending rewards */
+export async function claimRewards(
+  stakerId: string,
+  options: RequestOptions = {},
+): Promise<StakingActionResult> {
+  return fetchAPI(
+    `/stakers/${stakerId}/claim`,
+    { ...options, method: 'POST' },
+    stakingActionResultSchema,
+  )
+}
+
+/** Delegate the whole stake to an active node */
+export async function delegate(
+  stakerId: string,
+  request: DelegateRequest,
+  options: RequestOptions = {},
+): Promise<StakingActionResult> {
+  return fetchAPI(
+    `/stakers/${stakerId}/delegate`,
+    { ...options, method: 'POST', body: JSON.stringify(request) },
+    stakingActionResultSchema,
+  )
+}
+
+// ============================================
+// Health Records
+// ============================================
+
+/** Paginated list of health records */
+export async function getHealthRecords(
+  params: GetHealthRecordsParams = {},
+  options: RequestOptions = {},
+): Promise<HealthRecordPage> {
+  return fetchAPI(`/health-records${buildQueryString(params)}`, options, healthRecordPageSchema)
+}
+
+/** Aggregate health record statistics */
+export async function getHealthRecordStats(
+  options: RequestOptions = {},
+): Promise<HealthRecordStats> {
+  return fetchAPI('/health-records/stats', options, healthRecordStatsSchema)
+}
+
+/** Record counts per time bucket, optionally split by a record field */
+export async function getHealthRecordTimeSeries(
+  params: GetHealthRecordTimeSeriesParams = {},
+  options: RequestOptions = {},
+): Promise<HealthRecordTimeSeries> {
+  return fetchAPI(
+    `/health-records/timeseries${buildQueryString(params)}`,
+    options,
+    healthRecordTimeSeriesSchema,
+  )
+}
+
+/** Data types present in the records */
+export async function getDataTypes(options: RequestOptions = {}): Promise<DataType[]> {
+  return fetchAPI('/health-records/data-types', options, array(dataTypeSchema))
+}
+
+/** Device types present in the records */
+export async function getDeviceTypes(options: RequestOptions = {}): Promise<DeviceType[]> {
+  return fetchAPI('/health-records/device-types', options, array(deviceTypeSchema))
+}
+
+/** A single health record */
+export async function getHealthRecordById(
+  recordId: string,
+  options: RequestOptions = {},
+): Promise<HealthRecord> {
+  return fetchAPI(`/health-records/${recordId}`, options, healthRecordSchema)
+}
+
+/** A record's value compared with its user's other readings of the same type */
+export async function getHealthRecordComparison(
+  recordId: string,
+  options: RequestOptions = {},
+): Promise<HealthRecordComparison> {
+  return fetchAPI(`/health-records/${recordId}/comparison`, options, healthRecordComparisonSchema)
+}
+
+// ============================================
+// Epochs
+// ============================================
+
+/** Paginated list of epochs */
+export async function getEpochs(
+  params: GetEpochsParams = {},
+  options: RequestOptions = {},
+): Promise<EpochPage> {
+  return fetchAPI(`/epochs${buildQueryString(params)}`, options, epochPageSchema)
+}
+
+/** The most recent epoch */
+export async function getCurrentEpoch(options: RequestOptions = {}): Promise<CurrentEpoch> {
+  return fetchAPI('/epochs/current', options, currentEpochSchema)
+}
+
+/** Aggregate statistics across epochs */
+export async function getEpochStats(options: RequestOptions = {}): Promise<EpochStats> {
+  return fetchAPI('/epochs/stats', options, epochStatsSchema)
+}
+
+/** A single epoch with up to 50 node rewards */
+export async function getEpochByNumber(
+  epochNumber: number,
+  options: RequestOptions = {},
+): Promise<Epoch> {
+  return fetchAPI(`/epochs/${epochNumber}`, options, epochSchema)
+}
+
+// ============================================
+// Transactions
+// ============================================
+
+/** Paginated list of transactions */
+export async function getTransactions(
+  params: GetTransactionsParams = {},
+  options: RequestOptions = {},
+): Promise<TransactionPage> {
+  return fetchAPI(`/transactions${buildQueryString(params)}`, options, transactionPageSchema)
+}
+
+/** Aggregate transaction statistics */
+export async function getTransactionStats(options: RequestOptions = {}): Promise<TransactionStats> {
+  return fetchAPI('/transactions/stats', options, transactionStatsSchema)
+}
+
+/** Transaction types present in the data */
+export async function getTransactionTypes(options: RequestOptions = {}): Promise<TxType[]> {
+  return fetchAPI('/transactions/types', options, array(txTypeSchema))
+}
+
+/** A single transaction */
+export async function getTransactionByHash(
+  txHash: string,
+  options: RequestOptions = {},
+): Promise<Transaction> {
+  return fetchAPI(`/transactions/${txHash}`, options, transactionSchema)
+}
+
+// ============================================
+// Search
+// ============================================
+
+/** Matches grouped by entity type, best first */
+export async function search(
+  params: SearchParams,
+  options: RequestOptions = {},
+): Promise<SearchResults> {
+  return fetchAPI(`/search${buildQueryString(params)}`, options, searchResultsSchema)
+}
+
+// ============================================
+// Meta
+// ============================================
+
+/** The OpenAPI document of this API */
+export async function getOpenApiDocument(
+  options: RequestOptions = {},
+): Promise<Record<string, unknown>> {
+  return fetchAPI('/openapi.json', options, record(unknown))
+}
+
+// ============================================
+// Live Events
+// ============================================
+
+/** Payloads of the events streamed by GET /events, keyed by event type */
+export type LiveEventMap = {
+  transaction: TransactionEvent
+  'record-status': RecordStatusEvent
+  'node-heartbeat': NodeHeartbeat
+  resync: ResyncEvent
+}
+
+export const liveEventSchemas: { [K in keyof LiveEventMap]: Schema<LiveEventMap[K]> } = {
+  transaction: transactionEventSchema,
+  'record-status': recordStatusEventSchema,
+  'node-heartbeat': nodeHeartbeatSchema,
+  resync: resyncEventSchema,
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildQueryString, claimRewards, getNodeById, getNodes } from './index'
+import {
+  ApiAbortedError,
+  ApiClientError,
+  ApiContractError,
+  ApiNetworkError,
+  ApiServerError,
+  ApiTimeoutError,
+} from './errors'
+import { apiError, json, mockApi, networkError, pending, text } from '../test/mockApi'
+import { nodes, page } from '../test/fixtures'
+
+describe('buildQueryString', () => {
+  it('returns an empty string without params', () => {
+    expect(buildQueryString({})).toBe('')
+  })
+
+  it('encodes params in order', () => {
+    expect(buildQueryString({ page: 2, limit: 20, q: 'heart rate' })).toBe(
+      '?page=2&limit=20&q=heart+rate',
+    )
+  })
+
+  it('joins lists with commas', () => {
+    expect(buildQueryString({ status: ['ACTIVE', 'PENDING'] })).toBe('?status=ACTIVE%2CPENDING')
+  })
+
+  it('drops empty values but keeps zero', () => {
+    expect(buildQueryString({ a: undefined, b: null, c: '', d: [], e: 0 })).toBe('?e=0')
+  })
+})
+
+describe('fetchAPI', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('returns the parsed response and sends the query string', async () => {
+    await expect(getNodes({ status: ['ACTIVE'], page: 2 })).resolves.toEqual(page(nodes))
+
+    const [request] = mockApi.requestsTo('/nodes')
+    expect(request.query.get('status')).toBe('ACTIVE')
+    expect(request.query.get('page')).toBe('2')
+  })
+
+  it('throws ApiClientError with the server message for 4xx responses', async () => {
+    const error = await getNodeById('NODE-999999').catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(ApiClientError)
+    expect(error).toMatchObject({
+      message: 'Node not found',
+      status: 404,
+      endpoint: '/nodes/NODE-999999',
+    })
+    // Retrying cannot change a rejection
+    expect(mockApi.requestsTo('/nodes/NODE-999999')).toHaveLength(1)
+  })
+
+  it('falls back to the status when the error body is not JSON', async () => {
+    mockApi.on('/nodes', text('<h1>Bad Gateway</h1>', 502))
+
+    const error = await getNodes({}, { retries: 0 }).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(ApiServerError)
+    expect((error as ApiServerError).message).toMatch(/^HTTP 502/)
+    expect((error as ApiServerError).body).toBe('<h1>Bad Gateway</h1>')
+  })
+
+  it('retries GET requests after server errors', async () => {
+    vi.useFakeTimers()
+    let calls = 0
+    mockApi.on('/nodes', () => {
+      calls += 1
+      return calls === 1 ? apiError(503, 'Service unavailable') : json(page(nodes))
+    })
+
+    const request = getNodes({}, { retries: 1 })
+    await vi.runAllTimersAsync()
+
+    await expect(request).resolves.toEqual(page(nodes))
+    expect(calls).toBe(2)
+  })
+
+  it('throws ApiServerError once the retries are used up', async () => {
+    vi.useFakeTimers()
+    mockApi.on('/nodes', apiError(500, 'Internal error'))
+
+    const request = getNodes({}, { retries: 2 })
+    const settled = request.catch((err: unknown) => err)
+    await vi.runAllTimersAsync()
+
+    const error = await settled
+    expect(error).toBeInstanceOf(ApiServerError)
+    expect(error).toMatchObject({ message: 'Internal error', status: 500 })
+    expect(mockApi.requestsTo('/nodes')).toHaveLength(3)
+  })
+
+  it('does not retry other methods', async () => {
+    mockApi.on('/stakers/:stakerId/claim', apiError(503, 'Service unavailable'), 'POST')
+
+    await expect(claimRewards('STAKER-0000001')).rejects.toBeInstanceOf(ApiServerError)
+    expect(mockApi.requestsTo('/stakers/STAKER-0000001/claim')).toHaveLength(1)
+  })
+
+  it('throws ApiNetworkError when the server cannot be reached', async () => {
+    mockApi.on('/nodes', networkError())
+
+    await expect(getNodes({}, { retries: 0 })).rejects.toBeInstanceOf(ApiNetworkError)
+  })
+
+  it('throws ApiTimeoutError when no response arrives in time', async () => {
+    mockApi.on('/nodes', pending())
+
+    const error = await getNodes({}, { timeout: 20, retries: 0 }).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(ApiTimeoutError)
+    expect((error as ApiTimeoutError).timeout).toBe(20)
+  })
+
+  it('throws ApiAbortedError when the caller aborts', async () => {
+    mockApi.on('/nodes', pending())
+    const controller = new AbortController()
+
+    const request = getNodes({}, { signal: controller.signal })
+    controller.abort()
+
+    await expect(request).rejects.toBeInstanceOf(ApiAbortedError)
+    // Cancelling on purpose is not an error worth logging
+    expect(console.error).not.toHaveBeenCalled()
+  })
+
+  it('throws ApiContractError when the response does not match its type', async () => {
+    mockApi.on('/nodes/:nodeId', json({ ...nodes[0], uptime: undefined, stakedAmount: 48000 }))
+
+    const error = await getNodeById(nodes[0].nodeId).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(ApiContractError)
+    expect((error as ApiContractError).issues.map((issue) => issue.path)).toEqual(
+      expect.arrayContaining(['uptime', 'stakedAmount']),
+    )
+  })
+
+  it('throws ApiContractError when a successful body is not JSON', async () => {
+    mockApi.on('/nodes', text('<!doctype html>'))
+
+    const error = await getNodes().catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(ApiContractError)
+    expect((error as ApiContractError).describeIssues()).toEqual([
+      'response should be JSON but was unparseable body',
+    ])
+  })
+})
@@ -5,208 +5,95 @@
  * 
  * The Vite dev server is configured to proxy /api requests to localhost:3001,
  * so you can use relative URLs for all API calls.
+ *
+ * The endpoint functions and their types are generated from the server's
+ * OpenAPI document (generated.ts); the live event stream is subscribed here.
  */
 
-import type {
-  HealthRecord,
-  HealthRecordStats,
-  Node,
-  NodeStats,
-  PaginatedResponse,
-  PlatformStats,
-  Staker,
-  StakerStats,
-  StatsOverview,
-  Transaction,
-  TransactionStats,
-} from '../types'
+import type { LiveEvent, LiveEventType } from '../types'
+import { liveEventSchemas } from './generated'
+import { API_BASE, buildQueryString, retryDelay, validateResponse } from './request'
+import type { Schema } from './schema'
 
-const API_BASE = '/api'
-
-/**
- * Generic fetch wrapper with error handling
- */
-async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const url = `${API_BASE}${endpoint}`
-  
-  try {
-    const headers: HeadersInit = {}
-    if (options.body) {
-      headers['Content-Type'] = 'application/json'
-    }
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...headers,
-        ...options.headers,
-      },
-    })
-
-    if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`
-      try {
-        const contentType = response.headers.get('content-type')
-        if (contentType && contentType.includes('application/json')) {
-          const errorData = await response.json()
-          errorMessage = errorData.error || errorMessage
-        } else {
-          const text = await response.text()
-          errorMessage = text || errorMessage
-        }
-      } catch (parseError) {
-        errorMessage = response.statusText || errorMessage
-      }
-      throw new Error(errorMessage)
-    }
-
-    const data = await response.json()
-    return data as T
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      const networkError = new Error(`Network error: Unable to connect to server. Please ensure the API server is running on http://localhost:3001`)
-      console.error(`API Error [${endpoint}]:`, networkError.message)
-      throw networkError
-    }
-    
-    if (error instanceof Error) {
-      console.error(`API Error [${endpoint}]:`, error.message)
-      throw error
-    }
-    
-    console.error(`API Error [${endpoint}]:`, error)
-    throw new Error(`Failed to fetch ${endpoint}: ${String(error)}`)
-  }
-}
-
-/**
- * Build query string from params object
- */
-function buildQueryString(params: Record<string, string | number | null | undefined>) {
-  const searchParams = new URLSearchParams()
-  Object.entries(params).forEach(([key, value]) => {
-    if (value !== undefined && value !== null && value !== '') {
-      searchParams.append(key, String(value))
-    }
-  })
-  const queryString = searchParams.toString()
-  return queryString ? `?${queryString}` : ''
-}
-
-// ============================================
-// Platform Stats
-// ============================================
-
-export async function getStats(): Promise<PlatformStats> {
-  return fetchAPI('/stats')
-}
-
-export async function getStatsOverview(): Promise<StatsOverview> {
-  return fetchAPI('/stats/overview')
-}
-
-// ============================================
-// Nodes
-// ============================================
-
-export async function getNodes(params: Record<string, string | number | undefined> = {}): Promise<PaginatedResponse<Node>> {
-  return fetchAPI(`/nodes${buildQueryString(params)}`)
-}
-
-export async function getNodeStats(): Promise<NodeStats> {
-  return fetchAPI('/nodes/stats')
-}
-
-export async function getNodeById(nodeId: string): Promise<Node> {
-  return fetchAPI(`/nodes/${nodeId}`)
-}
-
-// ============================================
-// Stakers
-// ============================================
-
-export async function getStakers(
-  params: Record<string, string | number | undefined> = {},
-): Promise<PaginatedResponse<Staker>> {
-  return fetchAPI(`/stakers${buildQueryString(params)}`)
-}
-
-export async function getStakerStats(): Promise<StakerStats> {
-  return fetchAPI('/stakers/stats')
-}
-
-export async function getStakerById(stakerId: string): Promise<Staker> {
-  return fetchAPI(`/stakers/${stakerId}`)
-}
-
-export async function getStakerByWallet(address: string): Promise<Staker> {
-  return fetchAPI(`/stakers/wallet/${address}`)
-}
-
-// ============================================
-// Health Records
-// ============================================
-
-export async function getHealthRecords(
-  params: Record<string, string | number | undefined> = {},
-): Promise<PaginatedResponse<HealthRecord>> {
-  return fetchAPI(`/health-records${buildQueryString(params)}`)
-}
-
-export async function getHealthRecordStats(): Promise<HealthRecordStats> {
-  return fetchAPI('/health-records/stats')
-}
-
-export async function getHealthRecordById(recordId: string): Promise<HealthRecord> {
-  return fetchAPI(`/health-records/${recordId}`)
-}
-
-export async function getDataTypes(): Promise<string[]> {
-  return fetchAPI('/health-records/data-types')
-}
-
-export async function getDeviceTypes(): Promise<string[]> {
-  return fetchAPI('/health-records/device-types')
-}
+export { buildQueryString, type QueryParams, type RequestOptions } from './request'
+export * from './generated'
 
 // ============================================
-// Epochs
+// Live events
 // ============================================
 
-export async function getEpochs(params: Record<string, string | number | undefined> = {}): Promise<unknown> {
-  return fetchAPI(`/epochs${buildQueryString(params)}`)
-}
+export type LiveConnectionState = 'connecting' | 'open' | 'reconnecting'
 
-export async function getCurrentEpoch(): Promise<unknown> {
-  return fetchAPI('/epochs/current')
+export type LiveSubscription = {
+  onEvent: (event: LiveEvent) => void
+  onStateChange?: (state: LiveConnectionState) => void
 }
 
-export async function getEpochStats(): Promise<unknown> {
-  return fetchAPI('/epochs/stats')
-}
+const LIVE_EVENT_TYPES = Object.keys(liveEventSchemas) as LiveEventType[]
 
-export async function getEpochByNumber(epochNumber: number): Promise<unknown> {
-  return fetchAPI(`/epochs/${epochNumber}`)
-}
+/**
+ * Stream live network activity from GET /events (Server-Sent Events).
+ *
+ * Dropped connections are reopened with the same backoff as request retries,
+ * passing the last received event ID so the server replays what was missed.
+ * Events that fail validation are logged and skipped. Returns a function that
+ * closes the stream.
+ */
+export function subscribeToLiveEvents({ onEvent, onStateChange }: LiveSubscription): () => void {
+  let source: EventSource | null = null
+  let lastEventId: string | null = null
+  let failures = 0
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+  let closed = false
+
+  const handleMessage = (type: LiveEventType, message: MessageEvent<string>) => {
+    if (message.lastEventId) {
+      lastEventId = message.lastEventId
+    }
+    if (type === 'resync') {
+      // The server cannot replay from our position, so there is nothing to resume
+      lastEventId = null
+    }
 
-// ============================================
-// Transactions
-// ============================================
+    const endpoint = `/events (${type})`
+    try {
+      const schema: Schema<unknown> = liveEventSchemas[type]
+      const data = validateResponse(endpoint, JSON.parse(message.data), schema)
+      const id = message.lastEventId ? Number(message.lastEventId) : null
+      onEvent({ id, type, data } as LiveEvent)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : error
+      console.warn(`Skipped live event [${endpoint}]:`, reason)
+    }
+  }
 
-export async function getTransactions(
-  params: Record<string, string | number | undefined> = {},
-): Promise<PaginatedResponse<Transaction>> {
-  return fetchAPI(`/transactions${buildQueryString(params)}`)
-}
+  const connect = () => {
+    const stream = new EventSource(`${API_BASE}/events${buildQueryString({ lastEventId })}`)
+    source = stream
 
-export async function getTransactionStats(): Promise<TransactionStats> {
-  return fetchAPI('/transactions/stats')
-}
+    stream.onopen = () => {
+      failures = 0
+      onStateChange?.('open')
+    }
+    // Reconnect ourselves instead of relying on the browser's fixed retry interval
+    stream.onerror = () => {
+      stream.close()
+      if (closed) return
+      onStateChange?.('reconnecting')
+      reconnectTimer = setTimeout(connect, retryDelay(failures))
+      failures += 1
+    }
+    LIVE_EVENT_TYPES.forEach((type) => {
+      stream.addEventListener(type, (message) => handleMessage(type, message))
+    })
+  }
 
-export async function getTransactionTypes(): Promise<string[]> {
-  return fetchAPI('/transactions/types')
-}
+  onStateChange?.('connecting')
+  connect()
 
-export async function getTransactionByHash(txHash: string): Promise<Transaction> {
-  return fetchAPI(`/transactions/${txHash}`)
+  return () => {
+    closed = true
+    clearTimeout(reconnectTimer)
+    source?.close()
+  }
 }
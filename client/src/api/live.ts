@@ -0,0 +1,326 @@
+/**
+ * Live Updates
+ * =============
+ * Merges the live event stream into the query cache, so every page showing
+ * an affected endpoint updates in place instead of refetching.
+ *
+ * One stream is shared by all mounted consumers and closed when the last one
+ * goes away. Only data that can be patched exactly is updated: counts, status
+ * changes and the recent activity lists. New items are not inserted into
+ * paginated lists, since that would shift pages under the user.
+ */
+
+import { invalidateQueries, setQueryData, updateQueryData } from './cache'
+import { subscribeToLiveEvents, type LiveConnectionState } from './index'
+import type {
+  HealthRecord,
+  HealthRecordStats,
+  HealthRecordTimeSeries,
+  LiveEvent,
+  LiveEventMap,
+  Node,
+  NodeHeartbeat,
+  PaginatedResponse,
+  PlatformStats,
+  StatsOverview,
+  Transaction,
+  TransactionStats,
+} from '../types'
+
+const RECENT_TX_LIMIT = 10
+
+const TX_STATUS_COUNTS = {
+  CONFIRMED: 'confirmedTxs',
+  PENDING: 'pendingTxs',
+  FAILED: 'failedTxs',
+} as const
+
+const RECORD_STATUS_COUNTS = {
+  VALIDATED: 'validatedRecords',
+  PENDING: 'pendingRecords',
+  REJECTED: 'rejectedRecords',
+} as const
+
+function toRate(part: number, total: number): string {
+  return total ? ((part / total) * 100).toFixed(2) : '0.00'
+}
+
+function incrementKey(counts: Record<string, number>, key: string): Record<string, number> {
+  return { ...counts, [key]: (counts[key] || 0) + 1 }
+}
+
+/**
+ * Swap an item in a cached list page, returning the page untouched when the
+ * item is not on it
+ */
+function replaceOnPage<T>(
+  page: PaginatedResponse<T>,
+  matches: (item: T) => boolean,
+  update: (item: T) => T,
+): PaginatedResponse<T> {
+  if (!page.data.some(matches)) {
+    return page
+  }
+  return { ...page, data: page.data.map((item) => (matches(item) ? update(item) : item)) }
+}
+
+// ============================================
+// Transactions
+// ============================================
+
+function applyTransaction({ transaction, previousStatus }: LiveEventMap['transaction']) {
+  const isNew = previousStatus === null
+  const isSameTx = (tx: { txHash: string }) => tx.txHash === transaction.txHash
+
+  setQueryData<TransactionStats>(['/transactions/stats'], (stats) => {
+    const next = { ...stats }
+    if (isNew) {
+      next.totalTransactions += 1
+      next.totalVolume = (Number(stats.totalVolume) + Number(transaction.amount)).toFixed(2)
+      next.totalGasUsed += transaction.gasUsed
+      next.byType = incrementKey(stats.byType, transaction.txType)
+    } else if (previousStatus in TX_STATUS_COUNTS) {
+      next[TX_STATUS_COUNTS[previousStatus as keyof typeof TX_STATUS_COUNTS]] -= 1
+    }
+    if (transaction.status in TX_STATUS_COUNTS) {
+      next[TX_STATUS_COUNTS[transaction.status as keyof typeof TX_STATUS_COUNTS]] += 1
+    }
+    next.successRate = toRate(next.confirmedTxs, next.totalTransactions)
+
+    const summary = {
+      txHash: transaction.txHash,
+      txType: transaction.txType,
+      amount: transaction.amount,
+      timestamp: transaction.timestamp,
+      status: transaction.status,
+    }
+    next.recentTxs = stats.recentTxs.some(isSameTx)
+      ? stats.recentTxs.map((tx) => (isSameTx(tx) ? summary : tx))
+      : [summary, ...stats.recentTxs].slice(0, RECENT_TX_LIMIT)
+    return next
+  })
+
+  if (isNew) {
+    setQueryData<StatsOverview>(['/stats/overview'], (overview) => ({
+      ...overview,
+      totalTransactions: overview.totalTransactions + 1,
+    }))
+  }
+
+  setQueryData<Transaction>([`/transactions/${transaction.txHash}`], () => transaction)
+  updateQueryData<PaginatedResponse<Transaction>>('/transactions?', (page) =>
+    replaceOnPage<Transaction>(page, isSameTx, () => transaction),
+  )
+}
+
+// ============================================
+// Health records
+// ============================================
+
+const RECORD_FILTERS = ['dataType', 'deviceType', 'validationStatus'] as const
+
+function matchesRecordFilters(record: HealthRecord, params: URLSearchParams): boolean {
+  const userAddress = params.get('userAddress')
+  if (userAddress && userAddress.toLowerCase() !== record.userAddress.toLowerCase()) {
+    return false
+  }
+  const minValue = params.get('minValue')
+  const maxValue = params.get('maxValue')
+  if (minValue && record.value < Number(minValue)) {
+    return false
+  }
+  if (maxValue && record.value > Number(maxValue)) {
+    return false
+  }
+  // List filters are comma-separated and match any of their values
+  return RECORD_FILTERS.every((field) => {
+    const value = params.get(field)
+    return !value || value.toUpperCase().split(',').includes(record[field])
+  })
+}
+
+/**
+ * Add (or with -1, remove) a record to the time-series bucket it falls in
+ */
+function countInTimeSeries(
+  series: HealthRecordTimeSeries,
+  record: HealthRecord,
+  change: number,
+): HealthRecordTimeSeries {
+  const index = series.buckets.findIndex(
+    (bucket) => record.timestamp >= bucket.start && record.timestamp < bucket.end,
+  )
+  if (index === -1) {
+    return series
+  }
+
+  const group = series.groupBy ? String(record[series.groupBy as keyof HealthRecord]) : null
+  const buckets = series.buckets.map((bucket, bucketIndex) => {
+    if (bucketIndex !== index) return bucket
+    const counts = group
+      ? { ...bucket.counts, [group]: (bucket.counts[group] || 0) + change }
+      : bucket.counts
+    return { ...bucket, total: bucket.total + change, counts }
+  })
+  const groups = group && !series.groups.includes(group)
+    ? [...series.groups, group].sort()
+    : series.groups
+  return { ...series, buckets, groups }
+}
+
+function applyRecordStatus({ record, previousStatus }: LiveEventMap['record-status']) {
+  const isNew = previousStatus === null
+  const validatedDelta =
+    (record.validationStatus === 'VALIDATED' ? 1 : 0) - (previousStatus === 'VALIDATED' ? 1 : 0)
+  const pendingDelta =
+    (record.validationStatus === 'PENDING' ? 1 : 0) - (previousStatus === 'PENDING' ? 1 : 0)
+
+  setQueryData<HealthRecordStats>(['/health-records/stats'], (stats) => {
+    const next = { ...stats }
+    if (isNew) {
+      next.totalRecords += 1
+      next.byDataType = incrementKey(stats.byDataType, record.dataType)
+      next.byDeviceType = incrementKey(stats.byDeviceType, record.deviceType)
+      // The last bucket covers the most recent 24 hours
+      next.recordsByDay = stats.recordsByDay.map((day, index, days) =>
+        index === days.length - 1 ? { ...day, count: day.count + 1 } : day,
+      )
+    } else if (previousStatus in RECORD_STATUS_COUNTS) {
+      next[RECORD_STATUS_COUNTS[previousStatus as keyof typeof RECORD_STATUS_COUNTS]] -= 1
+    }
+    if (record.validationStatus in RECORD_STATUS_COUNTS) {
+      const countKey = record.validationStatus as keyof typeof RECORD_STATUS_COUNTS
+      next[RECORD_STATUS_COUNTS[countKey]] += 1
+    }
+    next.validationRate = toRate(next.validatedRecords, next.totalRecords)
+    return next
+  })
+
+  setQueryData<PlatformStats>(['/stats'], (stats) => {
+    const totalRecords = stats.healthData.totalRecords + (isNew ? 1 : 0)
+    const validatedRecords = stats.healthData.validatedRecords + validatedDelta
+    return {
+      ...stats,
+      healthData: {
+        ...stats.healthData,
+        totalRecords,
+        validatedRecords,
+        pendingRecords: stats.healthData.pendingRecords + pendingDelta,
+        validationRate: toRate(validatedRecords, totalRecords),
+      },
+    }
+  })
+
+  if (validatedDelta) {
+    setQueryData<StatsOverview>(['/stats/overview'], (overview) => ({
+      ...overview,
+      healthRecordsValidated: overview.healthRecordsValidated + validatedDelta,
+    }))
+  }
+
+  // A status change can move the record between groups, or in and out of a status filter
+  const previous = previousStatus === null ? null : { ...record, validationStatus: previousStatus }
+  updateQueryData<HealthRecordTimeSeries>('/health-records/timeseries', (series, params) => {
+    let next = series
+    if (previous && matchesRecordFilters(previous, params)) {
+      next = countInTimeSeries(next, previous, -1)
+    }
+    if (matchesRecordFilters(record, params)) {
+      next = countInTimeSeries(next, record, 1)
+    }
+    return next
+  })
+
+  const isSameRecord = (item: HealthRecord) => item.recordId === record.recordId
+  setQueryData<HealthRecord>([`/health-records/${record.recordId}`], () => record)
+  updateQueryData<PaginatedResponse<HealthRecord>>('/health-records?', (page) =>
+    replaceOnPage(page, isSameRecord, () => record),
+  )
+}
+
+// ============================================
+// Nodes
+// ============================================
+
+function applyNodeHeartbeat(heartbeat: NodeHeartbeat) {
+  const { nodeId, ...changes } = heartbeat
+  setQueryData<Node>([`/nodes/${nodeId}`], (node) => ({ ...node, ...changes }))
+  updateQueryData<PaginatedResponse<Node>>('/nodes?', (page) =>
+    replaceOnPage(
+      page,
+      (node) => node.nodeId === nodeId,
+      (node) => ({ ...node, ...changes }),
+    ),
+  )
+}
+
+/**
+ * Merge one live event into the query cache
+ */
+export function applyLiveEvent(event: LiveEvent) {
+  switch (event.type) {
+    case 'transaction':
+      applyTransaction(event.data)
+      break
+    case 'record-status':
+      applyRecordStatus(event.data)
+      break
+    case 'node-heartbeat':
+      applyNodeHeartbeat(event.data)
+      break
+    case 'resync':
+      // Events were missed and cannot be replayed, so the patched data may be off
+      invalidateQueries('/transactions')
+      invalidateQueries('/health-records')
+      invalidateQueries('/nodes')
+      invalidateQueries('/stats')
+      break
+  }
+}
+
+// ============================================
+// Shared connection
+// ============================================
+
+let closeStream: (() => void) | null = null
+let consumers = 0
+let connectionState: LiveConnectionState = 'connecting'
+const stateListeners = new Set<() => void>()
+
+function setConnectionState(state: LiveConnectionState) {
+  connectionState = state
+  stateListeners.forEach((listener) => listener())
+}
+
+export function getLiveConnectionState(): LiveConnectionState {
+  return connectionState
+}
+
+export function subscribeLiveConnectionState(listener: () => void): () => void {
+  stateListeners.add(listener)
+  return () => {
+    stateListeners.delete(listener)
+  }
+}
+
+/**
+ * Register a consumer of live updates, opening the stream for the first one.
+ * The returned release function closes it once the last consumer goes away.
+ */
+export function retainLiveUpdates(): () => void {
+  consumers += 1
+  if (!closeStream) {
+    closeStream = subscribeToLiveEvents({
+      onEvent: applyLiveEvent,
+      onStateChange: setConnectionState,
+    })
+  }
+  return () => {
+    consumers -= 1
+    if (!consumers && closeStream) {
+      closeStream()
+      closeStream = null
+      setConnectionState('connecting')
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * API Requests
+ * =============
+ * `fetchAPI` sends a request to the backend and checks the response against
+ * its schema. It adds typed errors, timeouts and retries on top of fetch; the
+ * endpoint functions generated in generated.ts are built on it.
+ */
+
+import {
+  ApiAbortedError,
+  ApiClientError,
+  ApiContractError,
+  ApiError,
+  ApiNetworkError,
+  ApiServerError,
+  ApiTimeoutError,
+  isRetryable,
+} from './errors'
+import { findIssues, type Schema } from './schema'
+
+export const API_BASE = '/api'
+
+/**
+ * Set VITE_API_CONTRACT_MODE=warn during development to log response drift
+ * to the console instead of failing the request. Production always throws.
+ */
+const CONTRACT_MODE =
+  import.meta.env.DEV && import.meta.env.VITE_API_CONTRACT_MODE === 'warn' ? 'warn' : 'strict'
+
+/**
+ * Check a parsed response against its schema
+ */
+export function validateResponse<T>(endpoint: string, data: unknown, schema: Schema<T>): T {
+  const issues = findIssues(schema, data)
+  if (issues.length) {
+    const error = new ApiContractError(endpoint, issues)
+    if (CONTRACT_MODE === 'strict') {
+      throw error
+    }
+    console.warn(`API contract drift [${endpoint}]:`, error.describeIssues())
+  }
+  return data as T
+}
+
+export type RequestOptions = {
+  signal?: AbortSignal
+  /** Milliseconds to wait for a response before failing with `ApiTimeoutError` */
+  timeout?: number
+  /** Extra attempts after a retryable failure; only GET requests are retried */
+  retries?: number
+}
+
+type FetchOptions = RequestInit & RequestOptions
+
+const DEFAULT_TIMEOUT = 15_000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY = 400
+const RETRY_MAX_DELAY = 5_000
+
+/**
+ * Exponential backoff with jitter, so clients that failed together do not
+ * all retry at the same moment
+ */
+export function retryDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt)
+  return ceiling / 2 + Math.random() * (ceiling / 2)
+}
+
+function wait(ms: number, endpoint: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiAbortedError(endpoint))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new ApiAbortedError(endpoint))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  try {
+    const contentType = response.headers.get('content-type')
+    if (contentType && contentType.includes('application/json')) {
+      return await response.json()
+    }
+    return (await response.text()) || undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Make a single request and parse its body. The timeout covers reading the
+ * body too, and fetch failures are translated into the ApiError classes.
+ */
+async function attemptRequest(
+  endpoint: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  const controller = new AbortController()
+  let timedOut = false
+  const abort = () => controller.abort()
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+
+  if (signal?.aborted) {
+    controller.abort()
+  }
+  signal?.addEventListener('abort', abort, { once: true })
+
+  try {
+    const response = await fetch(`${API_BASE}${endpoint}`, {
+      ...init,
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      const body = await readBody(response)
+      const serverMessage = (body as { error?: unknown } | undefined)?.error
+      const message = typeof serverMessage === 'string'
+        ? serverMessage
+        : `HTTP ${response.status}: ${response.statusText}`
+      const details = { status: response.status, body }
+      throw response.status >= 500
+        ? new ApiServerError(message, endpoint, details)
+        : new ApiClientError(message, endpoint, details)
+    }
+
+    try {
+      return await response.json()
+    } catch (parseError) {
+      if (controller.signal.aborted) throw parseError
+      throw new ApiContractError(endpoint, [
+        { path: '', expected: 'JSON', received: 'unparseable body' },
+      ])
+    }
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    if (timedOut) throw new ApiTimeoutError(endpoint, timeout)
+    if (signal?.aborted) throw new ApiAbortedError(endpoint)
+    throw new ApiNetworkError(endpoint)
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', abort)
+  }
+}
+
+/**
+ * Generic fetch wrapper with typed errors, timeouts and retries
+ */
+export async function fetchAPI<T>(
+  endpoint: string,
+  options: FetchOptions,
+  schema: Schema<T>,
+): Promise<T> {
+  const { signal, timeout = DEFAULT_TIMEOUT, retries = DEFAULT_RETRIES, ...init } = options
+  const method = (init.method || 'GET').toUpperCase()
+  const maxRetries = method === 'GET' ? retries : 0
+
+  if (init.body) {
+    init.headers = { 'Content-Type': 'application/json', ...init.headers }
+  }
+
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const data = await attemptRequest(endpoint, init, timeout, signal)
+      return validateResponse(endpoint, data, schema)
+    } catch (error) {
+      // Superseded requests are cancelled on purpose; let callers ignore them quietly
+      if (error instanceof ApiAbortedError) {
+        throw error
+      }
+
+      if (attempt < maxRetries && isRetryable(error)) {
+        await wait(retryDelay(attempt), endpoint, signal)
+        continue
+      }
+
+      console.error(`API Error [${endpoint}]:`, error instanceof Error ? error.message : error)
+      throw error
+    }
+  }
+}
+
+export type QueryParams = Record<string, string | number | string[] | null | undefined>
+
+/**
+ * Build query string from params object. Lists are sent comma-separated,
+ * which the list endpoints read as "any of these values".
+ */
+export function buildQueryString(params: QueryParams) {
+  const searchParams = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    const text = Array.isArray(value) ? value.join(',') : value
+    if (text !== undefined && text !== null && text !== '') {
+      searchParams.append(key, String(text))
+    }
+  })
+  const queryString = searchParams.toString()
+  return queryString ? `?${queryString}` : ''
+}
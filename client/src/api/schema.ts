@@ -0,0 +1,154 @@
+/**
+ * Response Schemas
+ * =================
+ * Minimal runtime validators used to check API responses against their
+ * types before they reach the UI. generated.ts builds one per response type.
+ *
+ * A schema records every mismatch it finds (with a field path such as
+ * `data[3].uptime`) instead of stopping at the first one, so drift can be
+ * reported in full.
+ */
+
+export type ContractIssue = {
+  path: string
+  expected: string
+  received: string
+}
+
+export type Schema<T> = {
+  readonly expected: string
+  readonly check: (value: unknown, path: string, issues: ContractIssue[]) => void
+  /** Type marker only; never set at runtime */
+  readonly __type?: T
+}
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> }
+
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN'
+  return typeof value
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, expected, received: describeValue(value) })
+      }
+    },
+  }
+}
+
+export const string = primitive<string>('string', (value) => typeof value === 'string')
+
+export const number = primitive<number>(
+  'number',
+  (value) => typeof value === 'number' && Number.isFinite(value),
+)
+
+export const boolean = primitive<boolean>('boolean', (value) => typeof value === 'boolean')
+
+/** Accepts anything, for documents the client does not inspect */
+export const unknown = primitive<unknown>('any value', () => true)
+
+/** Token amounts and percentages are sent as strings to keep their precision */
+export const decimal = primitive<string>(
+  'decimal string',
+  (value) => typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)),
+)
+
+/** One of the values of an enumeration, e.g. a node status */
+export function oneOf<T extends string | number>(...values: T[]): Schema<T> {
+  return primitive<T>(
+    values.map((value) => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | '),
+    (value) => values.includes(value as T),
+  )
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} or undefined`,
+    check(value, path, issues) {
+      if (value !== undefined) {
+        schema.check(value, path, issues)
+      }
+    },
+  }
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} or null`,
+    check(value, path, issues) {
+      if (value !== null) {
+        schema.check(value, path, issues)
+      }
+    },
+  }
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: 'array', received: describeValue(value) })
+        return
+      }
+      value.forEach((entry, index) => item.check(entry, joinPath(path, index), issues))
+    },
+  }
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${item.expected}>`,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describeValue(value) })
+        return
+      }
+      Object.entries(value).forEach(([key, entry]) => {
+        item.check(entry, joinPath(path, key), issues)
+      })
+    },
+  }
+}
+
+/**
+ * Validate an object field by field. Unknown extra fields are allowed so the
+ * server can add data without breaking older clients.
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describeValue(value) })
+        return
+      }
+      const fields = value as Record<string, unknown>
+      const entries = Object.entries(shape) as Array<[string, Schema<unknown>]>
+      entries.forEach(([key, schema]) => {
+        schema.check(fields[key], joinPath(path, key), issues)
+      })
+    },
+  }
+}
+
+/**
+ * Collect every mismatch between a value and its schema
+ */
+export function findIssues<T>(schema: Schema<T>, value: unknown): ContractIssue[] {
+  const issues: ContractIssue[] = []
+  schema.check(value, '', issues)
+  return issues
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { fetchQuery, getQueryEntry, serializeQueryKey } from './cache'
+import { submitStakingAction } from './staking'
+import { page, stakers } from '../test/fixtures'
+import { apiError, mockApi } from '../test/mockApi'
+
+const staker = stakers[0]
+const listKey = serializeQueryKey(['/stakers'])
+// Cached by TransactionDetail for a counterparty without a staker record
+const missingKey = serializeQueryKey(['/stakers/wallet/0xdead', { ifMissing: 'null' }])
+
+describe('submitStakingAction', () => {
+  it('updates cached stakers next to lookups of addresses without one', async () => {
+    await fetchQuery(listKey, async () => page(stakers))
+    await fetchQuery(missingKey, async () => null)
+
+    await submitStakingAction(staker, { type: 'claim' })
+
+    expect(mockApi.requestsTo(`/stakers/${staker.stakerId}/claim`)).toHaveLength(1)
+    expect(getQueryEntry(missingKey).data).toBeNull()
+  })
+
+  it('rolls the optimistic update back when the request fails', async () => {
+    mockApi.on('/stakers/:stakerId/claim', apiError(400, 'No rewards to claim'), 'POST')
+    await fetchQuery(listKey, async () => page(stakers))
+
+    await expect(submitStakingAction(staker, { type: 'claim' })).rejects.toMatchObject({
+      status: 400,
+    })
+
+    expect(getQueryEntry(listKey).data).toEqual(page(stakers))
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Optimistic Staking Actions
+ * ===========================
+ * Runs a staking action against the API while showing its result right away.
+ *
+ * The projected staker is written to every cached staker query before the
+ * request is sent. The server's version replaces it once the request
+ * succeeds; if it fails, the cached data is restored as it was.
+ */
+
+import { invalidateQueries, snapshotQueries, updateQueryData } from './cache'
+import { claimRewards, delegate, stake, unstake } from './index'
+import { applyStakingAction, type StakingAction } from '../utils/staking'
+import type { PaginatedResponse, Staker, StakingActionResult } from '../types'
+
+function isStakerPage(data: unknown): data is PaginatedResponse<Staker> {
+  return data !== null && Array.isArray((data as PaginatedResponse<Staker>).data)
+}
+
+/**
+ * Merge a staker into every cached staker query that contains it: the detail,
+ * wallet lookup and list pages. Stats are aggregates and are refetched instead.
+ * Lookups of addresses without a staker are cached as null and left alone.
+ */
+function writeStaker(staker: Staker) {
+  updateQueryData<unknown>('/stakers', (data) => {
+    if (isStakerPage(data)) {
+      return data.data.some((item) => item.stakerId === staker.stakerId)
+        ? {
+            ...data,
+            data: data.data.map((item) =>
+              item.stakerId === staker.stakerId ? { ...item, ...staker } : item,
+            ),
+          }
+        : data
+    }
+    return (data as Staker | null)?.stakerId === staker.stakerId
+      ? { ...(data as Staker), ...staker }
+      : data
+  })
+}
+
+function sendAction(stakerId: string, action: StakingAction): Promise<StakingActionResult> {
+  switch (action.type) {
+    case 'stake':
+      return stake(stakerId, { amount: action.amount, lockPeriod: action.lockPeriod })
+    case 'unstake':
+      return unstake(stakerId, { amount: action.amount })
+    case 'claim':
+      return claimRewards(stakerId)
+    case 'delegate':
+      return delegate(stakerId, { nodeId: action.nodeId })
+  }
+}
+
+/**
+ * Apply a staking action optimistically and submit it. Rejects with the API
+ * error after rolling the cache back.
+ */
+export async function submitStakingAction(
+  staker: Staker,
+  action: StakingAction,
+): Promise<StakingActionResult> {
+  const rollback = snapshotQueries('/stakers')
+
+  try {
+    writeStaker(applyStakingAction(staker, action))
+    const result = await sendAction(staker.stakerId, action)
+    writeStaker(result.staker)
+    invalidateQueries('/stakers/stats')
+    invalidateQueries('/transactions')
+    invalidateQueries('/stats')
+    if (action.type === 'delegate') {
+      // The detail view embeds the delegated node, which only the server knows
+      invalidateQueries(`/stakers/${staker.stakerId}`)
+    }
+    return result
+  } catch (error) {
+    rollback()
+    invalidateQueries('/stakers')
+    throw error
+  }
+}
@@ -0,0 +1,50 @@
+type ChipFilterProps = {
+  label: string
+  options: readonly string[]
+  /** Selected options; empty matches everything */
+  value: string[]
+  onChange: (value: string[]) => void
+  formatOption?: (option: string) => string
+}
+
+/**
+ * Multi-select filter shown as toggle chips. "Any" clears the selection.
+ */
+function ChipFilter({
+  label,
+  options,
+  value,
+  onChange,
+  formatOption = (option) => option,
+}: ChipFilterProps) {
+  const toggle = (option: string) => {
+    onChange(value.includes(option) ? value.filter((item) => item !== option) : [...value, option])
+  }
+
+  return (
+    <div className="chip-filter" role="group" aria-label={label}>
+      <span className="chip-filter-label">{label}</span>
+      <button
+        type="button"
+        className="chip"
+        aria-pressed={!value.length}
+        onClick={() => onChange([])}
+      >
+        Any
+      </button>
+      {options.map((option) => (
+        <button
+          key={option}
+          type="button"
+          className="chip"
+          aria-pressed={value.includes(option)}
+          onClick={() => toggle(option)}
+        >
+          {formatOption(option)}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default ChipFilter
@@ -0,0 +1,233 @@
+import { useEffect, useState, type KeyboardEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { search } from '../api'
+import { formatTokenAmount, shortenAddress, shortenHash } from '../utils/format'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useQuery } from '../hooks/useQuery'
+import type { SearchResults } from '../types'
+
+type CommandPaletteProps = {
+  onClose: () => void
+}
+
+type PaletteItem = {
+  id: string
+  title: string
+  detail: string
+  to: string
+}
+
+type PaletteGroup = {
+  label: string
+  total: number
+  items: PaletteItem[]
+}
+
+const MIN_QUERY_LENGTH = 2
+const LISTBOX_ID = 'command-palette-results'
+
+function toGroups({ results }: SearchResults): PaletteGroup[] {
+  const groups: PaletteGroup[] = [
+    {
+      label: 'Nodes',
+      total: results.nodes.total,
+      items: results.nodes.items.map((node) => ({
+        id: `node-${node.nodeId}`,
+        title: node.nodeId,
+        detail: `${node.nodeType} · ${node.region} · ${node.status}`,
+        to: `/nodes/${node.nodeId}`,
+      })),
+    },
+    {
+      label: 'Stakers',
+      total: results.stakers.total,
+      items: results.stakers.items.map((staker) => ({
+        id: `staker-${staker.stakerId}`,
+        title: staker.stakerId,
+        detail: [
+          shortenAddress(staker.walletAddress),
+          formatTokenAmount(staker.stakedAmount),
+        ].join(' · '),
+        to: `/staking/${staker.stakerId}`,
+      })),
+    },
+    {
+      label: 'Transactions',
+      total: results.transactions.total,
+      items: results.transactions.items.map((tx) => ({
+        id: `tx-${tx.txHash}`,
+        title: shortenHash(tx.txHash, 10),
+        detail: [
+          tx.txType.replace(/_/g, ' '),
+          formatTokenAmount(tx.amount),
+          tx.status,
+        ].join(' · '),
+        to: `/transactions/${tx.txHash}`,
+      })),
+    },
+    {
+      label: 'Health Records',
+      total: results.healthRecords.total,
+      items: results.healthRecords.items.map((record) => ({
+        id: `record-${record.recordId}`,
+        title: record.recordId,
+        detail: `${record.dataType.replace(/_/g, ' ')} · ${record.validationStatus}`,
+        to: `/health-records?record=${record.recordId}`,
+      })),
+    },
+  ]
+  return groups.filter((group) => group.items.length)
+}
+
+/**
+ * Global search dialog. Arrow keys move through the results, Enter opens the
+ * highlighted one and Escape closes the dialog.
+ */
+function CommandPalette({ onClose }: CommandPaletteProps) {
+  const navigate = useNavigate()
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const trimmed = useDebouncedValue(query.trim(), 200)
+  const searchQuery = useQuery(
+    trimmed.length >= MIN_QUERY_LENGTH ? ['/search', { q: trimmed }] : null,
+    (options) => search({ q: trimmed }, options),
+  )
+
+  const groups = searchQuery.data && trimmed.length >= MIN_QUERY_LENGTH
+    ? toGroups(searchQuery.data)
+    : []
+  const items = groups.flatMap((group) => group.items)
+  const activeItem = items[Math.min(activeIndex, items.length - 1)]
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [searchQuery.data])
+
+  useEffect(() => {
+    if (activeItem) {
+      document.getElementById(activeItem.id)?.scrollIntoView({ block: 'nearest' })
+    }
+  }, [activeItem])
+
+  const open = (item: PaletteItem) => {
+    onClose()
+    navigate(item.to)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setActiveIndex((index) => (items.length ? (index + 1) % items.length : 0))
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setActiveIndex((index) =>
+          items.length ? (index - 1 + items.length) % items.length : 0,
+        )
+        break
+      case 'Enter':
+        event.preventDefault()
+        if (activeItem) {
+          open(activeItem)
+        }
+        break
+      case 'Escape':
+        event.preventDefault()
+        onClose()
+        break
+    }
+  }
+
+  const renderStatus = () => {
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      return 'Search node, staker and record IDs, or wallet and transaction hash prefixes.'
+    }
+    if (searchQuery.error) {
+      return searchQuery.error.message
+    }
+    if (!searchQuery.data || trimmed !== query.trim()) {
+      return 'Searching...'
+    }
+    return items.length ? null : `No matches for "${trimmed}".`
+  }
+
+  const status = renderStatus()
+  let itemIndex = -1
+
+  return (
+    <div className="modal-backdrop palette-backdrop" onClick={onClose}>
+      <div
+        className="modal palette"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <input
+          className="palette-input"
+          type="text"
+          role="combobox"
+          aria-expanded={items.length > 0}
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={activeItem?.id}
+          aria-autocomplete="list"
+          placeholder="Search nodes, stakers, transactions, records..."
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          autoFocus
+        />
+        {status ? (
+          <p className="palette-status" role="status">
+            {status}
+          </p>
+        ) : null}
+        <ul className="palette-results" id={LISTBOX_ID} role="listbox">
+          {groups.map((group) => (
+            <li key={group.label} role="presentation">
+              <div className="palette-group" role="presentation">
+                {group.label}
+                <span>
+                  {group.total > group.items.length
+                    ? `${group.items.length} of ${group.total}`
+                    : group.total}
+                </span>
+              </div>
+              <ul role="group" aria-label={group.label}>
+                {group.items.map((item) => {
+                  itemIndex += 1
+                  const index = itemIndex
+                  const active = item === activeItem
+                  return (
+                    <li
+                      key={item.id}
+                      id={item.id}
+                      role="option"
+                      aria-selected={active}
+                      className={active ? 'palette-item active' : 'palette-item'}
+                      onMouseMove={() => setActiveIndex(index)}
+                      onClick={() => open(item)}
+                    >
+                      <strong className="mono">{item.title}</strong>
+                      <span>{item.detail}</span>
+                    </li>
+                  )
+                })}
+              </ul>
+            </li>
+          ))}
+        </ul>
+        <div className="palette-hint" aria-hidden="true">
+          <span><kbd>↑</kbd> <kbd>↓</kbd> to move</span>
+          <span><kbd>Enter</kbd> to open</span>
+          <span><kbd>Esc</kbd> to close</span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CommandPalette
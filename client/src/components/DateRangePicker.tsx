@@ -0,0 +1,90 @@
+import type { ChangeEvent } from 'react'
+import {
+  EMPTY_DATE_RANGE,
+  presetRange,
+  toDateInputValue,
+  type DateRange,
+} from '../utils/dateRange'
+
+type DateRangePickerProps = {
+  value: DateRange
+  onChange: (range: DateRange) => void
+  /** Quick ranges, in days ending today */
+  presets?: number[]
+  /** Offer an "All" option that clears the range */
+  allowAll?: boolean
+  label?: string
+}
+
+function presetLabel(days: number): string {
+  return days === 1 ? 'Today' : `${days}D`
+}
+
+function DateRangePicker({
+  value,
+  onChange,
+  presets = [1, 7, 30],
+  allowAll = false,
+  label = 'Date range',
+}: DateRangePickerProps) {
+  const today = toDateInputValue(Date.now())
+  const isAll = !value.start && !value.end
+
+  const isPreset = (days: number) => {
+    const range = presetRange(days)
+    return range.start === value.start && range.end === value.end
+  }
+
+  const handleDateChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const next = { ...value, [event.target.name]: event.target.value }
+    // Keep the range ordered when one side is moved past the other
+    if (next.start && next.end && next.start > next.end) {
+      onChange({ start: next.end, end: next.start })
+      return
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="date-range-picker" role="group" aria-label={label}>
+      <div className="segmented">
+        {allowAll ? (
+          <button type="button" aria-pressed={isAll} onClick={() => onChange(EMPTY_DATE_RANGE)}>
+            All
+          </button>
+        ) : null}
+        {presets.map((days) => (
+          <button
+            key={days}
+            type="button"
+            aria-pressed={isPreset(days)}
+            onClick={() => onChange(presetRange(days))}
+          >
+            {presetLabel(days)}
+          </button>
+        ))}
+      </div>
+      <input
+        type="date"
+        name="start"
+        aria-label="Start date"
+        value={value.start}
+        max={today}
+        onChange={handleDateChange}
+      />
+      <span className="date-range-separator" aria-hidden="true">
+        –
+      </span>
+      <input
+        type="date"
+        name="end"
+        aria-label="End date"
+        value={value.end}
+        max={today}
+        onChange={handleDateChange}
+      />
+    </div>
+  )
+}
+
+export default DateRangePicker
@@ -1,16 +1,124 @@
+import {
+  ApiAbortedError,
+  ApiClientError,
+  ApiContractError,
+  ApiNetworkError,
+  ApiServerError,
+  ApiTimeoutError,
+  isRateLimited,
+  isTimeout,
+} from '../api/errors'
+
 type ErrorStateProps = {
-  message: string
+  error: Error
   onRetry?: () => void
 }
 
-function ErrorState({ message, onRetry }: ErrorStateProps) {
+type ErrorCopy = {
+  title: string
+  message: string
+  /** Button label, or null when retrying the same request cannot help */
+  retryLabel: string | null
+}
+
+const MAX_LISTED_ISSUES = 5
+
+function describeError(error: Error): ErrorCopy {
+  if (error instanceof ApiNetworkError) {
+    return {
+      title: 'Cannot reach the server',
+      message: 'Make sure the API server is running on http://localhost:3001.',
+      retryLabel: 'Try again',
+    }
+  }
+
+  if (isTimeout(error)) {
+    return {
+      title: 'The server is taking too long',
+      message: error instanceof ApiTimeoutError
+        ? `${error.endpoint} did not respond within ${error.timeout / 1000} seconds.`
+        : `${error.endpoint} timed out (HTTP ${error.status}).`,
+      retryLabel: 'Try again',
+    }
+  }
+
+  if (error instanceof ApiServerError) {
+    return {
+      title: 'The server ran into a problem',
+      message: `${error.message} (HTTP ${error.status}). This is usually temporary.`,
+      retryLabel: 'Try again',
+    }
+  }
+
+  if (error instanceof ApiClientError) {
+    if (error.status === 404) {
+      return {
+        title: 'Not found',
+        message: error.serverMessage || 'The item you are looking for does not exist.',
+        retryLabel: null,
+      }
+    }
+    const rateLimited = isRateLimited(error)
+    return {
+      title: rateLimited ? 'Too many requests' : 'The request was rejected',
+      message: `${error.message} (HTTP ${error.status})`,
+      retryLabel: rateLimited ? 'Try again' : null,
+    }
+  }
+
+  if (error instanceof ApiAbortedError) {
+    return {
+      title: 'Loading was cancelled',
+      message: 'The request was stopped before it finished.',
+      retryLabel: 'Load again',
+    }
+  }
+
+  return {
+    title: 'Unable to load data',
+    message: error.message,
+    retryLabel: 'Try again',
+  }
+}
+
+function ErrorState({ error, onRetry }: ErrorStateProps) {
+  if (error instanceof ApiContractError) {
+    const issues = error.describeIssues()
+    return (
+      <div className="state-card error">
+        <h3>Unexpected response from the API</h3>
+        <p>
+          <code>{error.endpoint}</code> returned data in a shape this page does not understand,
+          so it was not displayed.
+        </p>
+        <ul className="contract-issues">
+          {issues.slice(0, MAX_LISTED_ISSUES).map((issue) => (
+            <li key={issue}>
+              <code>{issue}</code>
+            </li>
+          ))}
+          {issues.length > MAX_LISTED_ISSUES ? (
+            <li>and {issues.length - MAX_LISTED_ISSUES} more</li>
+          ) : null}
+        </ul>
+        {onRetry ? (
+          <button className="btn btn-secondary" onClick={onRetry}>
+            Try again
+          </button>
+        ) : null}
+      </div>
+    )
+  }
+
+  const { title, message, retryLabel } = describeError(error)
+
   return (
     <div className="state-card error">
-      <h3>Unable to load data</h3>
+      <h3>{title}</h3>
       <p>{message}</p>
-      {onRetry ? (
+      {onRetry && retryLabel ? (
         <button className="btn btn-secondary" onClick={onRetry}>
-          Try again
+          {retryLabel}
         </button>
       ) : null}
     </div>
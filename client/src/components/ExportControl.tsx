@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  downloadFile,
+  fetchAllPages,
+  toCsv,
+  toJson,
+  type ExportColumn,
+  type ExportFormat,
+  type PageFetcher,
+} from '../utils/export'
+import { formatNumber } from '../utils/format'
+
+type ExportControlProps<T> = {
+  filename: string
+  columns: ExportColumn<T>[]
+  fetchPage: PageFetcher<T>
+  rowKey: (row: T) => string
+}
+
+type ExportProgress = {
+  loaded: number
+  total: number
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+}
+
+function ExportControl<T>({ filename, columns, fetchPage, rowKey }: ExportControlProps<T>) {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const [error, setError] = useState('')
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setError('')
+    setProgress({ loaded: 0, total: 0 })
+
+    try {
+      const rows = await fetchAllPages(fetchPage, {
+        signal: controller.signal,
+        rowKey,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      })
+      const content = format === 'csv' ? toCsv(rows, columns) : toJson(rows, columns)
+      const stamp = new Date().toISOString().slice(0, 10)
+      downloadFile(`${filename}-${stamp}.${format}`, content, MIME_TYPES[format])
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Export failed')
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setProgress(null)
+      }
+    }
+  }
+
+  const handleCancel = () => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setProgress(null)
+  }
+
+  if (progress) {
+    const percent = progress.total ? (progress.loaded / progress.total) * 100 : 0
+    return (
+      <div className="export-control" role="status">
+        <div className="export-progress">
+          <div className="export-progress-fill" style={{ width: `${percent}%` }} />
+        </div>
+        <span className="export-label">
+          {progress.total
+            ? `${formatNumber(progress.loaded)} / ${formatNumber(progress.total)} rows`
+            : 'Starting export...'}
+        </span>
+        <button className="btn btn-secondary" type="button" onClick={handleCancel}>
+          Cancel
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="export-control">
+      {error ? <span className="form-error">{error}</span> : null}
+      <select
+        aria-label="Export format"
+        value={format}
+        onChange={(event) => setFormat(event.target.value as ExportFormat)}
+      >
+        <option value="csv">CSV</option>
+        <option value="json">JSON</option>
+      </select>
+      <button className="btn btn-secondary" type="button" onClick={handleExport}>
+        Export
+      </button>
+    </div>
+  )
+}
+
+export default ExportControl
@@ -0,0 +1,178 @@
+import { useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { getHealthRecordById, getHealthRecordComparison } from '../api'
+import {
+  formatDateTime,
+  formatNumber,
+  formatTokenAmount,
+  getStatusClass,
+} from '../utils/format'
+import ErrorState from './ErrorState'
+import LoadingState from './LoadingState'
+import { useQuery } from '../hooks/useQuery'
+
+type HealthRecordDrawerProps = {
+  recordId: string
+  onClose: () => void
+}
+
+function HealthRecordDrawer({ recordId, onClose }: HealthRecordDrawerProps) {
+  const recordQuery = useQuery([`/health-records/${recordId}`], (options) =>
+    getHealthRecordById(recordId, options),
+  )
+  const record = recordQuery.data
+
+  // Over all of the user's readings of this type, computed by the server
+  const comparisonQuery = useQuery([`/health-records/${recordId}/comparison`], (options) =>
+    getHealthRecordComparison(recordId, options),
+  )
+  const comparison = comparisonQuery.data
+
+  const loading = recordQuery.loading || comparisonQuery.loading
+  const error = recordQuery.error || comparisonQuery.error
+
+  const loadRecord = () => {
+    recordQuery.refetch()
+    comparisonQuery.refetch()
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const decimals = record?.dataType === 'BLOOD_OXYGEN' ? 1 : 0
+  const spread = comparison ? comparison.max - comparison.min : 0
+  const markerPosition = comparison && record && spread
+    ? ((record.value - comparison.min) / spread) * 100
+    : 50
+
+  const renderBody = () => {
+    if (loading) {
+      return <LoadingState label="Loading record..." />
+    }
+
+    if (error) {
+      return <ErrorState error={error} onRetry={loadRecord} />
+    }
+
+    if (!record) {
+      return null
+    }
+
+    return (
+      <>
+        <div className="drawer-hero">
+          <span className="drawer-value">
+            {formatNumber(record.value, decimals)} <small>{record.unit}</small>
+          </span>
+          <span className={`badge ${getStatusClass(record.validationStatus)}`}>
+            {record.validationStatus}
+          </span>
+        </div>
+
+        <div className="detail-list">
+          <div className="detail-item">
+            <span>Data type</span>
+            <strong>{record.dataType.replace(/_/g, ' ')}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Device</span>
+            <strong>{record.deviceType.replace(/_/g, ' ')}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Recorded</span>
+            <strong>{formatDateTime(record.timestamp)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>User</span>
+            <strong className="address">{record.userAddress}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Validator node</span>
+            <strong>
+              {record.validatedBy ? (
+                <Link className="table-link mono" to={`/nodes/${record.validatedBy}`}>
+                  {record.validatedBy}
+                </Link>
+              ) : (
+                '-'
+              )}
+            </strong>
+          </div>
+          <div className="detail-item">
+            <span>Reward earned</span>
+            <strong>{formatTokenAmount(record.rewardEarned, 'HEALTH', 4)}</strong>
+          </div>
+        </div>
+
+        <div className="drawer-section">
+          <h4>Compared to this user&apos;s {record.dataType.replace(/_/g, ' ').toLowerCase()} readings</h4>
+          {comparison && comparison.count > 1 ? (
+            <>
+              <div className="range-track">
+                <div className="range-marker" style={{ left: `${markerPosition}%` }} />
+              </div>
+              <div className="range-labels">
+                <span>
+                  Min {formatNumber(comparison.min, decimals)} {record.unit}
+                </span>
+                <span>
+                  Max {formatNumber(comparison.max, decimals)} {record.unit}
+                </span>
+              </div>
+              <div className="health-meta">
+                <div>
+                  <span>Percentile</span>
+                  <strong>{formatNumber(comparison.percentile)}th</strong>
+                </div>
+                <div>
+                  <span>User average</span>
+                  <strong>
+                    {formatNumber(comparison.average, 1)} {record.unit}
+                  </strong>
+                </div>
+                <div>
+                  <span>Readings</span>
+                  <strong>{formatNumber(comparison.count)}</strong>
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="drawer-muted">This is the only reading of this type for the user.</p>
+          )}
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <div className="drawer-backdrop" onClick={onClose}>
+      <aside
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Health record ${recordId}`}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <div>
+            <p className="page-kicker">Health record</p>
+            <h3 className="mono">{recordId}</h3>
+          </div>
+          <button className="btn btn-secondary" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        {renderBody()}
+      </aside>
+    </div>
+  )
+}
+
+export default HealthRecordDrawer
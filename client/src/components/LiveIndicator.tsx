@@ -0,0 +1,22 @@
+import type { LiveConnectionState } from '../api'
+
+type LiveIndicatorProps = {
+  state: LiveConnectionState
+}
+
+const STATE_LABELS: Record<LiveConnectionState, string> = {
+  connecting: 'Connecting…',
+  open: 'Live',
+  reconnecting: 'Reconnecting…',
+}
+
+function LiveIndicator({ state }: LiveIndicatorProps) {
+  return (
+    <span className={`live-indicator ${state}`} role="status">
+      <span className="live-dot" aria-hidden="true" />
+      {STATE_LABELS[state]}
+    </span>
+  )
+}
+
+export default LiveIndicator
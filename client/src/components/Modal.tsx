@@ -0,0 +1,60 @@
+import { useEffect, useRef, type ReactNode } from 'react'
+
+type ModalProps = {
+  title: string
+  kicker?: string
+  onClose: () => void
+  children: ReactNode
+}
+
+/**
+ * Centered dialog over a backdrop. Closes on Escape or a backdrop click and
+ * moves focus to its first field when it opens.
+ */
+function Modal({ title, kicker, onClose, children }: ModalProps) {
+  const dialogRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null
+    dialogRef.current
+      ?.querySelector<HTMLElement>('input, select, button[type="submit"]')
+      ?.focus()
+    return () => previous?.focus()
+  }, [])
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <div>
+            {kicker ? <p className="page-kicker">{kicker}</p> : null}
+            <h3>{title}</h3>
+          </div>
+          <button className="btn btn-secondary" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  )
+}
+
+export default Modal
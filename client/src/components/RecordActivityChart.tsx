@@ -0,0 +1,36 @@
+import { formatBucketLabel } from '../utils/format'
+import BarChart from './charts/BarChart'
+import type { HealthRecordTimeSeries } from '../types'
+
+type RecordActivityChartProps = {
+  title: string
+  timeSeries: HealthRecordTimeSeries
+  height?: number
+}
+
+/**
+ * Health record counts per time bucket, stacked by group when the series is grouped
+ */
+function RecordActivityChart({ title, timeSeries, height }: RecordActivityChartProps) {
+  const { buckets, groups, groupBy } = timeSeries
+
+  const series = groupBy
+    ? groups.map((group) => ({
+        label: group.replace(/_/g, ' '),
+        values: buckets.map((bucket) => bucket.counts[group] || 0),
+      }))
+    : [{ label: 'Records', values: buckets.map((bucket) => bucket.total) }]
+
+  return (
+    <BarChart
+      title={title}
+      categoryLabel={timeSeries.bucket === 'hour' ? 'Hour' : 'Date'}
+      categories={buckets.map((bucket) => formatBucketLabel(bucket.start, timeSeries.bucket))}
+      series={series}
+      stacked={Boolean(groupBy)}
+      height={height}
+    />
+  )
+}
+
+export default RecordActivityChart
@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import { getCurrentEpoch, getEpochStats } from '../api'
+import { STALE_TIMES } from '../api/cache'
+import { formatNumber, formatPercent, formatTokenAmount } from '../utils/format'
+import BarChart from './charts/BarChart'
+import { useQuery } from '../hooks/useQuery'
+import {
+  compareLockPeriods,
+  lockPeriodsFromBuckets,
+  projectRewards,
+  type RewardsNetwork,
+} from '../utils/rewards'
+import type { StakerStats } from '../types'
+
+type RewardsCalculatorProps = {
+  stats: StakerStats | undefined
+}
+
+const DEFAULT_AMOUNT = '1000'
+
+function RewardsCalculator({ stats }: RewardsCalculatorProps) {
+  const [amount, setAmount] = useState(DEFAULT_AMOUNT)
+  const [lockPeriod, setLockPeriod] = useState<number | null>(null)
+
+  const { data: epochStats } = useQuery(['/epochs/stats'], getEpochStats, {
+    staleTime: STALE_TIMES.stats,
+  })
+  const { data: currentEpoch } = useQuery(['/epochs/current'], getCurrentEpoch)
+
+  const lockPeriods = stats ? lockPeriodsFromBuckets(stats.byLockPeriod) : []
+  const selectedLock = lockPeriod ?? lockPeriods[0] ?? null
+
+  if (!stats || !epochStats || selectedLock === null) {
+    return <div className="chart-footnote">Loading network rewards...</div>
+  }
+
+  const network: RewardsNetwork = {
+    totalStaked: Number.parseFloat(stats.totalStaked),
+    avgMultiplier: Number.parseFloat(stats.avgMultiplier),
+    rewardsPerEpoch: Number.parseFloat(epochStats.avgRewardsPerEpoch),
+    epochDurationMs: currentEpoch ? currentEpoch.endTime - currentEpoch.startTime : undefined,
+  }
+  const parsedAmount = Number.parseFloat(amount)
+  const projection = projectRewards(parsedAmount, selectedLock, network)
+  const comparison = compareLockPeriods(parsedAmount, lockPeriods, network)
+  const invalidAmount = amount !== '' && !(parsedAmount > 0)
+
+  return (
+    <div className="grid-2 calculator">
+      <div className="calculator-form">
+        <label className="form-field">
+          <span>Amount to stake</span>
+          <input
+            name="calculatorAmount"
+            type="number"
+            min="0"
+            inputMode="decimal"
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+          />
+        </label>
+        <label className="form-field">
+          <span>Lock period</span>
+          <select
+            name="calculatorLockPeriod"
+            value={selectedLock}
+            onChange={(event) => setLockPeriod(Number(event.target.value))}
+          >
+            {lockPeriods.map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+        </label>
+        {invalidAmount ? <p className="form-error">Enter an amount greater than 0.</p> : null}
+        <div className="detail-list">
+          <div className="detail-item">
+            <span>Projected APR</span>
+            <strong>{formatPercent(projection.apr)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Rewards per epoch</span>
+            <strong>{formatTokenAmount(projection.rewardsPerEpoch, 'HEALTH', 4)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Rewards per year</span>
+            <strong>{formatTokenAmount(projection.rewardsPerYear)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Over the {selectedLock}-day lock</span>
+            <strong>{formatTokenAmount(projection.rewardsOverLock)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Multiplier</span>
+            <strong>{formatNumber(projection.multiplier, 2)}x</strong>
+          </div>
+          <div className="detail-item">
+            <span>Share of each pool</span>
+            <strong>{formatPercent(projection.poolShare * 100, 4)}</strong>
+          </div>
+        </div>
+        <div className="chart-footnote">
+          Based on {formatTokenAmount(stats.totalStaked)} staked network-wide and an average
+          pool of {formatTokenAmount(epochStats.avgRewardsPerEpoch)} per epoch.
+        </div>
+      </div>
+
+      <div>
+        <BarChart
+          title="Projected APR by lock period"
+          categoryLabel="Lock period"
+          height={240}
+          categories={comparison.map((item) => `${item.lockPeriod}d`)}
+          series={[{ label: 'APR', values: comparison.map((item) => item.apr) }]}
+          formatValue={(value) => formatPercent(value)}
+          formatTick={(value) => `${formatNumber(value, 1)}%`}
+          onSelect={(index) => setLockPeriod(comparison[index].lockPeriod)}
+        />
+        <div className="chart-footnote">Select a bar to use that lock period.</div>
+      </div>
+    </div>
+  )
+}
+
+export default RewardsCalculator
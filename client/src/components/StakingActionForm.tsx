@@ -0,0 +1,206 @@
+import { useState, type FormEvent } from 'react'
+import { getNodes } from '../api'
+import {
+  formatCountdown,
+  formatDate,
+  formatNumber,
+  formatPercent,
+  formatTokenAmount,
+} from '../utils/format'
+import { useQuery } from '../hooks/useQuery'
+import {
+  LOCK_PERIODS,
+  STAKING_ACTION_LABELS,
+  applyStakingAction,
+  isLocked,
+  validateStakingAction,
+  type StakingAction,
+  type StakingActionType,
+} from '../utils/staking'
+import type { LockPeriod, NodeListParams, Staker } from '../types'
+
+type StakingActionFormProps = {
+  type: StakingActionType
+  staker: Staker
+  onSubmit: (action: StakingAction) => void
+  onCancel: () => void
+}
+
+const NODE_PARAMS: NodeListParams = {
+  status: ['ACTIVE'],
+  limit: 100,
+  sortBy: 'uptime',
+  sortOrder: 'desc',
+}
+
+function StakingActionForm({ type, staker, onSubmit, onCancel }: StakingActionFormProps) {
+  const [amount, setAmount] = useState('')
+  const [lockPeriod, setLockPeriod] = useState(staker.lockPeriod)
+  const [nodeId, setNodeId] = useState('')
+  const [submitted, setSubmitted] = useState(false)
+
+  const nodesQuery = useQuery(type === 'delegate' ? ['/nodes', NODE_PARAMS] : null, (options) =>
+    getNodes(NODE_PARAMS, options),
+  )
+  const nodes = (nodesQuery.data?.data || []).filter((node) => node.nodeId !== staker.delegatedTo)
+
+  const action: StakingAction =
+    type === 'stake'
+      ? { type, amount, lockPeriod }
+      : type === 'unstake'
+        ? { type, amount }
+        : type === 'delegate'
+          ? { type, nodeId }
+          : { type }
+  const error = validateStakingAction(staker, action)
+  const locked = type === 'unstake' && isLocked(staker)
+  const preview = error ? null : applyStakingAction(staker, action)
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setSubmitted(true)
+    if (!error) {
+      onSubmit(action)
+    }
+  }
+
+  const renderFields = () => {
+    switch (type) {
+      case 'stake':
+        return (
+          <>
+            <label className="form-field">
+              <span>Amount</span>
+              <input
+                name="amount"
+                inputMode="decimal"
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+                placeholder="0.00"
+                autoComplete="off"
+              />
+            </label>
+            <label className="form-field">
+              <span>Lock period</span>
+              <select
+                name="lockPeriod"
+                value={lockPeriod}
+                onChange={(event) => setLockPeriod(Number(event.target.value) as LockPeriod)}
+              >
+                {LOCK_PERIODS.filter((days) => days >= staker.lockPeriod).map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+              <small>Your current lock is {staker.lockPeriod} days; it can only be extended.</small>
+            </label>
+          </>
+        )
+      case 'unstake':
+        return (
+          <label className="form-field">
+            <span>Amount</span>
+            <div className="form-field-row">
+              <input
+                name="amount"
+                inputMode="decimal"
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+                placeholder="0.00"
+                autoComplete="off"
+                disabled={locked}
+              />
+              <button
+                className="btn btn-secondary"
+                type="button"
+                onClick={() => setAmount(Number.parseFloat(staker.stakedAmount).toFixed(6))}
+                disabled={locked}
+              >
+                Max
+              </button>
+            </div>
+            <small>
+              {locked
+                ? `Locked for another ${formatCountdown(staker.unlockTime)}.`
+                : `Available: ${formatTokenAmount(staker.stakedAmount)}`}
+            </small>
+          </label>
+        )
+      case 'claim':
+        return (
+          <p className="drawer-muted">
+            Claim {formatTokenAmount(staker.pendingRewards)} of pending rewards to your wallet.
+          </p>
+        )
+      case 'delegate':
+        return (
+          <label className="form-field">
+            <span>Node</span>
+            <select
+              name="nodeId"
+              value={nodeId}
+              onChange={(event) => setNodeId(event.target.value)}
+              disabled={nodesQuery.loading}
+            >
+              <option value="">{nodesQuery.loading ? 'Loading nodes...' : 'Choose a node'}</option>
+              {nodes.map((node) => (
+                <option key={node.nodeId} value={node.nodeId}>
+                  {node.nodeId} · {node.region} · {formatPercent(node.uptime)} uptime
+                </option>
+              ))}
+            </select>
+            <small>
+              {staker.delegatedTo
+                ? `Currently delegated to ${staker.delegatedTo}.`
+                : 'Your stake is not delegated yet.'}
+            </small>
+          </label>
+        )
+    }
+  }
+
+  return (
+    <form className="modal-form" onSubmit={handleSubmit} noValidate>
+      {renderFields()}
+      {nodesQuery.error ? <p className="form-error">{nodesQuery.error.message}</p> : null}
+      {(submitted || locked) && error ? <p className="form-error">{error}</p> : null}
+      {preview && type !== 'delegate' ? (
+        <div className="detail-list">
+          <div className="detail-item">
+            <span>Staked after</span>
+            <strong>{formatTokenAmount(preview.stakedAmount)}</strong>
+          </div>
+          {type === 'stake' ? (
+            <>
+              <div className="detail-item">
+                <span>Multiplier</span>
+                <strong>{formatNumber(preview.stakingMultiplier, 2)}x</strong>
+              </div>
+              <div className="detail-item">
+                <span>Unlocks</span>
+                <strong>{formatDate(preview.unlockTime)}</strong>
+              </div>
+            </>
+          ) : null}
+          {type === 'claim' ? (
+            <div className="detail-item">
+              <span>Claimed after</span>
+              <strong>{formatTokenAmount(preview.claimedRewards)}</strong>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+      <div className="modal-actions">
+        <button className="btn btn-secondary" type="button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button className="btn btn-primary" type="submit" disabled={locked}>
+          {STAKING_ACTION_LABELS[type]}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default StakingActionForm
@@ -0,0 +1,186 @@
+import { useCallback, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { getStakerByWallet } from '../api'
+import { ApiClientError } from '../api/errors'
+import { submitStakingAction } from '../api/staking'
+import {
+  formatCountdown,
+  formatNumber,
+  formatTokenAmount,
+  shortenHash,
+} from '../utils/format'
+import EmptyState from './EmptyState'
+import ErrorState from './ErrorState'
+import LoadingState from './LoadingState'
+import Modal from './Modal'
+import StakingActionForm from './StakingActionForm'
+import { useQuery } from '../hooks/useQuery'
+import { useWallet } from '../hooks/useWallet'
+import {
+  STAKING_ACTION_LABELS,
+  type StakingAction,
+  type StakingActionType,
+} from '../utils/staking'
+
+type Notice = {
+  kind: 'success' | 'error'
+  message: string
+}
+
+const ACTIONS: StakingActionType[] = ['stake', 'unstake', 'claim', 'delegate']
+
+/**
+ * The connected wallet's staking position, with forms for the staking
+ * actions. Changes show immediately and are rolled back if the API rejects them.
+ */
+function StakingPosition() {
+  const { address, status, connect } = useWallet()
+  const [openAction, setOpenAction] = useState<StakingActionType | null>(null)
+  const [pendingAction, setPendingAction] = useState<StakingActionType | null>(null)
+  const [notice, setNotice] = useState<Notice | null>(null)
+
+  const stakerQuery = useQuery(
+    address ? [`/stakers/wallet/${address.toLowerCase()}`] : null,
+    (options) => getStakerByWallet(address || '', options),
+  )
+  const staker = stakerQuery.data
+  const noStake = stakerQuery.error instanceof ApiClientError && stakerQuery.error.status === 404
+
+  const closeModal = useCallback(() => setOpenAction(null), [])
+
+  const handleSubmit = async (action: StakingAction) => {
+    if (!staker) {
+      return
+    }
+    const label = STAKING_ACTION_LABELS[action.type]
+    setOpenAction(null)
+    setPendingAction(action.type)
+    setNotice(null)
+    try {
+      const { transaction } = await submitStakingAction(staker, action)
+      const hash = shortenHash(transaction.txHash)
+      setNotice({
+        kind: 'success',
+        message: `${label} submitted. Transaction ${hash} is pending confirmation.`,
+      })
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'unknown error'
+      setNotice({ kind: 'error', message: `${label} failed and was reverted: ${reason}` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const renderBody = () => {
+    if (!address) {
+      return (
+        <EmptyState
+          title="Connect your wallet"
+          description="Connect a wallet to stake, unstake, claim rewards and delegate."
+          actionLabel="Connect Wallet"
+          onAction={status === 'connecting' ? undefined : connect}
+        />
+      )
+    }
+
+    if (stakerQuery.loading) {
+      return <LoadingState label="Loading your position..." />
+    }
+
+    if (noStake) {
+      return (
+        <EmptyState
+          title="No staking position"
+          description="The connected wallet has no registered stake to manage."
+        />
+      )
+    }
+
+    if (stakerQuery.error) {
+      return <ErrorState error={stakerQuery.error} onRetry={stakerQuery.refetch} />
+    }
+
+    if (!staker) {
+      return null
+    }
+
+    return (
+      <>
+        <div className="position-summary">
+          <div>
+            <span>Staked</span>
+            <strong>{formatTokenAmount(staker.stakedAmount)}</strong>
+          </div>
+          <div>
+            <span>Pending rewards</span>
+            <strong>{formatTokenAmount(staker.pendingRewards)}</strong>
+          </div>
+          <div>
+            <span>Lock</span>
+            <strong>
+              {staker.lockPeriod} days · {formatNumber(staker.stakingMultiplier, 2)}x
+            </strong>
+          </div>
+          <div>
+            <span>Unlocks in</span>
+            <strong>{formatCountdown(staker.unlockTime)}</strong>
+          </div>
+          <div>
+            <span>Delegated to</span>
+            <strong className="mono">{staker.delegatedTo || 'Not delegated'}</strong>
+          </div>
+        </div>
+        <div className="position-actions">
+          {ACTIONS.map((type) => (
+            <button
+              key={type}
+              className={type === 'stake' ? 'btn btn-primary' : 'btn btn-secondary'}
+              type="button"
+              onClick={() => setOpenAction(type)}
+              disabled={pendingAction !== null}
+            >
+              {pendingAction === type ? 'Submitting...' : STAKING_ACTION_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3>Your Position</h3>
+        {staker ? (
+          <Link className="table-link mono" to={`/staking/${staker.stakerId}`}>
+            {staker.stakerId}
+          </Link>
+        ) : (
+          <span className="card-subtitle">Manage your stake</span>
+        )}
+      </div>
+      {renderBody()}
+      {notice ? (
+        <p className={notice.kind === 'error' ? 'form-error' : 'form-success'} role="status">
+          {notice.message}
+        </p>
+      ) : null}
+      {openAction && staker ? (
+        <Modal
+          title={STAKING_ACTION_LABELS[openAction]}
+          kicker={staker.stakerId}
+          onClose={closeModal}
+        >
+          <StakingActionForm
+            type={openAction}
+            staker={staker}
+            onSubmit={handleSubmit}
+            onCancel={closeModal}
+          />
+        </Modal>
+      ) : null}
+    </div>
+  )
+}
+
+export default StakingPosition
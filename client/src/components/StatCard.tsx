@@ -2,13 +2,24 @@ type StatCardProps = {
   label: string
   value: string | number
   note?: string
+  /** Change since the previous refresh; the card is highlighted when non-zero */
+  delta?: number
+  /** Formatted size of the change, shown next to the arrow */
+  deltaLabel?: string
 }
 
-function StatCard({ label, value, note }: StatCardProps) {
+function StatCard({ label, value, note, delta, deltaLabel }: StatCardProps) {
+  const changed = Boolean(delta)
+
   return (
-    <div className="stat-card">
+    <div className={`stat-card${changed ? ' changed' : ''}`}>
       <p className="label">{label}</p>
       <p className="value">{value}</p>
+      {changed ? (
+        <p className={`change ${delta > 0 ? 'positive' : 'negative'}`}>
+          {delta > 0 ? '▲' : '▼'} {deltaLabel}
+        </p>
+      ) : null}
       {note ? <p className="meta">{note}</p> : null}
     </div>
   )
@@ -0,0 +1,41 @@
+import { Link } from 'react-router-dom'
+import { shortenAddress } from '../utils/format'
+import { useWallet } from '../hooks/useWallet'
+
+function WalletConnect() {
+  const { address, status, providerKind, error, connect, disconnect } = useWallet()
+
+  return (
+    <div className="wallet-section">
+      {address ? (
+        <div className="wallet-account">
+          <span className="wallet-label">
+            {providerKind === 'mock' ? 'Mock wallet' : 'Connected wallet'}
+          </span>
+          <Link className="wallet-address" to="/account" title={address}>
+            {shortenAddress(address, 6)}
+          </Link>
+          <button
+            className="btn btn-secondary wallet-disconnect"
+            type="button"
+            onClick={disconnect}
+          >
+            Disconnect
+          </button>
+        </div>
+      ) : (
+        <button
+          className="connect-wallet-btn"
+          type="button"
+          onClick={connect}
+          disabled={status === 'connecting'}
+        >
+          {status === 'connecting' ? 'Connecting...' : 'Connect Wallet'}
+        </button>
+      )}
+      {error ? <p className="form-error">{error}</p> : null}
+    </div>
+  )
+}
+
+export default WalletConnect
@@ -0,0 +1,59 @@
+import { useState, type FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { getStakerByWallet } from '../api'
+import { ApiClientError } from '../api/errors'
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/
+
+function WalletSearch() {
+  const navigate = useNavigate()
+  const [address, setAddress] = useState('')
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const trimmed = address.trim()
+
+    if (!ADDRESS_PATTERN.test(trimmed)) {
+      setError('Enter a full 0x wallet address (42 characters).')
+      return
+    }
+
+    setSearching(true)
+    setError('')
+    try {
+      const staker = await getStakerByWallet(trimmed)
+      navigate(`/staking/${staker.stakerId}`)
+    } catch (err) {
+      if (err instanceof ApiClientError && err.status === 404) {
+        setError('No staker is registered for this wallet.')
+      } else {
+        setError(err instanceof Error ? err.message : 'Wallet lookup failed.')
+      }
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  return (
+    <form className="wallet-search" onSubmit={handleSubmit}>
+      <div className="wallet-search-row">
+        <input
+          name="walletAddress"
+          value={address}
+          onChange={(event) => setAddress(event.target.value)}
+          placeholder="Look up wallet 0x..."
+          aria-label="Wallet address"
+          spellCheck={false}
+        />
+        <button className="btn btn-primary" type="submit" disabled={searching}>
+          {searching ? 'Searching...' : 'Find staker'}
+        </button>
+      </div>
+      {error ? <p className="form-error">{error}</p> : null}
+    </form>
+  )
+}
+
+export default WalletSearch
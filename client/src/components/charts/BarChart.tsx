@@ -0,0 +1,158 @@
+import { useChartFocus } from '../../hooks/useChartFocus'
+import ChartAxes from './ChartAxes'
+import ChartFrame from './ChartFrame'
+import {
+  CARTESIAN_MARGIN,
+  clampTooltipX,
+  defaultFormatTick,
+  defaultFormatValue,
+  describeCategory,
+  niceTicks,
+  paletteColor,
+  seriesTable,
+  valueScale,
+  type ChartSeries,
+  type ChartTooltip,
+  type ValueFormatter,
+} from './chartUtils'
+
+type BarChartProps = {
+  title: string
+  categories: string[]
+  series: ChartSeries[]
+  /** Stack the series on one bar per category instead of grouping them side by side */
+  stacked?: boolean
+  height?: number
+  /** Header of the category column in the data table */
+  categoryLabel?: string
+  /** Formats values in tooltips and the data table */
+  formatValue?: ValueFormatter
+  /** Formats the value axis ticks */
+  formatTick?: ValueFormatter
+  /** Called with the category index when a bar is clicked or activated by keyboard */
+  onSelect?: (index: number) => void
+}
+
+const MAX_BAR_WIDTH = 40
+const MIN_BAR_HEIGHT = 2
+
+function BarChart({
+  title,
+  categories,
+  series,
+  stacked = false,
+  height = 220,
+  categoryLabel = 'Category',
+  formatValue = defaultFormatValue,
+  formatTick = defaultFormatTick,
+  onSelect,
+}: BarChartProps) {
+  const { active, getMarkProps } = useChartFocus(categories.length, onSelect)
+  const margin = CARTESIAN_MARGIN
+
+  const totals = categories.map((_, index) =>
+    series.reduce((sum, item) => sum + (item.values[index] ?? 0), 0),
+  )
+  const maxValue = stacked
+    ? Math.max(0, ...totals)
+    : Math.max(0, ...series.flatMap((item) => item.values))
+  const ticks = niceTicks(maxValue)
+  const scaleY = valueScale(ticks, height, margin)
+  const baseline = scaleY(0)
+
+  const table = seriesTable(categoryLabel, categories, series, formatValue)
+  const legend = series.length > 1
+    ? series.map((item, index) => ({ label: item.label, color: paletteColor(index, item.color) }))
+    : undefined
+
+  const draw = (width: number) => {
+    const band = (width - margin.left - margin.right) / Math.max(1, categories.length)
+    const groupWidth = Math.min(
+      band * 0.6,
+      stacked ? MAX_BAR_WIDTH : MAX_BAR_WIDTH * series.length,
+    )
+    const barWidth = stacked ? groupWidth : groupWidth / Math.max(1, series.length)
+    const categoryX = (index: number) => margin.left + band * (index + 0.5)
+
+    return (
+      <>
+        <ChartAxes
+          width={width}
+          height={height}
+          margin={margin}
+          ticks={ticks}
+          scaleY={scaleY}
+          formatTick={formatTick}
+          categories={categories}
+          categoryX={categoryX}
+        />
+        {categories.map((category, index) => {
+          const groupX = categoryX(index) - groupWidth / 2
+          const label = describeCategory(category, series, index, formatValue)
+          let stackTop = baseline
+
+          return (
+            <g key={category} {...getMarkProps(index, label)}>
+              <rect
+                className="chart-hit"
+                x={margin.left + band * index}
+                y={margin.top}
+                width={band}
+                height={baseline - margin.top}
+              />
+              {series.map((item, seriesIndex) => {
+                const value = item.values[index] ?? 0
+                const barHeight =
+                  value > 0 ? Math.max(MIN_BAR_HEIGHT, baseline - scaleY(value)) : 0
+                const y = stacked ? stackTop - barHeight : baseline - barHeight
+                if (stacked) {
+                  stackTop = y
+                }
+                return (
+                  <rect
+                    key={item.label}
+                    className="chart-bar-rect"
+                    x={stacked ? groupX : groupX + barWidth * seriesIndex}
+                    y={y}
+                    width={barWidth}
+                    height={barHeight}
+                    rx={Math.min(4, barWidth / 4)}
+                    style={{ fill: paletteColor(seriesIndex, item.color) }}
+                  />
+                )
+              })}
+            </g>
+          )
+        })}
+      </>
+    )
+  }
+
+  const tooltip = (width: number): ChartTooltip | null => {
+    if (active === null) {
+      return null
+    }
+    const band = (width - margin.left - margin.right) / Math.max(1, categories.length)
+    const top = stacked
+      ? totals[active]
+      : Math.max(...series.map((item) => item.values[active] ?? 0))
+    return {
+      x: clampTooltipX(margin.left + band * (active + 0.5), width),
+      y: scaleY(top),
+      title: categories[active],
+      rows: series.map((item, index) => ({
+        label: item.label,
+        value: formatValue(item.values[active] ?? 0),
+        color: paletteColor(index, item.color),
+      })),
+    }
+  }
+
+  return (
+    <ChartFrame title={title} height={height} table={table} tooltip={tooltip} legend={legend}>
+      {draw}
+    </ChartFrame>
+  )
+}
+
+export default BarChart
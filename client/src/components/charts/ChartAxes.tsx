@@ -0,0 +1,68 @@
+import { labelStride, type ChartMargin, type ValueFormatter } from './chartUtils'
+
+type ChartAxesProps = {
+  width: number
+  height: number
+  margin: ChartMargin
+  ticks: number[]
+  scaleY: (value: number) => number
+  formatTick: ValueFormatter
+  categories: string[]
+  categoryX: (index: number) => number
+}
+
+/**
+ * Value gridlines with tick labels, plus category labels along the bottom
+ */
+function ChartAxes({
+  width,
+  height,
+  margin,
+  ticks,
+  scaleY,
+  formatTick,
+  categories,
+  categoryX,
+}: ChartAxesProps) {
+  const stride = labelStride(categories.length, width - margin.left - margin.right)
+
+  return (
+    <g className="chart-axes" aria-hidden="true">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            className="chart-grid"
+            x1={margin.left}
+            x2={width - margin.right}
+            y1={scaleY(tick)}
+            y2={scaleY(tick)}
+          />
+          <text
+            className="chart-tick"
+            x={margin.left - 8}
+            y={scaleY(tick)}
+            textAnchor="end"
+            dominantBaseline="middle"
+          >
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+      {categories.map((category, index) =>
+        index % stride === 0 ? (
+          <text
+            key={category}
+            className="chart-tick"
+            x={categoryX(index)}
+            y={height - 8}
+            textAnchor="middle"
+          >
+            {category}
+          </text>
+        ) : null,
+      )}
+    </g>
+  )
+}
+
+export default ChartAxes
@@ -0,0 +1,86 @@
+import type { ReactNode } from 'react'
+import { useElementWidth } from '../../hooks/useElementWidth'
+import type { ChartTable, ChartTooltip } from './chartUtils'
+
+type ChartFrameProps = {
+  /** Accessible name of the chart, also used as the data table caption */
+  title: string
+  height: number
+  table: ChartTable
+  /** Tooltip for the active mark at the measured width, if any */
+  tooltip: (width: number) => ChartTooltip | null
+  legend?: Array<{ label: string; color: string }>
+  /** Draws the chart contents for the measured width */
+  children: (width: number) => ReactNode
+}
+
+/**
+ * Shared shell for the SVG charts: measures the available width, positions
+ * the tooltip and renders the data as a visually hidden table for screen
+ * readers.
+ */
+function ChartFrame({ title, height, table, tooltip, legend, children }: ChartFrameProps) {
+  const [ref, width] = useElementWidth<HTMLDivElement>()
+  const activeTooltip = width ? tooltip(width) : null
+
+  return (
+    <div className="chart">
+      <div className="chart-canvas" ref={ref} style={{ height }}>
+        {width ? (
+          <svg width={width} height={height} role="group" aria-label={title}>
+            {children(width)}
+          </svg>
+        ) : null}
+        {activeTooltip ? (
+          <div
+            className="tooltip chart-tooltip"
+            style={{ left: activeTooltip.x, top: activeTooltip.y }}
+            aria-hidden="true"
+          >
+            <strong>{activeTooltip.title}</strong>
+            {activeTooltip.rows.map((row) => (
+              <span key={row.label} className="chart-tooltip-row">
+                <span className="chart-swatch" style={{ background: row.color }} />
+                {row.label}: {row.value}
+              </span>
+            ))}
+          </div>
+        ) : null}
+      </div>
+      {legend?.length ? (
+        <ul className="chart-legend" aria-hidden="true">
+          {legend.map((item) => (
+            <li key={item.label}>
+              <span className="chart-swatch" style={{ background: item.color }} />
+              {item.label}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <table className="sr-only">
+        <caption>{title}</caption>
+        <thead>
+          <tr>
+            {table.headers.map((header) => (
+              <th key={header} scope="col">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row) => (
+            <tr key={row[0]}>
+              <th scope="row">{row[0]}</th>
+              {row.slice(1).map((cell, index) => (
+                <td key={table.headers[index + 1]}>{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default ChartFrame
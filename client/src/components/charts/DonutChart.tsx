@@ -0,0 +1,152 @@
+import { formatPercent } from '../../utils/format'
+import { useChartFocus } from '../../hooks/useChartFocus'
+import ChartFrame from './ChartFrame'
+import {
+  clampTooltipX,
+  defaultFormatValue,
+  paletteColor,
+  type ChartDatum,
+  type ChartTooltip,
+  type ValueFormatter,
+} from './chartUtils'
+
+type DonutChartProps = {
+  title: string
+  data: ChartDatum[]
+  height?: number
+  /** Header of the category column in the data table */
+  categoryLabel?: string
+  /** Formats values in tooltips, the data table and the center total */
+  formatValue?: ValueFormatter
+  /** Caption under the total in the middle of the donut */
+  centerLabel?: string
+  onSelect?: (index: number) => void
+}
+
+const INNER_RADIUS_RATIO = 0.62
+/** A full circle cannot be drawn as a single arc, so stop just short of it */
+const FULL_CIRCLE = Math.PI * 2 - 0.0001
+
+function polar(cx: number, cy: number, radius: number, angle: number): [number, number] {
+  return [cx + radius * Math.sin(angle), cy - radius * Math.cos(angle)]
+}
+
+/**
+ * Path of a ring segment between two angles, measured clockwise from 12 o'clock
+ */
+function arcPath(
+  cx: number,
+  cy: number,
+  outer: number,
+  inner: number,
+  start: number,
+  end: number,
+): string {
+  const sweep = Math.min(end - start, FULL_CIRCLE)
+  const largeArc = sweep > Math.PI ? 1 : 0
+  const [x1, y1] = polar(cx, cy, outer, start)
+  const [x2, y2] = polar(cx, cy, outer, start + sweep)
+  const [x3, y3] = polar(cx, cy, inner, start + sweep)
+  const [x4, y4] = polar(cx, cy, inner, start)
+  return [
+    `M${x1},${y1}`,
+    `A${outer},${outer} 0 ${largeArc} 1 ${x2},${y2}`,
+    `L${x3},${y3}`,
+    `A${inner},${inner} 0 ${largeArc} 0 ${x4},${y4}`,
+    'Z',
+  ].join(' ')
+}
+
+function DonutChart({
+  title,
+  data,
+  height = 200,
+  categoryLabel = 'Category',
+  formatValue = defaultFormatValue,
+  centerLabel = 'Total',
+  onSelect,
+}: DonutChartProps) {
+  const { active, getMarkProps } = useChartFocus(data.length, onSelect)
+
+  const total = data.reduce((sum, item) => sum + item.value, 0)
+  const share = (value: number) => formatPercent(total ? (value / total) * 100 : 0, 1)
+
+  let angle = 0
+  const slices = data.map((item, index) => {
+    const start = angle
+    angle += total ? (item.value / total) * Math.PI * 2 : 0
+    return { ...item, start, end: angle, color: paletteColor(index, item.color) }
+  })
+
+  const table = {
+    headers: [categoryLabel, 'Value', 'Share'],
+    rows: data.map((item) => [item.label, formatValue(item.value), share(item.value)]),
+  }
+  const legend = slices.map((slice) => ({ label: slice.label, color: slice.color }))
+
+  const geometry = (width: number) => {
+    const outer = Math.max(0, Math.min(width, height) / 2 - 8)
+    return { cx: width / 2, cy: height / 2, outer, inner: outer * INNER_RADIUS_RATIO }
+  }
+
+  const draw = (width: number) => {
+    const { cx, cy, outer, inner } = geometry(width)
+
+    return (
+      <>
+        {slices.map((slice, index) => (
+          <g
+            key={slice.label}
+            {...getMarkProps(
+              index,
+              `${slice.label}: ${formatValue(slice.value)} (${share(slice.value)})`,
+            )}
+          >
+            <path
+              className="chart-slice"
+              d={arcPath(cx, cy, outer, inner, slice.start, slice.end)}
+              style={{ fill: slice.color }}
+            />
+          </g>
+        ))}
+        <g aria-hidden="true">
+          <text className="chart-center-value" x={cx} y={cy} textAnchor="middle">
+            {formatValue(total)}
+          </text>
+          <text className="chart-tick" x={cx} y={cy + 18} textAnchor="middle">
+            {centerLabel}
+          </text>
+        </g>
+      </>
+    )
+  }
+
+  const tooltip = (width: number): ChartTooltip | null => {
+    if (active === null || !slices[active]) {
+      return null
+    }
+    const { cx, cy, outer, inner } = geometry(width)
+    const slice = slices[active]
+    const [x, y] = polar(cx, cy, (outer + inner) / 2, (slice.start + slice.end) / 2)
+    return {
+      x: clampTooltipX(x, width),
+      y,
+      title: slice.label,
+      rows: [
+        {
+          label: 'Value',
+          value: `${formatValue(slice.value)} (${share(slice.value)})`,
+          color: slice.color,
+        },
+      ],
+    }
+  }
+
+  return (
+    <ChartFrame title={title} height={height} table={table} tooltip={tooltip} legend={legend}>
+      {draw}
+    </ChartFrame>
+  )
+}
+
+export default DonutChart
@@ -0,0 +1,160 @@
+import { useChartFocus } from '../../hooks/useChartFocus'
+import ChartAxes from './ChartAxes'
+import ChartFrame from './ChartFrame'
+import {
+  CARTESIAN_MARGIN,
+  clampTooltipX,
+  defaultFormatTick,
+  defaultFormatValue,
+  describeCategory,
+  niceTicks,
+  paletteColor,
+  seriesTable,
+  valueScale,
+  type ChartSeries,
+  type ChartTooltip,
+  type ValueFormatter,
+} from './chartUtils'
+
+type LineChartProps = {
+  title: string
+  categories: string[]
+  series: ChartSeries[]
+  /** Fill the area under each line */
+  area?: boolean
+  height?: number
+  /** Header of the category column in the data table */
+  categoryLabel?: string
+  /** Formats values in tooltips and the data table */
+  formatValue?: ValueFormatter
+  /** Formats the value axis ticks */
+  formatTick?: ValueFormatter
+  /** Called with the category index when a point is clicked or activated by keyboard */
+  onSelect?: (index: number) => void
+}
+
+function LineChart({
+  title,
+  categories,
+  series,
+  area = false,
+  height = 220,
+  categoryLabel = 'Category',
+  formatValue = defaultFormatValue,
+  formatTick = defaultFormatTick,
+  onSelect,
+}: LineChartProps) {
+  const { active, getMarkProps } = useChartFocus(categories.length, onSelect)
+  const margin = CARTESIAN_MARGIN
+
+  const ticks = niceTicks(Math.max(0, ...series.flatMap((item) => item.values)))
+  const scaleY = valueScale(ticks, height, margin)
+  const baseline = scaleY(0)
+
+  const table = seriesTable(categoryLabel, categories, series, formatValue)
+  const legend = series.length > 1
+    ? series.map((item, index) => ({ label: item.label, color: paletteColor(index, item.color) }))
+    : undefined
+
+  // Points sit on the category centers, the same as bars would
+  const layout = (width: number) => {
+    const band = (width - margin.left - margin.right) / Math.max(1, categories.length)
+    return {
+      band,
+      categoryX: (index: number) => margin.left + band * (index + 0.5),
+    }
+  }
+
+  const draw = (width: number) => {
+    const { band, categoryX } = layout(width)
+
+    return (
+      <>
+        <ChartAxes
+          width={width}
+          height={height}
+          margin={margin}
+          ticks={ticks}
+          scaleY={scaleY}
+          formatTick={formatTick}
+          categories={categories}
+          categoryX={categoryX}
+        />
+        {series.map((item, seriesIndex) => {
+          const color = paletteColor(seriesIndex, item.color)
+          const points = categories.map(
+            (_, index) => `${categoryX(index)},${scaleY(item.values[index] ?? 0)}`,
+          )
+          const first = categoryX(0)
+          const last = categoryX(categories.length - 1)
+          return (
+            <g key={item.label} aria-hidden="true">
+              {area && points.length ? (
+                <path
+                  className="chart-area"
+                  d={`M${first},${baseline} L${points.join(' L')} L${last},${baseline} Z`}
+                  style={{ fill: color }}
+                />
+              ) : null}
+              <polyline
+                className="chart-line"
+                points={points.join(' ')}
+                style={{ stroke: color }}
+              />
+            </g>
+          )
+        })}
+        {categories.map((category, index) => (
+          <g
+            key={category}
+            {...getMarkProps(index, describeCategory(category, series, index, formatValue))}
+          >
+            <rect
+              className="chart-hit"
+              x={margin.left + band * index}
+              y={margin.top}
+              width={band}
+              height={baseline - margin.top}
+            />
+            {series.map((item, seriesIndex) => (
+              <circle
+                key={item.label}
+                className="chart-point"
+                cx={categoryX(index)}
+                cy={scaleY(item.values[index] ?? 0)}
+                r={active === index ? 5 : 3}
+                style={{ stroke: paletteColor(seriesIndex, item.color) }}
+              />
+            ))}
+          </g>
+        ))}
+      </>
+    )
+  }
+
+  const tooltip = (width: number): ChartTooltip | null => {
+    if (active === null) {
+      return null
+    }
+    const { categoryX } = layout(width)
+    const top = Math.max(...series.map((item) => item.values[active] ?? 0))
+    return {
+      x: clampTooltipX(categoryX(active), width),
+      y: scaleY(top),
+      title: categories[active],
+      rows: series.map((item, index) => ({
+        label: item.label,
+        value: formatValue(item.values[active] ?? 0),
+        color: paletteColor(index, item.color),
+      })),
+    }
+  }
+
+  return (
+    <ChartFrame title={title} height={height} table={table} tooltip={tooltip} legend={legend}>
+      {draw}
+    </ChartFrame>
+  )
+}
+
+export default LineChart
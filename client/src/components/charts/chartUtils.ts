@@ -0,0 +1,153 @@
+/**
+ * Chart Helpers
+ * ==============
+ * Types, colors and scale math shared by the SVG chart components.
+ */
+
+import { formatAxisTick, formatNumber } from '../../utils/format'
+
+/**
+ * One named series of values, aligned with the chart's categories
+ */
+export type ChartSeries = {
+  label: string
+  values: number[]
+  /** Any CSS color; defaults to the palette color for the series' position */
+  color?: string
+}
+
+/**
+ * A single labelled value, e.g. one donut slice
+ */
+export type ChartDatum = {
+  label: string
+  value: number
+  color?: string
+}
+
+export type ValueFormatter = (value: number) => string
+
+export type ChartTooltip = {
+  x: number
+  y: number
+  title: string
+  rows: Array<{ label: string; value: string; color: string }>
+}
+
+export type ChartTable = {
+  headers: string[]
+  rows: string[][]
+}
+
+export type ChartMargin = {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+export const CHART_COLORS = [
+  'var(--color-primary)',
+  'var(--color-secondary)',
+  'var(--status-pending)',
+  'var(--color-accent)',
+  '#A78BFA',
+  'var(--status-inactive)',
+]
+
+export const CARTESIAN_MARGIN: ChartMargin = { top: 12, right: 12, bottom: 28, left: 48 }
+
+/** Minimum horizontal room per category label before labels are skipped */
+const MIN_LABEL_WIDTH = 56
+
+export const defaultFormatValue: ValueFormatter = (value) => formatNumber(value)
+export const defaultFormatTick: ValueFormatter = formatAxisTick
+
+export function paletteColor(index: number, color?: string): string {
+  return color || CHART_COLORS[index % CHART_COLORS.length]
+}
+
+/**
+ * Round a rough tick step to 1, 2 or 5 times a power of ten
+ */
+function niceStep(rough: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(rough))
+  const residual = rough / magnitude
+  const nice = residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1
+  return nice * magnitude
+}
+
+/**
+ * Evenly spaced ticks from 0 to at least `max`, on round numbers
+ */
+export function niceTicks(max: number, count = 4): number[] {
+  if (!(max > 0)) {
+    return [0, 1]
+  }
+  const step = niceStep(max / count)
+  const top = Math.ceil(max / step) * step
+  const ticks: number[] = []
+  for (let tick = 0; tick <= top + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)))
+  }
+  return ticks
+}
+
+/**
+ * Show every nth category label so that labels never overlap
+ */
+export function labelStride(count: number, plotWidth: number): number {
+  const fits = Math.max(1, Math.floor(plotWidth / MIN_LABEL_WIDTH))
+  return Math.max(1, Math.ceil(count / fits))
+}
+
+/**
+ * Keep a tooltip anchored inside the chart horizontally
+ */
+export function clampTooltipX(x: number, width: number): number {
+  const inset = Math.min(80, width / 2)
+  return Math.min(Math.max(x, inset), width - inset)
+}
+
+/**
+ * Data table rows for category charts: one row per category, one column per series
+ */
+export function seriesTable(
+  categoryHeader: string,
+  categories: string[],
+  series: ChartSeries[],
+  formatValue: ValueFormatter,
+): ChartTable {
+  return {
+    headers: [categoryHeader, ...series.map((item) => item.label)],
+    rows: categories.map((category, index) => [
+      category,
+      ...series.map((item) => formatValue(item.values[index] ?? 0)),
+    ]),
+  }
+}
+
+/**
+ * Accessible label for one category across every series
+ */
+export function describeCategory(
+  category: string,
+  series: ChartSeries[],
+  index: number,
+  formatValue: ValueFormatter,
+): string {
+  const values = series.map((item) => {
+    const value = formatValue(item.values[index] ?? 0)
+    return series.length > 1 ? `${item.label} ${value}` : value
+  })
+  return `${category}: ${values.join(', ')}`
+}
+
+/**
+ * Map a value onto the plot's vertical pixel range, with the last tick at the top
+ */
+export function valueScale(ticks: number[], height: number, margin: ChartMargin) {
+  const top = ticks[ticks.length - 1] || 1
+  const plotHeight = height - margin.top - margin.bottom
+  return (value: number) => margin.top + plotHeight - (value / top) * plotHeight
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react'
+
+/** Failed polls double the wait, up to this multiple of the interval */
+const MAX_BACKOFF_FACTOR = 8
+
+type AutoRefreshState = {
+  /** True while the tab is hidden and polling is suspended */
+  paused: boolean
+  /** Consecutive failed polls; the delay grows while this is above zero */
+  failures: number
+}
+
+function isDocumentHidden() {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden'
+}
+
+/**
+ * Call `refresh` every `interval` milliseconds while the tab is visible.
+ *
+ * `refresh` resolves to whether it succeeded; after a failure the next poll
+ * waits twice as long, so a struggling server is not hammered. Pass `null` to
+ * turn polling off. Coming back to a hidden tab refreshes straight away.
+ */
+export function useAutoRefresh(
+  refresh: () => Promise<boolean>,
+  interval: number | null,
+): AutoRefreshState {
+  const refreshRef = useRef(refresh)
+  refreshRef.current = refresh
+  const [hidden, setHidden] = useState(isDocumentHidden)
+  const [failures, setFailures] = useState(0)
+  const wasHiddenRef = useRef(false)
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setHidden(isDocumentHidden())
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [])
+
+  useEffect(() => {
+    setFailures(0)
+  }, [interval])
+
+  useEffect(() => {
+    if (!interval) {
+      return undefined
+    }
+    if (hidden) {
+      wasHiddenRef.current = true
+      return undefined
+    }
+
+    let cancelled = false
+    let timer: number | undefined
+    let failed = 0
+
+    const schedule = () => {
+      const delay = interval * Math.min(2 ** failed, MAX_BACKOFF_FACTOR)
+      timer = window.setTimeout(poll, delay)
+    }
+
+    const poll = async () => {
+      const succeeded = await refreshRef.current()
+      if (cancelled) return
+      failed = succeeded ? 0 : failed + 1
+      setFailures(failed)
+      schedule()
+    }
+
+    if (wasHiddenRef.current) {
+      wasHiddenRef.current = false
+      poll()
+    } else {
+      schedule()
+    }
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [interval, hidden])
+
+  return { paused: Boolean(interval) && hidden, failures }
+}
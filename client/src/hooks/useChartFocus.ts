@@ -0,0 +1,68 @@
+import { useRef, useState, type KeyboardEvent } from 'react'
+
+/**
+ * Hover and keyboard focus for the marks of a chart (bars, points, slices).
+ *
+ * The chart is a single tab stop: arrow keys move between marks, Home/End jump
+ * to the ends and Enter or Space selects. `active` is the mark that is hovered
+ * or focused, i.e. the one whose tooltip should show.
+ */
+export function useChartFocus(count: number, onSelect?: (index: number) => void) {
+  const [active, setActive] = useState<number | null>(null)
+  const [focusIndex, setFocusIndex] = useState(0)
+  const marks = useRef<Array<SVGGElement | null>>([])
+
+  const moveFocus = (index: number) => {
+    const next = (index + count) % count
+    setFocusIndex(next)
+    marks.current[next]?.focus()
+  }
+
+  const handleKeyDown = (index: number, event: KeyboardEvent<SVGGElement>) => {
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        moveFocus(index + 1)
+        break
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        moveFocus(index - 1)
+        break
+      case 'Home':
+        moveFocus(0)
+        break
+      case 'End':
+        moveFocus(count - 1)
+        break
+      case 'Enter':
+      case ' ':
+        if (!onSelect) return
+        onSelect(index)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  const getMarkProps = (index: number, label: string) => ({
+    ref: (element: SVGGElement | null) => {
+      marks.current[index] = element
+    },
+    tabIndex: index === Math.min(focusIndex, count - 1) ? 0 : -1,
+    role: onSelect ? 'button' : 'img',
+    'aria-label': label,
+    className: `chart-mark${active === index ? ' active' : ''}${onSelect ? ' selectable' : ''}`,
+    onMouseEnter: () => setActive(index),
+    onMouseLeave: () => setActive(null),
+    onFocus: () => {
+      setActive(index)
+      setFocusIndex(index)
+    },
+    onBlur: () => setActive(null),
+    onClick: onSelect ? () => onSelect(index) : undefined,
+    onKeyDown: (event: KeyboardEvent<SVGGElement>) => handleKeyDown(index, event),
+  })
+
+  return { active, getMarkProps }
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Return `value` once it has stopped changing for `delay` milliseconds.
+ * Used for typed filters, text and numbers, so each keystroke does not start a request.
+ */
+export function useDebouncedValue<T>(value: T, delay = 400): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay)
+    return () => window.clearTimeout(timer)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,24 @@
+import { useEffect, useRef, useState, type RefObject } from 'react'
+
+/**
+ * Track the rendered width of an element, for components that draw at pixel
+ * sizes such as the SVG charts. The width is 0 until the element is measured.
+ */
+export function useElementWidth<T extends HTMLElement>(): [RefObject<T>, number] {
+  const ref = useRef<T>(null)
+  const [width, setWidth] = useState(0)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) {
+      return undefined
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      setWidth(Math.floor(entry.contentRect.width))
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  return [ref, width]
+}
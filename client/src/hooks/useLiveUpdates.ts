@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import type { LiveConnectionState } from '../api'
+import {
+  getLiveConnectionState,
+  retainLiveUpdates,
+  subscribeLiveConnectionState,
+} from '../api/live'
+
+/**
+ * Keep cached data in sync with the live event stream while the component is
+ * mounted. Returns the stream's connection state for a status indicator.
+ */
+export function useLiveUpdates(): LiveConnectionState {
+  useEffect(() => retainLiveUpdates(), [])
+  return useSyncExternalStore(subscribeLiveConnectionState, getLiveConnectionState)
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react'
+import {
+  STALE_TIMES,
+  fetchQuery,
+  getQueryEntry,
+  needsFetch,
+  retainQuery,
+  serializeQueryKey,
+  subscribeQuery,
+  type QueryKey,
+} from '../api/cache'
+import type { RequestOptions } from '../api'
+
+type UseQueryOptions = {
+  staleTime?: number
+}
+
+export type QueryResult<T> = {
+  data: T | undefined
+  error: Error | null
+  loading: boolean
+  fetching: boolean
+  /** When the cached data was last fetched, or 0 if it never was */
+  updatedAt: number
+  /** Resolves to whether the refetch succeeded; failures surface through `error` */
+  refetch: () => Promise<boolean>
+}
+
+const noopSubscribe = () => () => {}
+
+/**
+ * Read a cached query and keep it fresh.
+ *
+ * Pass `null` as the key to skip the request, e.g. while a dependent value is
+ * still loading. `loading` is only true while there is no data to show yet;
+ * background revalidation is reported through `fetching`. When the key changes
+ * or the component unmounts, a request nobody else is waiting on is aborted.
+ */
+export function useQuery<T>(
+  key: QueryKey | null,
+  fetcher: (options: RequestOptions) => Promise<T>,
+  { staleTime = STALE_TIMES.default }: UseQueryOptions = {},
+): QueryResult<T> {
+  const cacheKey = key ? serializeQueryKey(key) : null
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+
+  const subscribe = useCallback(
+    (listener: () => void) => (cacheKey ? subscribeQuery(cacheKey, listener) : noopSubscribe()),
+    [cacheKey],
+  )
+  const entry = useSyncExternalStore(subscribe, () =>
+    cacheKey ? getQueryEntry<T>(cacheKey) : undefined,
+  )
+
+  useEffect(() => {
+    if (cacheKey) {
+      return retainQuery(cacheKey)
+    }
+    return undefined
+  }, [cacheKey])
+
+  useEffect(() => {
+    if (cacheKey && needsFetch(getQueryEntry(cacheKey), staleTime)) {
+      fetchQuery(cacheKey, (options) => fetcherRef.current(options)).catch(() => {})
+    }
+  }, [cacheKey, entry?.invalidated, staleTime])
+
+  const refetch = useCallback(async () => {
+    if (!cacheKey) {
+      return false
+    }
+    try {
+      await fetchQuery(cacheKey, (options) => fetcherRef.current(options))
+      return true
+    } catch {
+      return false
+    }
+  }, [cacheKey])
+
+  const data = entry?.data
+  const error = entry?.error || null
+
+  return {
+    data,
+    error,
+    loading: Boolean(cacheKey) && data === undefined && !error,
+    fetching: Boolean(entry?.fetching),
+    updatedAt: entry?.updatedAt || 0,
+    refetch,
+  }
+}
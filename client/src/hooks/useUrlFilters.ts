@@ -0,0 +1,136 @@
+import { useCallback } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+export const SORT_ORDERS = ['desc', 'asc'] as const
+
+export type FilterField = {
+  defaultValue?: string
+  /** Accepted values; anything else in the URL falls back to the default */
+  options?: readonly string[]
+  /** Only accept non-negative numbers */
+  numeric?: boolean
+  /** Typed into a text box; edits replace the history entry instead of pushing one per keystroke */
+  text?: boolean
+  /** Holds a list of values, comma-separated in the URL; `options` filters each value */
+  multiple?: boolean
+}
+
+export type FilterSchema = Record<string, FilterField>
+
+type FilterOption<F extends FilterField> =
+  F extends { options: readonly (infer O extends string)[] } ? O : string
+
+/**
+ * Parsed value of a field: a list for `multiple` fields, one of the options
+ * when they are typed, otherwise a string. Declare schemas with
+ * `satisfies FilterSchema` so `multiple: true` keeps its literal type.
+ */
+export type FilterValue<F extends FilterField> = F extends { multiple: true }
+  ? FilterOption<F>[]
+  : FilterOption<F>
+
+export type FilterValues<S extends FilterSchema> = { [K in keyof S]: FilterValue<S[K]> }
+
+type FilterInput = string | number | string[]
+
+function parseList(raw: string | null, field: FilterField): string[] {
+  const values = (raw || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value && (!field.options || field.options.includes(value)))
+  return [...new Set(values)]
+}
+
+function parseFilter(raw: string | null, field: FilterField): string | string[] {
+  if (field.multiple) {
+    return parseList(raw, field)
+  }
+  const fallback = field.defaultValue ?? ''
+  if (raw === null || raw === '') {
+    return fallback
+  }
+  if (field.options && !field.options.includes(raw)) {
+    return fallback
+  }
+  if (field.numeric && !(Number(raw) >= 0)) {
+    return fallback
+  }
+  return raw
+}
+
+function parsePage(raw: string | null): number {
+  const page = Number.parseInt(raw || '', 10)
+  return Number.isFinite(page) && page > 0 ? page : 1
+}
+
+/**
+ * Keep a list page's filters, sort and page number in the URL query string.
+ *
+ * Values are read back through the schema, so a hand-edited or outdated link
+ * falls back to the defaults instead of sending unknown values to the API.
+ * Defaults are left out of the URL to keep shared links short, and params the
+ * schema does not know about (e.g. an open drawer) are preserved.
+ */
+export function useUrlFilters<S extends FilterSchema>(schema: S) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = Object.fromEntries(
+    Object.entries(schema).map(([name, field]) => [
+      name,
+      parseFilter(searchParams.get(name), field),
+    ]),
+  ) as FilterValues<S>
+  const page = parsePage(searchParams.get('page'))
+
+  const updateParams = useCallback(
+    (patch: Record<string, FilterInput>, replace = false) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev)
+          Object.entries(patch).forEach(([name, input]) => {
+            const value = Array.isArray(input) ? input.join(',') : input
+            const defaultValue = name === 'page' ? 1 : schema[name]?.defaultValue ?? ''
+            if (value === '' || value === defaultValue) {
+              next.delete(name)
+            } else {
+              next.set(name, String(value))
+            }
+          })
+          return next
+        },
+        { replace },
+      )
+    },
+    [schema, setSearchParams],
+  )
+
+  const setFilter = useCallback(
+    (name: keyof S & string, value: string | string[]) => {
+      // The first keystroke still gets its own entry, so Back returns to the unfiltered list
+      const replace = Boolean(schema[name]?.text) && searchParams.has(name)
+      updateParams({ [name]: value, page: 1 }, replace)
+    },
+    [schema, searchParams, updateParams],
+  )
+
+  /** Change several filters in one history entry, e.g. both ends of a date range */
+  const setFilters = useCallback(
+    (patch: Partial<Record<keyof S & string, string | string[]>>) =>
+      updateParams({ ...patch, page: 1 }),
+    [updateParams],
+  )
+
+  const setPage = useCallback(
+    (nextPage: number) => updateParams({ page: nextPage }),
+    [updateParams],
+  )
+
+  const resetFilters = useCallback(() => {
+    const defaults = Object.fromEntries(
+      Object.entries(schema).map(([name, field]) => [name, field.defaultValue ?? '']),
+    )
+    updateParams({ ...defaults, page: 1 })
+  }, [schema, updateParams])
+
+  return { filters, page, setFilter, setFilters, setPage, resetFilters }
+}
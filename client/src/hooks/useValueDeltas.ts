@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from 'react'
+
+/**
+ * Track how numeric values moved between two versions of the same data.
+ *
+ * Returns the non-zero differences from the previous `version` to the current
+ * one, keyed like `values`. The first values seen are the baseline of the
+ * first new version. Bumping `version` (e.g. a query's `updatedAt`) with
+ * unchanged values clears the deltas.
+ */
+export function useValueDeltas(
+  values: Record<string, number> | null,
+  version: number,
+): Record<string, number> {
+  const latestRef = useRef(values)
+  const previousRef = useRef<Record<string, number> | null>(null)
+  const [deltas, setDeltas] = useState<Record<string, number>>({})
+
+  // `values` is rebuilt on every render, so it is read from a ref kept current
+  // here rather than being a dependency of the comparison below
+  useEffect(() => {
+    latestRef.current = values
+    if (!previousRef.current) {
+      previousRef.current = values
+    }
+  })
+
+  useEffect(() => {
+    const current = latestRef.current
+    const previous = previousRef.current
+    if (!current || !previous) {
+      return
+    }
+    previousRef.current = current
+    const changed = Object.entries(current)
+      .map(([key, value]) => [key, value - (previous[key] ?? value)] as const)
+      .filter(([, delta]) => delta !== 0 && Number.isFinite(delta))
+    setDeltas(Object.fromEntries(changed))
+  }, [version])
+
+  return deltas
+}
@@ -0,0 +1,14 @@
+import { useContext } from 'react'
+import { WalletContext, type WalletState } from '../wallet/WalletContext'
+
+/**
+ * The connected wallet and the actions to connect or disconnect it.
+ * Must be used below `WalletProvider`.
+ */
+export function useWallet(): WalletState {
+  const wallet = useContext(WalletContext)
+  if (!wallet) {
+    throw new Error('useWallet must be used within a WalletProvider')
+  }
+  return wallet
+}
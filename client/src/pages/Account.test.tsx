@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { fireEvent, screen } from '@testing-library/react'
+import Account from './Account'
+import { WALLET_ADDRESS, healthRecords, page, stakers } from '../test/fixtures'
+import { apiError, json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+describe('Account page', () => {
+  it('asks for a wallet and connects the mock wallet', async () => {
+    renderPage(<Account />)
+
+    expect(screen.getByText('No wallet connected')).toBeTruthy()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Connect Wallet' }))
+
+    expect(await screen.findByText(WALLET_ADDRESS)).toBeTruthy()
+  })
+
+  it('shows a spinner while the staking position loads', async () => {
+    mockApi.on('/stakers/wallet/:address', pending())
+    renderPage(<Account />, { walletConnected: true })
+
+    expect(await screen.findByText('Loading staking position...')).toBeTruthy()
+  })
+
+  it('shows the error when the staking position cannot be loaded', async () => {
+    mockApi.on('/stakers/wallet/:address', json({ stakerId: 1 }))
+    renderPage(<Account />, { walletConnected: true })
+
+    expect(await screen.findByText('Unexpected response from the API')).toBeTruthy()
+  })
+
+  it('explains a wallet without a stake, records or transactions', async () => {
+    mockApi.on('/stakers/wallet/:address', apiError(404, 'Staker not found'))
+    mockApi.on('/health-records', json(page([])))
+    mockApi.on('/transactions', json(page([])))
+    renderPage(<Account />, { walletConnected: true })
+
+    expect(await screen.findByText('No staking position')).toBeTruthy()
+    expect(await screen.findByText('No health records')).toBeTruthy()
+    expect(await screen.findByText('No transactions')).toBeTruthy()
+  })
+
+  it("shows the wallet's stake, records and transactions", async () => {
+    renderPage(<Account />, { walletConnected: true })
+
+    expect(await screen.findByRole('link', { name: stakers[0].stakerId })).toBeTruthy()
+    expect(await screen.findByRole('button', { name: healthRecords[0].recordId })).toBeTruthy()
+    // Only the records submitted from this wallet
+    expect(screen.queryByRole('button', { name: healthRecords[1].recordId })).toBeNull()
+    expect(mockApi.requestsTo('/health-records')[0].query.get('userAddress')).toBe(WALLET_ADDRESS)
+    expect(mockApi.requestsTo('/transactions')[0].query.get('address')).toBe(WALLET_ADDRESS)
+  })
+})
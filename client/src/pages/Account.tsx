@@ -0,0 +1,368 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { getHealthRecords, getStakerByWallet, getTransactions } from '../api'
+import { ApiClientError } from '../api/errors'
+import {
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatTokenAmount,
+  getStatusClass,
+  shortenAddress,
+  shortenHash,
+} from '../utils/format'
+import EmptyState from '../components/EmptyState'
+import ErrorState from '../components/ErrorState'
+import HealthRecordDrawer from '../components/HealthRecordDrawer'
+import LoadingState from '../components/LoadingState'
+import Pagination from '../components/Pagination'
+import SkeletonTable from '../components/SkeletonTable'
+import StatCard from '../components/StatCard'
+import { useQuery } from '../hooks/useQuery'
+import { useWallet } from '../hooks/useWallet'
+import type { HealthRecordListParams, TransactionListParams } from '../types'
+
+const PAGE_SIZE = 10
+
+function Account() {
+  const { address, status, providerKind, connect } = useWallet()
+  const [recordPage, setRecordPage] = useState(1)
+  const [txPage, setTxPage] = useState(1)
+  const [selectedRecordId, setSelectedRecordId] = useState<string | null>(null)
+
+  const stakerQuery = useQuery(
+    address ? [`/stakers/wallet/${address.toLowerCase()}`] : null,
+    (options) => getStakerByWallet(address || '', options),
+  )
+  // A wallet without a staking position is a normal state, not a failure
+  const noStake = stakerQuery.error instanceof ApiClientError && stakerQuery.error.status === 404
+  const staker = stakerQuery.data
+
+  const recordParams: HealthRecordListParams = {
+    page: recordPage,
+    limit: PAGE_SIZE,
+    userAddress: address || undefined,
+    sortBy: 'timestamp',
+    sortOrder: 'desc',
+  }
+  const recordsQuery = useQuery(address ? ['/health-records', recordParams] : null, (options) =>
+    getHealthRecords(recordParams, options),
+  )
+  const records = recordsQuery.data?.data || []
+  const recordPagination = recordsQuery.data?.pagination || null
+
+  const txParams: TransactionListParams = {
+    page: txPage,
+    limit: PAGE_SIZE,
+    address: address || undefined,
+    sortBy: 'timestamp',
+    sortOrder: 'desc',
+  }
+  const transactionsQuery = useQuery(address ? ['/transactions', txParams] : null, (options) =>
+    getTransactions(txParams, options),
+  )
+  const transactions = transactionsQuery.data?.data || []
+  const txPagination = transactionsQuery.data?.pagination || null
+
+  const closeRecord = useCallback(() => setSelectedRecordId(null), [])
+
+  useEffect(() => {
+    setRecordPage(1)
+    setTxPage(1)
+    setSelectedRecordId(null)
+  }, [address])
+
+  if (!address) {
+    return (
+      <div className="page">
+        <div className="page-header">
+          <div>
+            <h1 className="page-title">My Account</h1>
+            <p className="page-subtitle">Your staking position, health data and transactions</p>
+          </div>
+        </div>
+        <EmptyState
+          title={status === 'connecting' ? 'Connecting wallet...' : 'No wallet connected'}
+          description="Connect a wallet to see the stake, records and transactions for your address."
+          actionLabel="Connect Wallet"
+          onAction={status === 'connecting' ? undefined : connect}
+        />
+      </div>
+    )
+  }
+
+  const walletAddress = address.toLowerCase()
+
+  const renderStake = () => {
+    if (stakerQuery.loading) {
+      return <LoadingState label="Loading staking position..." />
+    }
+
+    if (noStake) {
+      return (
+        <EmptyState
+          title="No staking position"
+          description="This wallet has not staked any tokens yet."
+        />
+      )
+    }
+
+    if (stakerQuery.error) {
+      return <ErrorState error={stakerQuery.error} onRetry={stakerQuery.refetch} />
+    }
+
+    if (!staker) {
+      return null
+    }
+
+    return (
+      <div className="detail-list">
+        <div className="detail-item">
+          <span>Staker</span>
+          <strong>
+            <Link className="table-link mono" to={`/staking/${staker.stakerId}`}>
+              {staker.stakerId}
+            </Link>
+          </strong>
+        </div>
+        <div className="detail-item">
+          <span>Lock period</span>
+          <strong>{staker.lockPeriod} days</strong>
+        </div>
+        <div className="detail-item">
+          <span>Unlocks</span>
+          <strong>{formatDate(staker.unlockTime)}</strong>
+        </div>
+        <div className="detail-item">
+          <span>Multiplier</span>
+          <strong>{formatNumber(staker.stakingMultiplier, 2)}x</strong>
+        </div>
+        <div className="detail-item">
+          <span>Delegated to</span>
+          <strong>
+            {staker.delegatedTo ? (
+              <Link className="table-link mono" to={`/nodes/${staker.delegatedTo}`}>
+                {staker.delegatedTo}
+              </Link>
+            ) : (
+              'Not delegated'
+            )}
+          </strong>
+        </div>
+      </div>
+    )
+  }
+
+  const renderRecords = () => {
+    if (recordsQuery.loading) {
+      return <SkeletonTable rows={4} columns={7} />
+    }
+
+    if (recordsQuery.error) {
+      return <ErrorState error={recordsQuery.error} onRetry={recordsQuery.refetch} />
+    }
+
+    if (!records.length) {
+      return (
+        <EmptyState
+          title="No health records"
+          description="No health data has been submitted from this wallet."
+        />
+      )
+    }
+
+    return (
+      <>
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Record ID</th>
+                <th>Data Type</th>
+                <th>Value</th>
+                <th>Device</th>
+                <th>Status</th>
+                <th>Reward</th>
+                <th>Timestamp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((record) => (
+                <tr
+                  key={record.recordId}
+                  className={`clickable-row${record.recordId === selectedRecordId ? ' selected' : ''}`}
+                  onClick={() => setSelectedRecordId(record.recordId)}
+                >
+                  <td className="mono">
+                    <button
+                      className="link-button"
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        setSelectedRecordId(record.recordId)
+                      }}
+                    >
+                      {record.recordId}
+                    </button>
+                  </td>
+                  <td>{record.dataType.replace(/_/g, ' ')}</td>
+                  <td>
+                    {formatNumber(record.value, record.dataType === 'BLOOD_OXYGEN' ? 1 : 0)}{' '}
+                    {record.unit}
+                  </td>
+                  <td>{record.deviceType.replace(/_/g, ' ')}</td>
+                  <td>
+                    <span className={`badge ${getStatusClass(record.validationStatus)}`}>
+                      {record.validationStatus}
+                    </span>
+                  </td>
+                  <td>{formatTokenAmount(record.rewardEarned, 'HEALTH', 4)}</td>
+                  <td>{formatDateTime(record.timestamp)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <Pagination pagination={recordPagination} onPageChange={setRecordPage} />
+      </>
+    )
+  }
+
+  const renderTransactions = () => {
+    if (transactionsQuery.loading) {
+      return <SkeletonTable rows={4} columns={7} />
+    }
+
+    if (transactionsQuery.error) {
+      return (
+        <ErrorState
+          error={transactionsQuery.error}
+          onRetry={transactionsQuery.refetch}
+        />
+      )
+    }
+
+    if (!transactions.length) {
+      return (
+        <EmptyState
+          title="No transactions"
+          description="This wallet has no recorded transactions on the ledger."
+        />
+      )
+    }
+
+    return (
+      <>
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Hash</th>
+                <th>Type</th>
+                <th>Direction</th>
+                <th>Counterparty</th>
+                <th>Amount</th>
+                <th>Status</th>
+                <th>Timestamp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map((tx) => {
+                const outgoing = tx.from.toLowerCase() === walletAddress
+                return (
+                  <tr key={tx.txHash}>
+                    <td className="mono">
+                      <Link className="table-link" to={`/transactions/${tx.txHash}`}>
+                        {shortenHash(tx.txHash)}
+                      </Link>
+                    </td>
+                    <td>{tx.txType.replace(/_/g, ' ')}</td>
+                    <td>{outgoing ? 'Out' : 'In'}</td>
+                    <td className="address-short">{shortenAddress(outgoing ? tx.to : tx.from)}</td>
+                    <td>{formatTokenAmount(tx.amount)}</td>
+                    <td>
+                      <span className={`badge ${getStatusClass(tx.status)}`}>{tx.status}</span>
+                    </td>
+                    <td>{formatDateTime(tx.timestamp)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+        <Pagination pagination={txPagination} onPageChange={setTxPage} />
+      </>
+    )
+  }
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <div>
+          <p className="page-kicker">
+            {providerKind === 'mock' ? 'Mock wallet' : 'Connected wallet'}
+          </p>
+          <h1 className="page-title">My Account</h1>
+          <p className="page-subtitle address">{address}</p>
+        </div>
+      </div>
+
+      <div className="grid-4 stats-grid">
+        <StatCard
+          label="Staked"
+          value={staker ? formatTokenAmount(staker.stakedAmount) : '-'}
+          note={staker ? `${staker.lockPeriod} day lock` : 'No staking position'}
+        />
+        <StatCard
+          label="Pending Rewards"
+          value={staker ? formatTokenAmount(staker.pendingRewards) : '-'}
+          note={staker ? `${formatTokenAmount(staker.claimedRewards)} claimed` : 'Stake to earn'}
+        />
+        <StatCard
+          label="Health Records"
+          value={formatNumber(recordPagination?.totalItems)}
+          note="Submitted from this wallet"
+        />
+        <StatCard
+          label="Transactions"
+          value={formatNumber(txPagination?.totalItems)}
+          note="Sent or received"
+        />
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3>Staking Position</h3>
+          <span className="card-subtitle">Stake registered to this wallet</span>
+        </div>
+        {renderStake()}
+      </div>
+
+      <div className="card table-card">
+        <div className="section-header">
+          <h2>My Health Records</h2>
+          <span className="card-subtitle">
+            {formatNumber(recordPagination?.totalItems)} total
+          </span>
+        </div>
+        {renderRecords()}
+      </div>
+
+      <div className="card table-card">
+        <div className="section-header">
+          <h2>My Transactions</h2>
+          <span className="card-subtitle">
+            {formatNumber(txPagination?.totalItems)} total
+          </span>
+        </div>
+        {renderTransactions()}
+      </div>
+
+      {selectedRecordId ? (
+        <HealthRecordDrawer recordId={selectedRecordId} onClose={closeRecord} />
+      ) : null}
+    </div>
+  )
+}
+
+export default Account
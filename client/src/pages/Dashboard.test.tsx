@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { fireEvent, screen } from '@testing-library/react'
+import Dashboard from './Dashboard'
+import { healthRecordTimeSeries, platformStats, statsOverview } from '../test/fixtures'
+import { json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+describe('Dashboard page', () => {
+  it('shows a spinner while the network stats load', () => {
+    mockApi.on('/stats', pending())
+    renderPage(<Dashboard />)
+
+    expect(screen.getByText('Loading dashboard...')).toBeTruthy()
+  })
+
+  it('shows the error when the stats cannot be used', async () => {
+    mockApi.on('/stats/overview', json({ activeNodes: '25' }))
+    renderPage(<Dashboard />)
+
+    expect(await screen.findByText('Unexpected response from the API')).toBeTruthy()
+    expect(screen.getByText('/stats/overview')).toBeTruthy()
+  })
+
+  it('shows an empty validation pulse when no records were submitted', async () => {
+    mockApi.on('/health-records/timeseries', json({ ...healthRecordTimeSeries, buckets: [] }))
+    renderPage(<Dashboard />)
+
+    expect(await screen.findByText(/In range: 0 ·/)).toBeTruthy()
+  })
+
+  it('shows the network health and activity', async () => {
+    renderPage(<Dashboard />)
+
+    expect(await screen.findByRole('heading', { name: 'Network Dashboard' })).toBeTruthy()
+    expect(screen.getByText(`${platformStats.network.networkHealth}%`)).toBeTruthy()
+    expect(await screen.findByText(/In range: 2 ·/)).toBeTruthy()
+  })
+
+  it('marks the stats that changed with the first refresh', async () => {
+    renderPage(<Dashboard />)
+    await screen.findByRole('heading', { name: 'Network Dashboard' })
+
+    mockApi.on('/stats/overview', json({ ...statsOverview, activeNodes: 3 }))
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }))
+
+    expect(await screen.findByText('▲ 2')).toBeTruthy()
+  })
+})
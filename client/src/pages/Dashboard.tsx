@@ -1,59 +1,116 @@
-import { useEffect, useMemo, useState } from 'react'
-import { getHealthRecordStats, getStats, getStatsOverview } from '../api'
+import { useState, type ChangeEvent } from 'react'
+import {
+  getHealthRecordStats,
+  getHealthRecordTimeSeries,
+  getStats,
+  getStatsOverview,
+} from '../api'
+import { STALE_TIMES } from '../api/cache'
 import {
   formatCompactNumber,
   formatNumber,
   formatPercent,
+  formatTime,
   formatTokenAmount,
 } from '../utils/format'
+import DateRangePicker from '../components/DateRangePicker'
 import EmptyState from '../components/EmptyState'
 import ErrorState from '../components/ErrorState'
+import LiveIndicator from '../components/LiveIndicator'
 import LoadingState from '../components/LoadingState'
+import RecordActivityChart from '../components/RecordActivityChart'
 import StatCard from '../components/StatCard'
-import type { HealthRecordStats, PlatformStats, StatsOverview } from '../types'
+import { useAutoRefresh } from '../hooks/useAutoRefresh'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
+import { useQuery } from '../hooks/useQuery'
+import { useValueDeltas } from '../hooks/useValueDeltas'
+import { presetRange, toTimeSeriesParams, type DateRange } from '../utils/dateRange'
+
+const REFRESH_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 15_000, label: '15s' },
+  { value: 60_000, label: '60s' },
+  { value: 5 * 60_000, label: '5m' },
+]
+const REFRESH_STORAGE_KEY = 'chainhealth.dashboard.refreshInterval'
+
+function readRefreshInterval(): number {
+  const stored = Number(window.localStorage.getItem(REFRESH_STORAGE_KEY))
+  return REFRESH_OPTIONS.some((option) => option.value === stored) ? stored : 0
+}
+
+function formatCountDelta(delta: number): string {
+  return formatNumber(Math.abs(delta))
+}
+
+function formatTokenDelta(delta: number): string {
+  return formatTokenAmount(Math.abs(delta))
+}
 
 function Dashboard() {
-  const [overview, setOverview] = useState<StatsOverview | null>(null)
-  const [stats, setStats] = useState<PlatformStats | null>(null)
-  const [recordStats, setRecordStats] = useState<HealthRecordStats | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
+  const [refreshInterval, setRefreshInterval] = useState(readRefreshInterval)
+  const [lastRefresh, setLastRefresh] = useState(0)
+  const liveState = useLiveUpdates()
+  const [pulseRange, setPulseRange] = useState<DateRange>(() => presetRange(7))
+
+  const overviewQuery = useQuery(['/stats/overview'], getStatsOverview, {
+    staleTime: STALE_TIMES.stats,
+  })
+  const statsQuery = useQuery(['/stats'], getStats, { staleTime: STALE_TIMES.stats })
+  const recordStatsQuery = useQuery(['/health-records/stats'], getHealthRecordStats, {
+    staleTime: STALE_TIMES.stats,
+  })
+  const queries = [overviewQuery, statsQuery, recordStatsQuery]
+
+  const pulseParams = toTimeSeriesParams(pulseRange)
+  const pulseQuery = useQuery(['/health-records/timeseries', pulseParams], (options) =>
+    getHealthRecordTimeSeries(pulseParams, options),
+  )
+  const pulseTotal = pulseQuery.data?.buckets.reduce((sum, bucket) => sum + bucket.total, 0)
+
+  const overview = overviewQuery.data
+  const stats = statsQuery.data
+  const recordStats = recordStatsQuery.data
+  const loading = queries.some((query) => query.loading)
+  const error = queries.find((query) => query.error)?.error
+  const lastUpdated = Math.max(...queries.map((query) => query.updatedAt))
 
   const loadDashboard = async () => {
-    setLoading(true)
-    setError('')
-    try {
-      const [overviewData, statsData, recordStatsData] = await Promise.all([
-        getStatsOverview(),
-        getStats(),
-        getHealthRecordStats(),
-      ])
-      setOverview(overviewData)
-      setStats(statsData)
-      setRecordStats(recordStatsData)
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load dashboard data.'
-      setError(errorMessage)
-    } finally {
-      setLoading(false)
-    }
+    const results = await Promise.all(
+      [...queries, pulseQuery].map((query) => query.refetch()),
+    )
+    setLastRefresh(Date.now())
+    return results.every(Boolean)
   }
 
-  useEffect(() => {
-    loadDashboard()
-  }, [])
+  const { paused, failures } = useAutoRefresh(loadDashboard, refreshInterval || null)
+
+  const handleIntervalChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const interval = Number(event.target.value)
+    setRefreshInterval(interval)
+    window.localStorage.setItem(REFRESH_STORAGE_KEY, String(interval))
+  }
 
-  const activity = recordStats?.recordsByDay || []
-  const maxCount = useMemo(() => {
-    return activity.reduce((max, item) => Math.max(max, item.count), 0)
-  }, [activity])
+  // Compared after each full refresh, so all three responses have landed
+  const deltas = useValueDeltas(
+    overview
+      ? {
+          activeNodes: overview.activeNodes,
+          totalStaked: Number.parseFloat(overview.totalStaked),
+          healthRecordsValidated: overview.healthRecordsValidated,
+          totalRewardsDistributed: Number.parseFloat(overview.totalRewardsDistributed),
+        }
+      : null,
+    lastRefresh,
+  )
 
   if (loading) {
     return <LoadingState label="Loading dashboard..." />
   }
 
-  if (error) {
-    return <ErrorState message={error} onRetry={loadDashboard} />
+  // Keep showing the last good numbers if a background refresh fails
+  if (error && (!overview || !stats || !recordStats)) {
+    return <ErrorState error={error} onRetry={loadDashboard} />
   }
 
   if (!overview || !stats || !recordStats) {
@@ -75,24 +132,64 @@ function Dashboard() {
       label: 'Active Nodes',
       value: formatNumber(overview.activeNodes),
       note: `${formatNumber(stats.network.totalNodes)} total nodes`,
+      delta: deltas.activeNodes,
+      formatDelta: formatCountDelta,
     },
     {
       label: 'Total Staked',
       value: formatTokenAmount(overview.totalStaked),
       note: `${formatNumber(stats.staking.totalStakers)} stakers`,
+      delta: deltas.totalStaked,
+      formatDelta: formatTokenDelta,
     },
     {
       label: 'Records Validated',
       value: formatNumber(overview.healthRecordsValidated),
       note: `${formatPercent(stats.healthData.validationRate)} validation rate`,
+      delta: deltas.healthRecordsValidated,
+      formatDelta: formatCountDelta,
     },
     {
       label: 'Rewards Distributed',
       value: formatTokenAmount(overview.totalRewardsDistributed),
       note: `Epoch ${stats.rewards.currentEpoch}`,
+      delta: deltas.totalRewardsDistributed,
+      formatDelta: formatTokenDelta,
     },
   ]
 
+  const renderPulse = () => {
+    if (pulseQuery.loading) {
+      return <LoadingState label="Loading activity..." />
+    }
+
+    if (pulseQuery.error) {
+      return <ErrorState error={pulseQuery.error} onRetry={pulseQuery.refetch} />
+    }
+
+    return (
+      <RecordActivityChart
+        title="Health records submitted"
+        timeSeries={pulseQuery.data}
+        height={200}
+      />
+    )
+  }
+
+  const renderRefreshStatus = () => {
+    if (paused) {
+      return <span className="refresh-status">Paused while the tab is hidden</span>
+    }
+    if (error || failures > 0) {
+      return (
+        <span className="refresh-status warning">
+          Refresh failed · showing data from {formatTime(lastUpdated)}
+        </span>
+      )
+    }
+    return <span className="refresh-status">Updated {formatTime(lastUpdated)}</span>
+  }
+
   const snapshotItems = [
     {
       label: 'Avg node uptime',
@@ -122,15 +219,34 @@ function Dashboard() {
             Live validation, staking, and DePIN performance signals across the network.
           </p>
         </div>
+        <div className="refresh-controls">
+          {renderRefreshStatus()}
+          <select
+            aria-label="Auto-refresh interval"
+            value={refreshInterval}
+            onChange={handleIntervalChange}
+          >
+            {REFRESH_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                Auto-refresh: {option.label}
+              </option>
+            ))}
+          </select>
+          <button className="btn btn-secondary" type="button" onClick={loadDashboard}>
+            Refresh
+          </button>
+        </div>
       </div>
 
       <div className="grid-4 stats-grid">
         {statCards.map((card) => (
           <StatCard
-            key={card.label}
+            key={`${card.label}-${lastRefresh}`}
             label={card.label}
             value={card.value}
             note={card.note}
+            delta={card.delta}
+            deltaLabel={card.delta ? card.formatDelta(card.delta) : undefined}
           />
         ))}
       </div>
@@ -170,21 +286,19 @@ function Dashboard() {
         <div className="card activity-card">
           <div className="card-header">
             <h3>Validation Pulse</h3>
-            <span className="card-subtitle">Last 7 days</span>
+            <LiveIndicator state={liveState} />
           </div>
-          <div className="chart-bars">
-            {activity.map((item) => {
-              const height = maxCount ? Math.max(18, (item.count / maxCount) * 160) : 18
-              return (
-                <div key={item.date} className="chart-bar" title={`${item.count} records`}>
-                  <div className="chart-bar-fill" style={{ height: `${height}px` }} />
-                  <span className="chart-bar-label">{item.date.slice(5)}</span>
-                </div>
-              )
-            })}
+          <div className="chart-toolbar">
+            <DateRangePicker
+              label="Validation pulse range"
+              value={pulseRange}
+              onChange={setPulseRange}
+            />
           </div>
+          {renderPulse()}
           <div className="chart-footnote">
-            Total records: {formatCompactNumber(recordStats.totalRecords)}
+            In range: {pulseTotal === undefined ? '-' : formatNumber(pulseTotal)} · Total
+            records: {formatCompactNumber(recordStats.totalRecords)}
           </div>
         </div>
       </div>
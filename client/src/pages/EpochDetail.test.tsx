@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import EpochDetail from './EpochDetail'
+import { epochs } from '../test/fixtures'
+import { json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+const renderEpoch = (epochNumber: number | string) =>
+  renderPage(<EpochDetail />, { route: `/epochs/${epochNumber}`, path: '/epochs/:epochNumber' })
+
+describe('EpochDetail page', () => {
+  it('shows a spinner while the epoch loads', () => {
+    mockApi.on('/epochs/:epochNumber', pending())
+    renderEpoch(1)
+
+    expect(screen.getByText('Loading epoch...')).toBeTruthy()
+  })
+
+  it('reports an epoch that does not exist', async () => {
+    renderEpoch(99)
+
+    expect(await screen.findByText('Not found')).toBeTruthy()
+    expect(screen.getByText('Epoch not found')).toBeTruthy()
+  })
+
+  it('explains an epoch without node rewards', async () => {
+    mockApi.on('/epochs/:epochNumber', json({ ...epochs[0], nodeRewards: [] }))
+    renderEpoch(1)
+
+    expect(await screen.findByText('No node rewards')).toBeTruthy()
+  })
+
+  it('ranks the nodes by reward with their share of the pool', async () => {
+    renderEpoch(1)
+
+    expect(await screen.findByRole('heading', { name: 'Epoch #1' })).toBeTruthy()
+    const [first, second] = epochs[0].nodeRewards
+    expect(screen.getByRole('link', { name: first.nodeId })).toBeTruthy()
+    expect(screen.getByRole('link', { name: second.nodeId })).toBeTruthy()
+    expect(screen.getByText('75.00%')).toBeTruthy()
+    expect(screen.getByText('25.00%')).toBeTruthy()
+  })
+})
@@ -0,0 +1,143 @@
+import { useMemo } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { getEpochByNumber } from '../api'
+import {
+  formatDateTime,
+  formatNumber,
+  formatPercent,
+  formatTokenAmount,
+} from '../utils/format'
+import EmptyState from '../components/EmptyState'
+import ErrorState from '../components/ErrorState'
+import LoadingState from '../components/LoadingState'
+import StatCard from '../components/StatCard'
+import { useQuery } from '../hooks/useQuery'
+
+function EpochDetail() {
+  const { epochNumber = '' } = useParams()
+  const {
+    data: epoch,
+    error,
+    loading,
+    refetch: loadEpoch,
+  } = useQuery([`/epochs/${epochNumber}`], (options) =>
+    getEpochByNumber(Number.parseInt(epochNumber, 10), options),
+  )
+
+  const rewards = useMemo(() => {
+    return [...(epoch?.nodeRewards || [])].sort(
+      (a, b) => Number.parseFloat(b.reward) - Number.parseFloat(a.reward),
+    )
+  }, [epoch])
+
+  const rewardsTotal = rewards.reduce((sum, item) => sum + Number.parseFloat(item.reward), 0)
+
+  if (loading) {
+    return <LoadingState label="Loading epoch..." />
+  }
+
+  if (error) {
+    return <ErrorState error={error} onRetry={loadEpoch} />
+  }
+
+  if (!epoch) {
+    return (
+      <EmptyState
+        title="Epoch not found"
+        description="This epoch does not exist or has not started yet."
+        actionLabel="Refresh"
+        onAction={loadEpoch}
+      />
+    )
+  }
+
+  const poolTotal = Number.parseFloat(epoch.totalRewardsPool)
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <div>
+          <p className="page-kicker">
+            <Link className="breadcrumb-link" to="/epochs">
+              Epochs
+            </Link>
+          </p>
+          <h1 className="page-title">Epoch #{epoch.epochNumber}</h1>
+          <p className="page-subtitle">
+            {formatDateTime(epoch.startTime)} – {formatDateTime(epoch.endTime)}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid-4 stats-grid">
+        <StatCard
+          label="Rewards Pool"
+          value={formatTokenAmount(epoch.totalRewardsPool)}
+          note={`${formatTokenAmount(rewardsTotal)} to listed nodes`}
+        />
+        <StatCard
+          label="Validations"
+          value={formatNumber(epoch.totalValidations)}
+          note="Records validated this epoch"
+        />
+        <StatCard
+          label="Active Nodes"
+          value={formatNumber(epoch.activeNodes)}
+          note={`${formatNumber(rewards.length)} with reward entries`}
+        />
+        <StatCard
+          label="Active Stakers"
+          value={formatNumber(epoch.activeStakers)}
+          note="Eligible for distribution"
+        />
+      </div>
+
+      <div className="card table-card">
+        <div className="section-header">
+          <h2>Node Rewards</h2>
+        </div>
+        {rewards.length ? (
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Rank</th>
+                  <th>Node ID</th>
+                  <th>Reward</th>
+                  <th>Validations</th>
+                  <th>Share of Pool</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rewards.map((item, index) => (
+                  <tr key={item.nodeId}>
+                    <td>#{index + 1}</td>
+                    <td className="mono">
+                      <Link className="table-link" to={`/nodes/${item.nodeId}`}>
+                        {item.nodeId}
+                      </Link>
+                    </td>
+                    <td>{formatTokenAmount(item.reward)}</td>
+                    <td>{formatNumber(item.validations)}</td>
+                    <td>
+                      {poolTotal
+                        ? formatPercent((Number.parseFloat(item.reward) / poolTotal) * 100)
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <EmptyState
+            title="No node rewards"
+            description="No per-node reward entries were recorded for this epoch."
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default EpochDetail
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import Epochs from './Epochs'
+import { page } from '../test/fixtures'
+import { apiError, json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+describe('Epochs page', () => {
+  it('shows a skeleton while the epochs load', () => {
+    mockApi.on('/epochs', pending())
+
+    const { container } = renderPage(<Epochs />)
+
+    expect(container.querySelector('.table-skeleton')).not.toBeNull()
+  })
+
+  it('shows why the request failed', async () => {
+    mockApi.on('/epochs', apiError(400, 'Invalid sort order'))
+    renderPage(<Epochs />)
+
+    expect(await screen.findByText('The request was rejected')).toBeTruthy()
+  })
+
+  it('explains that no epochs have closed yet', async () => {
+    mockApi.on('/epochs', json(page([])))
+    renderPage(<Epochs />)
+
+    expect(await screen.findByText('No epochs yet')).toBeTruthy()
+  })
+
+  it('lists the epochs, newest first by default', async () => {
+    renderPage(<Epochs />)
+
+    expect(await screen.findByRole('link', { name: '#2' })).toBeTruthy()
+    expect(screen.getByRole('link', { name: '#1' })).toBeTruthy()
+    expect(mockApi.requestsTo('/epochs')[0].query.get('sortOrder')).toBe('desc')
+  })
+})
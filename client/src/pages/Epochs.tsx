@@ -0,0 +1,179 @@
+import type { ChangeEvent } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { getEpochs, getEpochStats } from '../api'
+import { STALE_TIMES } from '../api/cache'
+import {
+  formatCompactNumber,
+  formatDate,
+  formatNumber,
+  formatTokenAmount,
+} from '../utils/format'
+import EmptyState from '../components/EmptyState'
+import ErrorState from '../components/ErrorState'
+import Pagination from '../components/Pagination'
+import SkeletonTable from '../components/SkeletonTable'
+import StatCard from '../components/StatCard'
+import LineChart from '../components/charts/LineChart'
+import { useQuery } from '../hooks/useQuery'
+import { SORT_ORDERS, useUrlFilters } from '../hooks/useUrlFilters'
+
+const FILTER_SCHEMA = {
+  sortOrder: { defaultValue: 'desc', options: SORT_ORDERS },
+}
+
+function Epochs() {
+  const { filters, page, setFilter, setPage } = useUrlFilters(FILTER_SCHEMA)
+  const { sortOrder } = filters
+  const navigate = useNavigate()
+
+  const { data: stats } = useQuery(['/epochs/stats'], getEpochStats, {
+    staleTime: STALE_TIMES.stats,
+  })
+
+  const epochParams = { page, limit: 12, sortOrder }
+  const epochsQuery = useQuery(['/epochs', epochParams], (options) =>
+    getEpochs(epochParams, options),
+  )
+  const epochs = epochsQuery.data?.data || []
+  const pagination = epochsQuery.data?.pagination || null
+
+  const handleSortChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setFilter('sortOrder', event.target.value)
+  }
+
+  const trend = stats?.rewardsTrend || []
+
+  const renderTable = () => {
+    if (epochsQuery.loading) {
+      return <SkeletonTable rows={6} columns={7} />
+    }
+
+    if (epochsQuery.error) {
+      return <ErrorState error={epochsQuery.error} onRetry={epochsQuery.refetch} />
+    }
+
+    if (!epochs.length) {
+      return (
+        <EmptyState
+          title="No epochs yet"
+          description="Reward epochs will appear here once the network closes its first cycle."
+          actionLabel="Refresh"
+          onAction={epochsQuery.refetch}
+        />
+      )
+    }
+
+    return (
+      <>
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Epoch</th>
+                <th>Start</th>
+                <th>End</th>
+                <th>Rewards Pool</th>
+                <th>Validations</th>
+                <th>Active Nodes</th>
+                <th>Active Stakers</th>
+              </tr>
+            </thead>
+            <tbody>
+              {epochs.map((epoch) => (
+                <tr key={epoch.epochNumber}>
+                  <td className="mono">
+                    <Link className="table-link" to={`/epochs/${epoch.epochNumber}`}>
+                      #{epoch.epochNumber}
+                    </Link>
+                  </td>
+                  <td>{formatDate(epoch.startTime)}</td>
+                  <td>{formatDate(epoch.endTime)}</td>
+                  <td>{formatTokenAmount(epoch.totalRewardsPool)}</td>
+                  <td>{formatNumber(epoch.totalValidations)}</td>
+                  <td>{formatNumber(epoch.activeNodes)}</td>
+                  <td>{formatNumber(epoch.activeStakers)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <Pagination pagination={pagination} onPageChange={setPage} />
+      </>
+    )
+  }
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <div>
+          <p className="page-kicker">Reward Cycles</p>
+          <h1 className="page-title">Epochs</h1>
+          <p className="page-subtitle">
+            Review reward pools, validation throughput, and per-node payouts for every epoch.
+          </p>
+        </div>
+      </div>
+
+      {stats ? (
+        <div className="grid-4 stats-grid">
+          <StatCard
+            label="Total Epochs"
+            value={formatNumber(stats.totalEpochs)}
+            note={`Avg active nodes: ${formatNumber(stats.avgActiveNodes)}`}
+          />
+          <StatCard
+            label="Rewards Distributed"
+            value={formatTokenAmount(stats.totalRewardsDistributed)}
+            note="All epochs"
+          />
+          <StatCard
+            label="Avg Rewards / Epoch"
+            value={formatTokenAmount(stats.avgRewardsPerEpoch)}
+            note={`Avg stakers: ${formatNumber(stats.avgActiveStakers)}`}
+          />
+          <StatCard
+            label="Validations"
+            value={formatCompactNumber(stats.totalValidationsAllTime)}
+            note={`${formatNumber(stats.avgValidationsPerEpoch)} per epoch`}
+          />
+        </div>
+      ) : null}
+
+      <div className="card chart-card">
+        <div className="card-header">
+          <h3>Rewards Trend</h3>
+          <span className="card-subtitle">Last {trend.length} epochs</span>
+        </div>
+        <LineChart
+          title="Rewards pool per epoch"
+          categoryLabel="Epoch"
+          area
+          categories={trend.map((item) => `#${item.epoch}`)}
+          series={[
+            { label: 'Rewards', values: trend.map((item) => Number.parseFloat(item.rewards)) },
+          ]}
+          formatValue={(value) => formatTokenAmount(value)}
+          onSelect={(index) => navigate(`/epochs/${trend[index].epoch}`)}
+        />
+        <div className="chart-footnote">
+          Avg per epoch: {formatTokenAmount(stats?.avgRewardsPerEpoch)}
+        </div>
+      </div>
+
+      <div className="card table-card">
+        <div className="section-header">
+          <h2>Epoch History</h2>
+        </div>
+        <div className="filters">
+          <select name="sortOrder" value={sortOrder} onChange={handleSortChange}>
+            <option value="desc">Newest first</option>
+            <option value="asc">Oldest first</option>
+          </select>
+        </div>
+        {renderTable()}
+      </div>
+    </div>
+  )
+}
+
+export default Epochs
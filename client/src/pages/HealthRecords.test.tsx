@@ -0,0 +1,73 @@
+import { StrictMode } from 'react'
+import { describe, expect, it } from 'vitest'
+import { fireEvent, screen, within } from '@testing-library/react'
+import HealthRecords from './HealthRecords'
+import { healthRecords, page } from '../test/fixtures'
+import { apiError, json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+describe('HealthRecords page', () => {
+  it('shows loading states for the records and the activity chart', () => {
+    mockApi.on('/health-records', pending())
+    mockApi.on('/health-records/timeseries', pending())
+
+    const { container } = renderPage(<HealthRecords />)
+
+    expect(container.querySelector('.table-skeleton')).not.toBeNull()
+    expect(screen.getByText('Loading activity...')).toBeTruthy()
+  })
+
+  it('shows why the request failed', async () => {
+    mockApi.on('/health-records', apiError(400, 'minValue must be a number'))
+    renderPage(<HealthRecords />)
+
+    expect(await screen.findByText('The request was rejected')).toBeTruthy()
+  })
+
+  it('offers to clear the filters when no records match', async () => {
+    mockApi.on('/health-records', json(page([])))
+    renderPage(<HealthRecords />, { route: '/health-records?dataType=SLEEP,STEPS' })
+
+    expect(await screen.findByText('No records found')).toBeTruthy()
+    expect(mockApi.requestsTo('/health-records')[0].query.get('dataType')).toBe('SLEEP,STEPS')
+  })
+
+  it('lists the records and opens one in the drawer', async () => {
+    renderPage(<HealthRecords />)
+
+    for (const record of healthRecords) {
+      expect(await screen.findByRole('button', { name: record.recordId })).toBeTruthy()
+    }
+
+    fireEvent.click(screen.getByRole('button', { name: healthRecords[0].recordId }))
+
+    expect(
+      await screen.findByRole('dialog', { name: `Health record ${healthRecords[0].recordId}` }),
+    ).toBeTruthy()
+    expect(mockApi.requestsTo(`/health-records/${healthRecords[0].recordId}`)).toHaveLength(1)
+  })
+
+  it("compares the record with all of its user's readings", async () => {
+    mockApi.on(
+      '/health-records/:recordId/comparison',
+      json({ count: 250, min: 48, max: 121, average: 71.4, percentile: 70 }),
+    )
+    renderPage(<HealthRecords />, { route: `/health-records?record=${healthRecords[0].recordId}` })
+
+    const drawer = await screen.findByRole('dialog')
+    expect(await within(drawer).findByText('70th')).toBeTruthy()
+    expect(within(drawer).getByText('250')).toBeTruthy()
+  })
+
+  it('loads the filter options when the first request is cancelled', async () => {
+    // StrictMode mounts the page twice in development, cancelling the first requests
+    renderPage(
+      <StrictMode>
+        <HealthRecords />
+      </StrictMode>,
+    )
+
+    const group = await screen.findByRole('group', { name: 'Data type' })
+    expect(await within(group).findByRole('button', { name: 'HEART RATE' })).toBeTruthy()
+  })
+})
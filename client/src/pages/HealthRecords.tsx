@@ -1,119 +1,176 @@
-import { useEffect, useState, type ChangeEvent } from 'react'
+import { useCallback, useState, type ChangeEvent } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import {
   getDataTypes,
   getDeviceTypes,
   getHealthRecordStats,
+  getHealthRecordTimeSeries,
   getHealthRecords,
 } from '../api'
+import { STALE_TIMES } from '../api/cache'
 import {
   formatDateTime,
   formatNumber,
   shortenAddress,
   getStatusClass,
 } from '../utils/format'
+import ChipFilter from '../components/ChipFilter'
+import DateRangePicker from '../components/DateRangePicker'
 import EmptyState from '../components/EmptyState'
 import ErrorState from '../components/ErrorState'
+import ExportControl from '../components/ExportControl'
+import HealthRecordDrawer from '../components/HealthRecordDrawer'
+import LoadingState from '../components/LoadingState'
 import Pagination from '../components/Pagination'
+import RecordActivityChart from '../components/RecordActivityChart'
 import SkeletonTable from '../components/SkeletonTable'
 import StatCard from '../components/StatCard'
-import type { HealthRecord, HealthRecordStats, Pagination as PaginationType } from '../types'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useQuery } from '../hooks/useQuery'
+import { useUrlFilters, type FilterSchema } from '../hooks/useUrlFilters'
+import {
+  presetRange,
+  rangeToTimestamps,
+  toTimeSeriesParams,
+  type DateRange,
+} from '../utils/dateRange'
+import { toIsoTime, type ExportColumn, type PageFetcher } from '../utils/export'
+import { toNumericRange } from '../utils/filters'
+import type {
+  DataType,
+  DeviceType,
+  HealthRecord,
+  HealthRecordFilters,
+  HealthRecordGroupBy,
+  HealthRecordListParams,
+  HealthRecordTimeSeriesParams,
+  ValidationStatus,
+} from '../types'
+
+const VALIDATION_STATUSES: ValidationStatus[] = ['VALIDATED', 'PENDING', 'REJECTED']
+
+const FILTER_SCHEMA = {
+  dataType: { multiple: true },
+  deviceType: { multiple: true },
+  validationStatus: { multiple: true, options: VALIDATION_STATUSES },
+  userAddress: { text: true },
+  minValue: { numeric: true, text: true },
+  maxValue: { numeric: true, text: true },
+  startDate: {},
+  endDate: {},
+} satisfies FilterSchema
 
-const VALIDATION_STATUSES = ['VALIDATED', 'PENDING', 'REJECTED']
+const GROUP_OPTIONS: Array<{ value: HealthRecordGroupBy | ''; label: string }> = [
+  { value: 'validationStatus', label: 'By status' },
+  { value: 'dataType', label: 'By data type' },
+  { value: 'deviceType', label: 'By device' },
+  { value: '', label: 'Total only' },
+]
+
+/** Span of the activity chart while the record list is not limited to a range */
+const DEFAULT_CHART_DAYS = 30
+
+const EXPORT_COLUMNS: ExportColumn<HealthRecord>[] = [
+  { header: 'Record ID', value: (record) => record.recordId },
+  { header: 'User', value: (record) => record.userAddress },
+  { header: 'Data Type', value: (record) => record.dataType },
+  { header: 'Value', value: (record) => `${record.value} ${record.unit}` },
+  { header: 'Device', value: (record) => record.deviceType },
+  { header: 'Status', value: (record) => record.validationStatus },
+  { header: 'Timestamp', value: (record) => toIsoTime(record.timestamp) },
+]
 
 function HealthRecords() {
-  const [records, setRecords] = useState<HealthRecord[]>([])
-  const [pagination, setPagination] = useState<PaginationType | null>(null)
-  const [dataTypes, setDataTypes] = useState<string[]>([])
-  const [deviceTypes, setDeviceTypes] = useState<string[]>([])
-  const [stats, setStats] = useState<HealthRecordStats | null>(null)
-  const [filters, setFilters] = useState({
-    dataType: '',
-    deviceType: '',
-    validationStatus: '',
-    userAddress: '',
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedRecordId = searchParams.get('record')
+  const { filters, page, setFilter, setFilters, setPage, resetFilters } =
+    useUrlFilters(FILTER_SCHEMA)
+  const userAddress = useDebouncedValue(filters.userAddress.trim())
+  const [groupBy, setGroupBy] = useState<HealthRecordGroupBy | ''>('validationStatus')
+  const range: DateRange = { start: filters.startDate, end: filters.endDate }
+
+  const { data: dataTypes = [] } = useQuery(['/health-records/data-types'], getDataTypes, {
+    staleTime: STALE_TIMES.static,
+  })
+  const { data: deviceTypes = [] } = useQuery(['/health-records/device-types'], getDeviceTypes, {
+    staleTime: STALE_TIMES.static,
+  })
+  const { data: stats } = useQuery(['/health-records/stats'], getHealthRecordStats, {
+    staleTime: STALE_TIMES.stats,
   })
-  const [page, setPage] = useState(1)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
 
-  const loadFilters = async () => {
-    try {
-      const [dataTypeOptions, deviceTypeOptions] = await Promise.all([
-        getDataTypes(),
-        getDeviceTypes(),
-      ])
-      setDataTypes(dataTypeOptions)
-      setDeviceTypes(deviceTypeOptions)
-    } catch (err) {
-      console.error('Failed to load filter options', err)
-    }
+  const minValue = useDebouncedValue(filters.minValue)
+  const maxValue = useDebouncedValue(filters.maxValue)
+  const valueRange = toNumericRange(minValue, maxValue)
+  const recordFilters: HealthRecordFilters = {
+    dataType: filters.dataType as DataType[],
+    deviceType: filters.deviceType as DeviceType[],
+    validationStatus: filters.validationStatus,
+    userAddress,
+    minValue: valueRange.min,
+    maxValue: valueRange.max,
   }
 
-  const loadStats = async () => {
-    try {
-      const statsData = await getHealthRecordStats()
-      setStats(statsData)
-    } catch (err) {
-      console.error('Failed to load health record stats', err)
-    }
+  const recordParams: HealthRecordListParams = {
+    page,
+    limit: 12,
+    sortBy: 'timestamp',
+    sortOrder: 'desc',
+    ...recordFilters,
+    ...rangeToTimestamps(range),
   }
+  const recordsQuery = useQuery(['/health-records', recordParams], (options) =>
+    getHealthRecords(recordParams, options),
+  )
+  const records = recordsQuery.data?.data || []
+  const fetchExportPage: PageFetcher<HealthRecord> = (exportPage, limit, options) =>
+    getHealthRecords({ ...recordParams, page: exportPage, limit }, options)
+  const pagination = recordsQuery.data?.pagination || null
 
-  const loadRecords = async () => {
-    setLoading(true)
-    setError('')
-    try {
-      const response = await getHealthRecords({
-        page,
-        limit: 12,
-        sortBy: 'timestamp',
-        sortOrder: 'desc',
-        ...filters,
-      })
-      setRecords(response.data)
-      setPagination(response.pagination)
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load health records.'
-      setError(errorMessage)
-    } finally {
-      setLoading(false)
-    }
+  const chartRange = range.start
+    ? range
+    : presetRange(DEFAULT_CHART_DAYS, rangeToTimestamps(range).endDate)
+  const timeSeriesParams: HealthRecordTimeSeriesParams = {
+    ...recordFilters,
+    groupBy: groupBy || undefined,
+    ...toTimeSeriesParams(chartRange),
   }
+  const timeSeriesQuery = useQuery(['/health-records/timeseries', timeSeriesParams], (options) =>
+    getHealthRecordTimeSeries(timeSeriesParams, options),
+  )
 
-  useEffect(() => {
-    loadFilters()
-    loadStats()
-  }, [])
-
-  useEffect(() => {
-    loadRecords()
-  }, [page, filters])
+  const handleRangeChange = (next: DateRange) => {
+    setFilters({ startDate: next.start, endDate: next.end })
+  }
 
   const handleFilterChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = event.target
-    setFilters((prev) => ({
-      ...prev,
-      [name]: value,
-    }))
-    setPage(1)
+    setFilter(name as keyof typeof FILTER_SCHEMA, value)
   }
 
-  const handleReset = () => {
-    setFilters({
-      dataType: '',
-      deviceType: '',
-      validationStatus: '',
-      userAddress: '',
+  const openRecord = (recordId: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      next.set('record', recordId)
+      return next
     })
-    setPage(1)
   }
 
+  const closeRecord = useCallback(() => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      next.delete('record')
+      return next
+    })
+  }, [setSearchParams])
+
   const renderTable = () => {
-    if (loading) {
+    if (recordsQuery.loading) {
       return <SkeletonTable rows={6} columns={7} />
     }
 
-    if (error) {
-      return <ErrorState message={error} onRetry={loadRecords} />
+    if (recordsQuery.error) {
+      return <ErrorState error={recordsQuery.error} onRetry={recordsQuery.refetch} />
     }
 
     if (!records.length) {
@@ -122,7 +179,7 @@ function HealthRecords() {
           title="No records found"
           description="Adjust the filters to see more health data."
           actionLabel="Clear filters"
-          onAction={handleReset}
+          onAction={resetFilters}
         />
       )
     }
@@ -144,8 +201,23 @@ function HealthRecords() {
             </thead>
             <tbody>
               {records.map((record) => (
-                <tr key={record.recordId}>
-                  <td className="mono">{record.recordId}</td>
+                <tr
+                  key={record.recordId}
+                  className={`clickable-row${record.recordId === selectedRecordId ? ' selected' : ''}`}
+                  onClick={() => openRecord(record.recordId)}
+                >
+                  <td className="mono">
+                    <button
+                      className="link-button"
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        openRecord(record.recordId)
+                      }}
+                    >
+                      {record.recordId}
+                    </button>
+                  </td>
                   <td className="address-short">{shortenAddress(record.userAddress)}</td>
                   <td>{record.dataType.replace(/_/g, ' ')}</td>
                   <td>
@@ -169,6 +241,23 @@ function HealthRecords() {
     )
   }
 
+  const renderActivity = () => {
+    if (timeSeriesQuery.loading) {
+      return <LoadingState label="Loading activity..." />
+    }
+
+    if (timeSeriesQuery.error) {
+      return <ErrorState error={timeSeriesQuery.error} onRetry={timeSeriesQuery.refetch} />
+    }
+
+    return (
+      <RecordActivityChart
+        title="Health records submitted over time"
+        timeSeries={timeSeriesQuery.data}
+      />
+    )
+  }
+
   const topDevice = stats
     ? Object.entries(stats.byDeviceType || {}).sort((a, b) => b[1] - a[1])[0]?.[0]
     : null
@@ -210,51 +299,104 @@ function HealthRecords() {
         </div>
       ) : null}
 
+      <div className="card chart-card">
+        <div className="card-header">
+          <h3>Record Activity</h3>
+          <div className="card-header-meta">
+            <span className="card-subtitle">
+              {range.start
+                ? `${chartRange.start} – ${chartRange.end || 'today'}`
+                : `Last ${DEFAULT_CHART_DAYS} days`}
+            </span>
+            <select
+              aria-label="Group activity by"
+              value={groupBy}
+              onChange={(event) => setGroupBy(event.target.value as HealthRecordGroupBy | '')}
+            >
+              {GROUP_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {renderActivity()}
+      </div>
+
       <div className="card table-card">
         <div className="section-header">
           <h2>Record Feed</h2>
-          <button className="btn btn-secondary" type="button" onClick={handleReset}>
-            Reset filters
-          </button>
+          <div className="section-actions">
+            <ExportControl
+              filename="health-records"
+              columns={EXPORT_COLUMNS}
+              fetchPage={fetchExportPage}
+              rowKey={(record) => record.recordId}
+            />
+            <button className="btn btn-secondary" type="button" onClick={resetFilters}>
+              Reset filters
+            </button>
+          </div>
         </div>
-        <div className="filters">
-          <select name="dataType" value={filters.dataType} onChange={handleFilterChange}>
-            <option value="">All data types</option>
-            {dataTypes.map((type) => (
-              <option key={type} value={type}>
-                {type.replace(/_/g, ' ')}
-              </option>
-            ))}
-          </select>
-          <select name="deviceType" value={filters.deviceType} onChange={handleFilterChange}>
-            <option value="">All devices</option>
-            {deviceTypes.map((device) => (
-              <option key={device} value={device}>
-                {device.replace(/_/g, ' ')}
-              </option>
-            ))}
-          </select>
-          <select
-            name="validationStatus"
+        <div className="chip-filters">
+          <ChipFilter
+            label="Data type"
+            options={dataTypes}
+            value={filters.dataType}
+            onChange={(value) => setFilter('dataType', value)}
+            formatOption={(type) => type.replace(/_/g, ' ')}
+          />
+          <ChipFilter
+            label="Device"
+            options={deviceTypes}
+            value={filters.deviceType}
+            onChange={(value) => setFilter('deviceType', value)}
+            formatOption={(device) => device.replace(/_/g, ' ')}
+          />
+          <ChipFilter
+            label="Status"
+            options={VALIDATION_STATUSES}
             value={filters.validationStatus}
-            onChange={handleFilterChange}
-          >
-            <option value="">All statuses</option>
-            {VALIDATION_STATUSES.map((status) => (
-              <option key={status} value={status}>
-                {status}
-              </option>
-            ))}
-          </select>
+            onChange={(value) => setFilter('validationStatus', value)}
+          />
+        </div>
+        <div className="filters">
           <input
             name="userAddress"
             value={filters.userAddress}
             onChange={handleFilterChange}
             placeholder="Search by user address"
           />
+          <input
+            type="number"
+            name="minValue"
+            min="0"
+            value={filters.minValue}
+            onChange={handleFilterChange}
+            placeholder="Min value"
+          />
+          <input
+            type="number"
+            name="maxValue"
+            min="0"
+            value={filters.maxValue}
+            onChange={handleFilterChange}
+            placeholder="Max value"
+          />
+          <DateRangePicker
+            label="Record date range"
+            value={range}
+            onChange={handleRangeChange}
+            allowAll
+          />
         </div>
         {renderTable()}
       </div>
+
+      {selectedRecordId ? (
+        <HealthRecordDrawer recordId={selectedRecordId} onClose={closeRecord} />
+      ) : null}
     </div>
   )
 }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import NodeDetail from './NodeDetail'
+import { nodes, page, stakers } from '../test/fixtures'
+import { json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+const renderNode = (nodeId: string) =>
+  renderPage(<NodeDetail />, { route: `/nodes/${nodeId}`, path: '/nodes/:nodeId' })
+
+describe('NodeDetail page', () => {
+  it('shows a spinner while the node loads', () => {
+    mockApi.on('/nodes/:nodeId', pending())
+    renderNode(nodes[0].nodeId)
+
+    expect(screen.getByText('Loading node...')).toBeTruthy()
+  })
+
+  it('reports a node that does not exist', async () => {
+    renderNode('NODE-999999')
+
+    expect(await screen.findByText('Node not found')).toBeTruthy()
+    expect(screen.getByText('This node is not registered on the network.')).toBeTruthy()
+  })
+
+  it('explains a node without stakers or rewards', async () => {
+    mockApi.on('/stakers', json(page([])))
+    mockApi.on('/nodes/:nodeId/rewards', json([]))
+    renderNode(nodes[0].nodeId)
+
+    expect(await screen.findByText('No delegated stakers')).toBeTruthy()
+    expect(screen.getByText('No epoch rewards')).toBeTruthy()
+  })
+
+  it('shows the profile, delegated stakers and epoch rewards', async () => {
+    renderNode(nodes[0].nodeId)
+
+    expect(await screen.findByRole('heading', { name: nodes[0].nodeId })).toBeTruthy()
+    expect(screen.getByText(nodes[0].operatorAddress)).toBeTruthy()
+    expect(await screen.findByRole('link', { name: stakers[0].stakerId })).toBeTruthy()
+    expect(screen.queryByRole('link', { name: stakers[1].stakerId })).toBeNull()
+    expect(screen.getByRole('link', { name: '#1' })).toBeTruthy()
+    expect(screen.getByRole('link', { name: '#2' })).toBeTruthy()
+    expect(mockApi.requestsTo('/stakers')[0].query.get('delegatedTo')).toBe(nodes[0].nodeId)
+  })
+})
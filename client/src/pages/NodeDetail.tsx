@@ -0,0 +1,282 @@
+import { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { getNodeById, getNodeRewards, getStakers } from '../api'
+import { ApiClientError } from '../api/errors'
+import {
+  formatDateTime,
+  formatNumber,
+  formatPercent,
+  formatRelativeTime,
+  formatTokenAmount,
+  getStatusClass,
+  shortenAddress,
+} from '../utils/format'
+import EmptyState from '../components/EmptyState'
+import ErrorState from '../components/ErrorState'
+import LoadingState from '../components/LoadingState'
+import Pagination from '../components/Pagination'
+import SkeletonTable from '../components/SkeletonTable'
+import StatCard from '../components/StatCard'
+import { useQuery } from '../hooks/useQuery'
+import type { StakerListParams } from '../types'
+
+function NodeDetail() {
+  const { nodeId = '' } = useParams()
+  // Tagged with the node so that moving to another node starts on page 1
+  const [stakerPageState, setStakerPageState] = useState({ nodeId, page: 1 })
+  const stakerPage = stakerPageState.nodeId === nodeId ? stakerPageState.page : 1
+  const setStakerPage = (page: number) => setStakerPageState({ nodeId, page })
+
+  const nodeQuery = useQuery([`/nodes/${nodeId}`], (options) => getNodeById(nodeId, options))
+  const rewardsQuery = useQuery([`/nodes/${nodeId}/rewards`], (options) =>
+    getNodeRewards(nodeId, options),
+  )
+
+  const stakerParams: StakerListParams = {
+    page: stakerPage,
+    limit: 10,
+    delegatedTo: nodeId,
+    sortBy: 'stakedAmount',
+    sortOrder: 'desc',
+  }
+  const stakersQuery = useQuery(['/stakers', stakerParams], (options) =>
+    getStakers(stakerParams, options),
+  )
+  const stakers = stakersQuery.data?.data || []
+  const stakerPagination = stakersQuery.data?.pagination || null
+
+  const node = nodeQuery.data
+  const rewards = rewardsQuery.data || []
+  const error = nodeQuery.error || rewardsQuery.error
+  const notFound = nodeQuery.error instanceof ApiClientError && nodeQuery.error.status === 404
+
+  const loadNode = () => {
+    nodeQuery.refetch()
+    rewardsQuery.refetch()
+  }
+
+  if (nodeQuery.loading || rewardsQuery.loading) {
+    return <LoadingState label="Loading node..." />
+  }
+
+  if (notFound) {
+    return (
+      <EmptyState
+        title="Node not found"
+        description="This node is not registered on the network."
+        actionLabel="Refresh"
+        onAction={loadNode}
+      />
+    )
+  }
+
+  if (error) {
+    return <ErrorState error={error} onRetry={loadNode} />
+  }
+
+  const successful = node.validationsSuccessful ?? 0
+  const failed = node.validationsFailed ?? 0
+  const successRate = successful + failed ? (successful / (successful + failed)) * 100 : 0
+  const epochRewardsTotal = rewards.reduce((sum, item) => sum + Number.parseFloat(item.reward), 0)
+
+  const detailItems = [
+    { label: 'Operator address', value: node.operatorAddress || '-', mono: true },
+    { label: 'Node type', value: node.nodeType.replace(/_/g, ' ') },
+    { label: 'Region', value: node.region.replace(/-/g, ' ') },
+    { label: 'Registered', value: formatDateTime(node.registeredAt) },
+    {
+      label: 'Last heartbeat',
+      value: `${formatDateTime(node.lastHeartbeat)} (${formatRelativeTime(node.lastHeartbeat)})`,
+    },
+    { label: 'Slashing events', value: formatNumber(node.slashingEvents) },
+    { label: 'Client version', value: node.metadata?.version || '-' },
+    { label: 'Hardware', value: node.metadata?.hardware?.replace(/-/g, ' ') || '-' },
+    {
+      label: 'Bandwidth',
+      value: node.metadata?.bandwidth ? `${formatNumber(node.metadata.bandwidth)} Mbps` : '-',
+    },
+  ]
+
+  const renderStakers = () => {
+    if (stakersQuery.loading) {
+      return <SkeletonTable rows={4} columns={5} />
+    }
+
+    if (stakersQuery.error) {
+      return <ErrorState error={stakersQuery.error} onRetry={stakersQuery.refetch} />
+    }
+
+    if (!stakers.length) {
+      return (
+        <EmptyState
+          title="No delegated stakers"
+          description="No stakers currently delegate to this node."
+        />
+      )
+    }
+
+    return (
+      <>
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Staker ID</th>
+                <th>Wallet</th>
+                <th>Staked</th>
+                <th>Multiplier</th>
+                <th>Lock Period</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stakers.map((staker) => (
+                <tr key={staker.stakerId}>
+                  <td className="mono">
+                    <Link className="table-link" to={`/staking/${staker.stakerId}`}>
+                      {staker.stakerId}
+                    </Link>
+                  </td>
+                  <td className="address-short">{shortenAddress(staker.walletAddress)}</td>
+                  <td>{formatTokenAmount(staker.stakedAmount)}</td>
+                  <td>{formatNumber(staker.stakingMultiplier, 2)}x</td>
+                  <td>{staker.lockPeriod} days</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <Pagination pagination={stakerPagination} onPageChange={setStakerPage} />
+      </>
+    )
+  }
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <div>
+          <p className="page-kicker">
+            <Link className="breadcrumb-link" to="/nodes">
+              DePIN Nodes
+            </Link>
+          </p>
+          <h1 className="page-title mono-title">{node.nodeId}</h1>
+          <p className="page-subtitle">
+            <span className={`badge ${getStatusClass(node.status)}`}>{node.status}</span>{' '}
+            {node.nodeType.replace(/_/g, ' ')} node in {node.region.replace(/-/g, ' ')}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid-4 stats-grid">
+        <StatCard
+          label="Staked"
+          value={formatTokenAmount(node.stakedAmount)}
+          note={`${formatNumber(stakerPagination?.totalItems)} delegated stakers`}
+        />
+        <StatCard
+          label="Rewards Earned"
+          value={formatTokenAmount(node.totalRewardsEarned)}
+          note={`${formatNumber(rewards.length)} epochs with rewards`}
+        />
+        <StatCard label="Uptime" value={formatPercent(node.uptime)} note="Rolling average" />
+        <StatCard
+          label="Validations"
+          value={formatNumber(node.validationsPerformed)}
+          note={`${formatPercent(successRate)} successful`}
+        />
+      </div>
+
+      <div className="grid-2">
+        <div className="card">
+          <div className="card-header">
+            <h3>Node Profile</h3>
+            <span className="card-subtitle">Registration and hardware</span>
+          </div>
+          <div className="detail-list">
+            {detailItems.map((item) => (
+              <div className="detail-item" key={item.label}>
+                <span>{item.label}</span>
+                <strong className={item.mono ? 'address' : undefined}>{item.value}</strong>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="card health-card">
+          <div className="card-header">
+            <h3>Validation Split</h3>
+            <span className="health-score">{formatPercent(successRate, 1)}</span>
+          </div>
+          <div className="health-meter">
+            <div className="health-meter-fill" style={{ width: `${successRate}%` }} />
+          </div>
+          <div className="health-meta">
+            <div>
+              <span>Successful</span>
+              <strong>{formatNumber(successful)}</strong>
+            </div>
+            <div>
+              <span>Failed</span>
+              <strong>{formatNumber(failed)}</strong>
+            </div>
+            <div>
+              <span>Slashing events</span>
+              <strong>{formatNumber(node.slashingEvents)}</strong>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="card table-card">
+        <div className="section-header">
+          <h2>Delegated Stakers</h2>
+        </div>
+        {renderStakers()}
+      </div>
+
+      <div className="card table-card">
+        <div className="section-header">
+          <h2>Epoch Rewards</h2>
+          <span className="card-subtitle">Total: {formatTokenAmount(epochRewardsTotal)}</span>
+        </div>
+        {rewards.length ? (
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Epoch</th>
+                  <th>Period</th>
+                  <th>Reward</th>
+                  <th>Validations</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...rewards].reverse().map((item) => (
+                  <tr key={item.epochNumber}>
+                    <td className="mono">
+                      <Link className="table-link" to={`/epochs/${item.epochNumber}`}>
+                        #{item.epochNumber}
+                      </Link>
+                    </td>
+                    <td>
+                      {formatDateTime(item.startTime)} – {formatDateTime(item.endTime)}
+                    </td>
+                    <td>{formatTokenAmount(item.reward)}</td>
+                    <td>{formatNumber(item.validations)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <EmptyState
+            title="No epoch rewards"
+            description="This node has not earned rewards in any recorded epoch."
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default NodeDetail
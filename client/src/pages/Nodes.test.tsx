@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { fireEvent, screen, waitFor } from '@testing-library/react'
+import Nodes from './Nodes'
+import { nodes, page } from '../test/fixtures'
+import { apiError, json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+describe('Nodes page', () => {
+  it('shows a skeleton while the nodes load', () => {
+    mockApi.on('/nodes', pending())
+
+    const { container } = renderPage(<Nodes />)
+
+    expect(container.querySelector('.table-skeleton')).not.toBeNull()
+  })
+
+  it('shows why the request failed', async () => {
+    mockApi.on('/nodes', apiError(400, 'minUptime must be a number'))
+    renderPage(<Nodes />)
+
+    expect(await screen.findByText('The request was rejected')).toBeTruthy()
+    expect(screen.getByText('minUptime must be a number (HTTP 400)')).toBeTruthy()
+  })
+
+  it('offers a retry when the server times out the request', async () => {
+    mockApi.on('/nodes', apiError(408, 'Request timeout'))
+    renderPage(<Nodes />)
+
+    // Shown once the automatic retries have failed too
+    expect(
+      await screen.findByText('The server is taking too long', {}, { timeout: 5000 }),
+    ).toBeTruthy()
+    expect(screen.getByRole('button', { name: 'Try again' })).toBeTruthy()
+  })
+
+  it('loads again on retry after an unexpected response', async () => {
+    mockApi.on('/nodes', json({ data: null }))
+    renderPage(<Nodes />)
+
+    expect(await screen.findByText('Unexpected response from the API')).toBeTruthy()
+
+    mockApi.reset()
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }))
+
+    expect(await screen.findByText(nodes[0].nodeId)).toBeTruthy()
+  })
+
+  it('offers to clear the filters when no nodes match', async () => {
+    mockApi.on('/nodes', json(page([])))
+    renderPage(<Nodes />, { route: '/nodes?status=SLASHED' })
+
+    expect(await screen.findByText('No nodes matched')).toBeTruthy()
+    expect(screen.getByRole('button', { name: 'Clear filters' })).toBeTruthy()
+  })
+
+  it('lists the nodes with the network stats', async () => {
+    renderPage(<Nodes />, { route: '/nodes?status=ACTIVE,SLASHED' })
+
+    for (const node of nodes) {
+      expect(await screen.findByRole('link', { name: node.nodeId })).toBeTruthy()
+    }
+    expect(screen.getByText('Total Nodes')).toBeTruthy()
+    expect(mockApi.requestsTo('/nodes')[0].query.get('status')).toBe('ACTIVE,SLASHED')
+  })
+
+  it('drops unknown regions from the URL', async () => {
+    renderPage(<Nodes />, { route: '/nodes?region=EU-WEST,MOON' })
+
+    expect(await screen.findByRole('link', { name: nodes[0].nodeId })).toBeTruthy()
+    expect(mockApi.requestsTo('/nodes')[0].query.get('region')).toBe('EU-WEST')
+  })
+
+  it('requests the uptime range once typing stops', async () => {
+    renderPage(<Nodes />)
+    await screen.findByRole('link', { name: nodes[0].nodeId })
+    const requests = mockApi.requestsTo('/nodes').length
+
+    const input = screen.getByPlaceholderText('Min uptime %')
+    fireEvent.change(input, { target: { value: '9' } })
+    fireEvent.change(input, { target: { value: '95' } })
+
+    expect(mockApi.requestsTo('/nodes')).toHaveLength(requests)
+    await waitFor(() => expect(mockApi.requestsTo('/nodes')).toHaveLength(requests + 1))
+    expect(mockApi.requestsTo('/nodes')[requests].query.get('minUptime')).toBe('95')
+  })
+})
@@ -1,111 +1,107 @@
-import { useEffect, useState, type ChangeEvent } from 'react'
+import type { ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
 import { getNodes, getNodeStats } from '../api'
+import { STALE_TIMES } from '../api/cache'
 import {
   formatNumber,
   formatPercent,
   formatTokenAmount,
   getStatusClass,
 } from '../utils/format'
+import ChipFilter from '../components/ChipFilter'
 import EmptyState from '../components/EmptyState'
 import ErrorState from '../components/ErrorState'
+import ExportControl from '../components/ExportControl'
 import Pagination from '../components/Pagination'
 import SkeletonTable from '../components/SkeletonTable'
 import StatCard from '../components/StatCard'
-import type { Node, NodeStats, Pagination as PaginationType } from '../types'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useQuery } from '../hooks/useQuery'
+import { SORT_ORDERS, useUrlFilters, type FilterSchema } from '../hooks/useUrlFilters'
+import type { ExportColumn, PageFetcher } from '../utils/export'
+import { toNumericRange } from '../utils/filters'
+import type {
+  Node,
+  NodeListParams,
+  NodeSortField,
+  NodeStatus,
+  NodeType,
+  Region,
+} from '../types'
 
-const STATUS_OPTIONS = ['ACTIVE', 'INACTIVE', 'PENDING', 'SLASHED']
-const NODE_TYPES = ['VALIDATOR', 'LIGHT', 'RELAY', 'ARCHIVE']
-const SORT_FIELDS = [
+const STATUS_OPTIONS: NodeStatus[] = ['ACTIVE', 'INACTIVE', 'PENDING', 'SLASHED']
+const NODE_TYPES: NodeType[] = ['VALIDATOR', 'LIGHT', 'RELAY', 'ARCHIVE']
+const REGIONS: Region[] = ['NA-EAST', 'NA-WEST', 'EU-WEST', 'EU-EAST', 'ASIA-PACIFIC', 'LATAM']
+const SORT_FIELDS: Array<{ value: NodeSortField; label: string }> = [
   { value: 'stakedAmount', label: 'Stake' },
   { value: 'uptime', label: 'Uptime' },
   { value: 'totalRewardsEarned', label: 'Rewards' },
   { value: 'validationsPerformed', label: 'Validations' },
 ]
 
+const FILTER_SCHEMA = {
+  status: { multiple: true, options: STATUS_OPTIONS },
+  nodeType: { multiple: true, options: NODE_TYPES },
+  region: { multiple: true, options: REGIONS },
+  minUptime: { numeric: true, text: true },
+  maxUptime: { numeric: true, text: true },
+  sortBy: { defaultValue: 'stakedAmount', options: SORT_FIELDS.map((field) => field.value) },
+  sortOrder: { defaultValue: 'desc', options: SORT_ORDERS },
+} satisfies FilterSchema
+
+const EXPORT_COLUMNS: ExportColumn<Node>[] = [
+  { header: 'Node ID', value: (node) => node.nodeId },
+  { header: 'Type', value: (node) => node.nodeType },
+  { header: 'Region', value: (node) => node.region },
+  { header: 'Status', value: (node) => node.status },
+  { header: 'Uptime', value: (node) => node.uptime },
+  { header: 'Stake', value: (node) => node.stakedAmount },
+  { header: 'Validations', value: (node) => node.validationsPerformed },
+]
+
 function Nodes() {
-  const [nodes, setNodes] = useState<Node[]>([])
-  const [pagination, setPagination] = useState<PaginationType | null>(null)
-  const [stats, setStats] = useState<NodeStats | null>(null)
-  const [filters, setFilters] = useState({
-    status: '',
-    nodeType: '',
-    region: '',
-    sortBy: 'stakedAmount',
-    sortOrder: 'desc',
+  const { filters, page, setFilter, setPage, resetFilters } = useUrlFilters(FILTER_SCHEMA)
+
+  const { data: stats } = useQuery(['/nodes/stats'], getNodeStats, {
+    staleTime: STALE_TIMES.stats,
   })
-  const [page, setPage] = useState(1)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
-
-  const loadStats = async () => {
-    try {
-      const statsData = await getNodeStats()
-      setStats(statsData)
-    } catch (err) {
-      console.error('Failed to load node stats', err)
-    }
-  }
 
-  const loadNodes = async () => {
-    setLoading(true)
-    setError('')
-    try {
-      const response = await getNodes({
-        page,
-        limit: 12,
-        status: filters.status,
-        nodeType: filters.nodeType,
-        region: filters.region,
-        sortBy: filters.sortBy,
-        sortOrder: filters.sortOrder,
-      })
-      setNodes(response.data)
-      setPagination(response.pagination)
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load nodes.'
-      setError(errorMessage)
-    } finally {
-      setLoading(false)
-    }
+  const minUptime = useDebouncedValue(filters.minUptime)
+  const maxUptime = useDebouncedValue(filters.maxUptime)
+  const uptime = toNumericRange(minUptime, maxUptime)
+  const nodeParams: NodeListParams = {
+    page,
+    limit: 12,
+    status: filters.status,
+    nodeType: filters.nodeType,
+    region: filters.region,
+    minUptime: uptime.min,
+    maxUptime: uptime.max,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
   }
-
-  useEffect(() => {
-    loadStats()
-  }, [])
-
-  useEffect(() => {
-    loadNodes()
-  }, [page, filters])
+  const nodesQuery = useQuery(['/nodes', nodeParams], (options) =>
+    getNodes(nodeParams, options),
+  )
+  const nodes = nodesQuery.data?.data || []
+  const fetchExportPage: PageFetcher<Node> = (exportPage, limit, options) =>
+    getNodes({ ...nodeParams, page: exportPage, limit }, options)
+  const pagination = nodesQuery.data?.pagination || null
 
   const handleFilterChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = event.target
-    setFilters((prev) => ({
-      ...prev,
-      [name]: value,
-    }))
-    setPage(1)
-  }
-
-  const handleReset = () => {
-    setFilters({
-      status: '',
-      nodeType: '',
-      region: '',
-      sortBy: 'stakedAmount',
-      sortOrder: 'desc',
-    })
-    setPage(1)
+    setFilter(name as keyof typeof FILTER_SCHEMA, value)
   }
 
   const regionOptions = stats ? Object.keys(stats.byRegion).sort() : []
 
   const renderTable = () => {
-    if (loading) {
+    if (nodesQuery.loading) {
       return <SkeletonTable rows={6} columns={7} />
     }
 
-    if (error) {
-      return <ErrorState message={error} onRetry={loadNodes} />
+    if (nodesQuery.error) {
+      return <ErrorState error={nodesQuery.error} onRetry={nodesQuery.refetch} />
     }
 
     if (!nodes.length) {
@@ -114,7 +110,7 @@ function Nodes() {
           title="No nodes matched"
           description="Try different filters or clear the current selections."
           actionLabel="Clear filters"
-          onAction={handleReset}
+          onAction={resetFilters}
         />
       )
     }
@@ -137,7 +133,11 @@ function Nodes() {
             <tbody>
               {nodes.map((node) => (
                 <tr key={node.nodeId}>
-                  <td className="mono">{node.nodeId}</td>
+                  <td className="mono">
+                    <Link className="table-link" to={`/nodes/${node.nodeId}`}>
+                      {node.nodeId}
+                    </Link>
+                  </td>
                   <td>{node.nodeType.replace(/_/g, ' ')}</td>
                   <td>{node.region.replace(/-/g, ' ')}</td>
                   <td>
@@ -198,35 +198,58 @@ function Nodes() {
       <div className="card table-card">
         <div className="section-header">
           <h2>Node Directory</h2>
-          <button className="btn btn-secondary" type="button" onClick={handleReset}>
-            Reset filters
-          </button>
+          <div className="section-actions">
+            <ExportControl
+              filename="nodes"
+              columns={EXPORT_COLUMNS}
+              fetchPage={fetchExportPage}
+              rowKey={(node) => node.nodeId}
+            />
+            <button className="btn btn-secondary" type="button" onClick={resetFilters}>
+              Reset filters
+            </button>
+          </div>
+        </div>
+        <div className="chip-filters">
+          <ChipFilter
+            label="Status"
+            options={STATUS_OPTIONS}
+            value={filters.status}
+            onChange={(value) => setFilter('status', value)}
+          />
+          <ChipFilter
+            label="Node type"
+            options={NODE_TYPES}
+            value={filters.nodeType}
+            onChange={(value) => setFilter('nodeType', value)}
+          />
+          <ChipFilter
+            label="Region"
+            options={regionOptions}
+            value={filters.region}
+            onChange={(value) => setFilter('region', value)}
+            formatOption={(region) => region.replace(/-/g, ' ')}
+          />
         </div>
         <div className="filters">
-          <select name="status" value={filters.status} onChange={handleFilterChange}>
-            <option value="">All statuses</option>
-            {STATUS_OPTIONS.map((status) => (
-              <option key={status} value={status}>
-                {status}
-              </option>
-            ))}
-          </select>
-          <select name="nodeType" value={filters.nodeType} onChange={handleFilterChange}>
-            <option value="">All node types</option>
-            {NODE_TYPES.map((type) => (
-              <option key={type} value={type}>
-                {type}
-              </option>
-            ))}
-          </select>
-          <select name="region" value={filters.region} onChange={handleFilterChange}>
-            <option value="">All regions</option>
-            {regionOptions.map((region) => (
-              <option key={region} value={region}>
-                {region.replace(/-/g, ' ')}
-              </option>
-            ))}
-          </select>
+          <input
+            type="number"
+            name="minUptime"
+            min="0"
+            max="100"
+            value={filters.minUptime}
+            onChange={handleFilterChange}
+            placeholder="Min uptime %"
+          />
+          <input
+            type="number"
+            name="maxUptime"
+            min="0"
+            max="100"
+            value={filters.maxUptime}
+            onChange={handleFilterChange}
+            placeholder="Max uptime %"
+          />
           <select name="sortBy" value={filters.sortBy} onChange={handleFilterChange}>
             {SORT_FIELDS.map((field) => (
               <option key={field.value} value={field.value}>
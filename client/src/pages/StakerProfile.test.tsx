@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import StakerProfile from './StakerProfile'
+import { page, stakerDetail, stakers, transactions } from '../test/fixtures'
+import { json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+import { shortenHash } from '../utils/format'
+
+const renderStaker = (stakerId: string) =>
+  renderPage(<StakerProfile />, { route: `/staking/${stakerId}`, path: '/staking/:stakerId' })
+
+describe('StakerProfile page', () => {
+  it('shows a spinner while the staker loads', () => {
+    mockApi.on('/stakers/:stakerId', pending())
+    renderStaker(stakers[0].stakerId)
+
+    expect(screen.getByText('Loading staker...')).toBeTruthy()
+  })
+
+  it('reports a staker that does not exist', async () => {
+    renderStaker('STAKER-9999999')
+
+    expect(await screen.findByText('Not found')).toBeTruthy()
+    expect(screen.getByText('Staker not found')).toBeTruthy()
+  })
+
+  it('explains a staker without a delegation or transactions', async () => {
+    const { delegatedTo, ...undelegated } = stakers[1]
+    mockApi.on('/stakers/:stakerId', json({ ...undelegated, delegatedNode: null }))
+    mockApi.on('/transactions', json(page([])))
+    renderStaker(stakers[1].stakerId)
+
+    expect(await screen.findByText('Not delegated')).toBeTruthy()
+    expect(await screen.findByText('No transactions')).toBeTruthy()
+    expect(screen.queryByRole('link', { name: delegatedTo })).toBeNull()
+  })
+
+  it('shows the position, delegation and wallet transactions', async () => {
+    const staker = stakerDetail(stakers[0])
+    renderStaker(staker.stakerId)
+
+    expect(await screen.findByRole('heading', { name: staker.stakerId })).toBeTruthy()
+    expect(screen.getByRole('link', { name: staker.delegatedNode.nodeId })).toBeTruthy()
+    expect(
+      await screen.findByRole('link', { name: shortenHash(transactions[0].txHash) }),
+    ).toBeTruthy()
+    expect(mockApi.requestsTo('/transactions')[0].query.get('address')).toBe(staker.walletAddress)
+  })
+})
@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { getStakerById, getTransactions } from '../api'
+import {
+  formatCountdown,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatPercent,
+  formatTokenAmount,
+  getStatusClass,
+  shortenAddress,
+  shortenHash,
+} from '../utils/format'
+import EmptyState from '../components/EmptyState'
+import ErrorState from '../components/ErrorState'
+import LoadingState from '../components/LoadingState'
+import Pagination from '../components/Pagination'
+import SkeletonTable from '../components/SkeletonTable'
+import StatCard from '../components/StatCard'
+import { useQuery } from '../hooks/useQuery'
+import type { TransactionListParams } from '../types'
+
+function StakerProfile() {
+  const { stakerId = '' } = useParams()
+  const [txPage, setTxPage] = useState(1)
+  const [now, setNow] = useState(Date.now())
+
+  const {
+    data: staker,
+    error,
+    loading,
+    refetch: loadStaker,
+  } = useQuery([`/stakers/${stakerId}`], (options) =>
+    getStakerById(stakerId, options),
+  )
+
+  const txParams: TransactionListParams = {
+    page: txPage,
+    limit: 10,
+    address: staker?.walletAddress,
+    sortBy: 'timestamp',
+    sortOrder: 'desc',
+  }
+  const transactionsQuery = useQuery(
+    staker ? ['/transactions', txParams] : null,
+    (options) => getTransactions(txParams, options),
+  )
+  const transactions = transactionsQuery.data?.data || []
+  const txPagination = transactionsQuery.data?.pagination || null
+
+  useEffect(() => {
+    setTxPage(1)
+  }, [stakerId])
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60000)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  if (loading) {
+    return <LoadingState label="Loading staker..." />
+  }
+
+  if (error) {
+    return <ErrorState error={error} onRetry={loadStaker} />
+  }
+
+  if (!staker) {
+    return (
+      <EmptyState
+        title="Staker not found"
+        description="No staking position exists for this ID."
+        actionLabel="Refresh"
+        onAction={loadStaker}
+      />
+    )
+  }
+
+  const pending = Number.parseFloat(staker.pendingRewards)
+  const claimed = Number.parseFloat(staker.claimedRewards)
+  const claimedShare = pending + claimed ? (claimed / (pending + claimed)) * 100 : 0
+  const lockStart = staker.unlockTime - staker.lockPeriod * 24 * 60 * 60 * 1000
+  const lockElapsed = Math.min(100, Math.max(0, ((now - lockStart) / (staker.unlockTime - lockStart)) * 100))
+  const walletAddress = staker.walletAddress.toLowerCase()
+
+  const renderTransactions = () => {
+    if (transactionsQuery.loading) {
+      return <SkeletonTable rows={4} columns={6} />
+    }
+
+    if (transactionsQuery.error) {
+      return (
+        <ErrorState
+          error={transactionsQuery.error}
+          onRetry={transactionsQuery.refetch}
+        />
+      )
+    }
+
+    if (!transactions.length) {
+      return (
+        <EmptyState
+          title="No transactions"
+          description="This wallet has no recorded transactions on the ledger."
+        />
+      )
+    }
+
+    return (
+      <>
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Hash</th>
+                <th>Type</th>
+                <th>Direction</th>
+                <th>Counterparty</th>
+                <th>Amount</th>
+                <th>Status</th>
+                <th>Timestamp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map((tx) => {
+                const outgoing = tx.from.toLowerCase() === walletAddress
+                return (
+                  <tr key={tx.txHash}>
+                    <td className="mono">
+                      <Link className="table-link" to={`/transactions/${tx.txHash}`}>
+                        {shortenHash(tx.txHash)}
+                      </Link>
+                    </td>
+                    <td>{tx.txType.replace(/_/g, ' ')}</td>
+                    <td>{outgoing ? 'Out' : 'In'}</td>
+                    <td className="address-short">{shortenAddress(outgoing ? tx.to : tx.from)}</td>
+                    <td>{formatTokenAmount(tx.amount)}</td>
+                    <td>
+                      <span className={`badge ${getStatusClass(tx.status)}`}>{tx.status}</span>
+                    </td>
+                    <td>{formatDateTime(tx.timestamp)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+        <Pagination pagination={txPagination} onPageChange={setTxPage} />
+      </>
+    )
+  }
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <div>
+          <p className="page-kicker">
+            <Link className="breadcrumb-link" to="/staking">
+              Staking Hub
+            </Link>
+          </p>
+          <h1 className="page-title mono-title">{staker.stakerId}</h1>
+          <p className="page-subtitle address">{staker.walletAddress}</p>
+        </div>
+      </div>
+
+      <div className="grid-4 stats-grid">
+        <StatCard
+          label="Staked"
+          value={formatTokenAmount(staker.stakedAmount)}
+          note={`${staker.lockPeriod} day lock`}
+        />
+        <StatCard
+          label="Multiplier"
+          value={`${formatNumber(staker.stakingMultiplier, 2)}x`}
+          note="Lock period bonus"
+        />
+        <StatCard
+          label="Pending Rewards"
+          value={formatTokenAmount(staker.pendingRewards)}
+          note="Awaiting claim"
+        />
+        <StatCard
+          label="Claimed Rewards"
+          value={formatTokenAmount(staker.claimedRewards)}
+          note={`${formatPercent(claimedShare, 1)} of total earned`}
+        />
+      </div>
+
+      <div className="grid-2">
+        <div className="card health-card">
+          <div className="card-header">
+            <h3>Lock Countdown</h3>
+            <span className="health-score">{formatCountdown(staker.unlockTime, now)}</span>
+          </div>
+          <div className="health-meter">
+            <div className="health-meter-fill" style={{ width: `${lockElapsed}%` }} />
+          </div>
+          <div className="health-meta">
+            <div>
+              <span>Lock period</span>
+              <strong>{staker.lockPeriod} days</strong>
+            </div>
+            <div>
+              <span>Unlocks</span>
+              <strong>{formatDate(staker.unlockTime)}</strong>
+            </div>
+            <div>
+              <span>Elapsed</span>
+              <strong>{formatPercent(lockElapsed, 1)}</strong>
+            </div>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <h3>Delegation</h3>
+            <span className="card-subtitle">Node securing this stake</span>
+          </div>
+          {staker.delegatedNode ? (
+            <div className="detail-list">
+              <div className="detail-item">
+                <span>Node</span>
+                <strong>
+                  <Link className="table-link mono" to={`/nodes/${staker.delegatedNode.nodeId}`}>
+                    {staker.delegatedNode.nodeId}
+                  </Link>
+                </strong>
+              </div>
+              <div className="detail-item">
+                <span>Type</span>
+                <strong>{staker.delegatedNode.nodeType.replace(/_/g, ' ')}</strong>
+              </div>
+              <div className="detail-item">
+                <span>Status</span>
+                <strong>
+                  <span className={`badge ${getStatusClass(staker.delegatedNode.status)}`}>
+                    {staker.delegatedNode.status}
+                  </span>
+                </strong>
+              </div>
+              <div className="detail-item">
+                <span>Uptime</span>
+                <strong>{formatPercent(staker.delegatedNode.uptime)}</strong>
+              </div>
+            </div>
+          ) : (
+            <EmptyState
+              title="Not delegated"
+              description="This stake is not delegated to a node."
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="card table-card">
+        <div className="section-header">
+          <h2>Wallet Transactions</h2>
+          <span className="card-subtitle">
+            {formatNumber(txPagination?.totalItems)} total
+          </span>
+        </div>
+        {renderTransactions()}
+      </div>
+    </div>
+  )
+}
+
+export default StakerProfile
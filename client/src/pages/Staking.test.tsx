@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import Staking from './Staking'
+import { page, stakers } from '../test/fixtures'
+import { apiError, json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+describe('Staking page', () => {
+  it('shows a skeleton while the stakers load', () => {
+    mockApi.on('/stakers', pending())
+
+    const { container } = renderPage(<Staking />)
+
+    expect(container.querySelector('.table-skeleton')).not.toBeNull()
+  })
+
+  it('shows why the request failed', async () => {
+    mockApi.on('/stakers', apiError(400, 'minStake cannot be greater than maxStake'))
+    renderPage(<Staking />)
+
+    expect(await screen.findByText('The request was rejected')).toBeTruthy()
+  })
+
+  it('offers to clear the filters when no stakers match', async () => {
+    mockApi.on('/stakers', json(page([])))
+    renderPage(<Staking />, { route: '/staking?minStake=1000000' })
+
+    expect(await screen.findByText('No stakers found')).toBeTruthy()
+    expect(screen.getByRole('button', { name: 'Clear filters' })).toBeTruthy()
+    expect(mockApi.requestsTo('/stakers')[0].query.get('minStake')).toBe('1000000')
+  })
+
+  it('lists the stakers with the staking stats', async () => {
+    renderPage(<Staking />)
+
+    for (const staker of stakers) {
+      expect(await screen.findByRole('link', { name: staker.stakerId })).toBeTruthy()
+    }
+    expect(screen.getByText('Top Stakers')).toBeTruthy()
+  })
+})
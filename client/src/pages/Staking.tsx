@@ -1,5 +1,7 @@
-import { useEffect, useMemo, useState, type ChangeEvent } from 'react'
+import { useMemo, type ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
 import { getStakers, getStakerStats } from '../api'
+import { STALE_TIMES } from '../api/cache'
 import {
   formatCompactNumber,
   formatNumber,
@@ -8,88 +10,74 @@ import {
 } from '../utils/format'
 import EmptyState from '../components/EmptyState'
 import ErrorState from '../components/ErrorState'
+import ExportControl from '../components/ExportControl'
 import Pagination from '../components/Pagination'
+import RewardsCalculator from '../components/RewardsCalculator'
 import SkeletonTable from '../components/SkeletonTable'
+import StakingPosition from '../components/StakingPosition'
 import StatCard from '../components/StatCard'
-import type { Pagination as PaginationType, Staker, StakerStats } from '../types'
+import BarChart from '../components/charts/BarChart'
+import WalletSearch from '../components/WalletSearch'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useQuery } from '../hooks/useQuery'
+import { SORT_ORDERS, useUrlFilters, type FilterSchema } from '../hooks/useUrlFilters'
+import type { ExportColumn, PageFetcher } from '../utils/export'
+import { toNumericRange } from '../utils/filters'
+import type { Staker, StakerListParams, StakerSortField } from '../types'
 
-const SORT_FIELDS = [
+const SORT_FIELDS: Array<{ value: StakerSortField; label: string }> = [
   { value: 'stakedAmount', label: 'Stake' },
   { value: 'pendingRewards', label: 'Pending rewards' },
   { value: 'claimedRewards', label: 'Claimed rewards' },
   { value: 'stakingMultiplier', label: 'Multiplier' },
 ]
 
-function Staking() {
-  const [stakers, setStakers] = useState<Staker[]>([])
-  const [pagination, setPagination] = useState<PaginationType | null>(null)
-  const [stats, setStats] = useState<StakerStats | null>(null)
-  const [filters, setFilters] = useState({
-    minStake: '',
-    maxStake: '',
-    sortBy: 'stakedAmount',
-    sortOrder: 'desc',
-  })
-  const [page, setPage] = useState(1)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
+const FILTER_SCHEMA = {
+  minStake: { numeric: true, text: true },
+  maxStake: { numeric: true, text: true },
+  sortBy: { defaultValue: 'stakedAmount', options: SORT_FIELDS.map((field) => field.value) },
+  sortOrder: { defaultValue: 'desc', options: SORT_ORDERS },
+} satisfies FilterSchema
 
-  const loadStats = async () => {
-    try {
-      const statsData = await getStakerStats()
-      setStats(statsData)
-    } catch (err) {
-      console.error('Failed to load staker stats', err)
-    }
-  }
+const EXPORT_COLUMNS: ExportColumn<Staker>[] = [
+  { header: 'Staker ID', value: (staker) => staker.stakerId },
+  { header: 'Wallet', value: (staker) => staker.walletAddress },
+  { header: 'Staked', value: (staker) => staker.stakedAmount },
+  { header: 'Pending Rewards', value: (staker) => staker.pendingRewards },
+  { header: 'Claimed Rewards', value: (staker) => staker.claimedRewards },
+  { header: 'Multiplier', value: (staker) => staker.stakingMultiplier },
+  { header: 'Lock Period', value: (staker) => staker.lockPeriod },
+]
 
-  const loadStakers = async () => {
-    setLoading(true)
-    setError('')
-    try {
-      const response = await getStakers({
-        page,
-        limit: 12,
-        minStake: filters.minStake,
-        maxStake: filters.maxStake,
-        sortBy: filters.sortBy,
-        sortOrder: filters.sortOrder,
-      })
-      setStakers(response.data)
-      setPagination(response.pagination)
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load stakers.'
-      setError(errorMessage)
-    } finally {
-      setLoading(false)
-    }
-  }
+function Staking() {
+  const { filters, page, setFilter, setPage, resetFilters } = useUrlFilters(FILTER_SCHEMA)
 
-  useEffect(() => {
-    loadStats()
-  }, [])
+  const { data: stats } = useQuery(['/stakers/stats'], getStakerStats, {
+    staleTime: STALE_TIMES.stats,
+  })
 
-  useEffect(() => {
-    loadStakers()
-  }, [page, filters])
+  const minStake = useDebouncedValue(filters.minStake)
+  const maxStake = useDebouncedValue(filters.maxStake)
+  const stake = toNumericRange(minStake, maxStake)
+  const stakerParams: StakerListParams = {
+    page,
+    limit: 12,
+    minStake: stake.min,
+    maxStake: stake.max,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+  }
+  const stakersQuery = useQuery(['/stakers', stakerParams], (options) =>
+    getStakers(stakerParams, options),
+  )
+  const stakers = stakersQuery.data?.data || []
+  const fetchExportPage: PageFetcher<Staker> = (exportPage, limit, options) =>
+    getStakers({ ...stakerParams, page: exportPage, limit }, options)
+  const pagination = stakersQuery.data?.pagination || null
 
   const handleFilterChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = event.target
-    setFilters((prev) => ({
-      ...prev,
-      [name]: value,
-    }))
-    setPage(1)
-  }
-
-  const handleReset = () => {
-    setFilters({
-      minStake: '',
-      maxStake: '',
-      sortBy: 'stakedAmount',
-      sortOrder: 'desc',
-    })
-    setPage(1)
+    setFilter(name as keyof typeof FILTER_SCHEMA, value)
   }
 
   const lockData = useMemo(() => {
@@ -105,15 +93,13 @@ function Staking() {
       .sort((a, b) => a.days - b.days)
   }, [stats])
 
-  const maxLockCount = lockData.reduce((max, item) => Math.max(max, item.count), 0)
-
   const renderTable = () => {
-    if (loading) {
+    if (stakersQuery.loading) {
       return <SkeletonTable rows={6} columns={7} />
     }
 
-    if (error) {
-      return <ErrorState message={error} onRetry={loadStakers} />
+    if (stakersQuery.error) {
+      return <ErrorState error={stakersQuery.error} onRetry={stakersQuery.refetch} />
     }
 
     if (!stakers.length) {
@@ -122,7 +108,7 @@ function Staking() {
           title="No stakers found"
           description="Adjust stake filters or reset to view all stakers."
           actionLabel="Clear filters"
-          onAction={handleReset}
+          onAction={resetFilters}
         />
       )
     }
@@ -145,7 +131,11 @@ function Staking() {
             <tbody>
               {stakers.map((staker) => (
                 <tr key={staker.stakerId}>
-                  <td className="mono">{staker.stakerId}</td>
+                  <td className="mono">
+                    <Link className="table-link" to={`/staking/${staker.stakerId}`}>
+                      {staker.stakerId}
+                    </Link>
+                  </td>
                   <td className="address-short">{shortenAddress(staker.walletAddress)}</td>
                   <td>{formatTokenAmount(staker.stakedAmount)}</td>
                   <td>{formatTokenAmount(staker.pendingRewards)}</td>
@@ -172,6 +162,7 @@ function Staking() {
             Explore capital commitments, reward cadence, and staking lock behavior.
           </p>
         </div>
+        <WalletSearch />
       </div>
 
       {stats ? (
@@ -203,23 +194,29 @@ function Staking() {
         </div>
       ) : null}
 
+      <StakingPosition />
+
+      <div className="card">
+        <div className="card-header">
+          <h3>Rewards Calculator</h3>
+          <span className="card-subtitle">Projected yield at the current network stake</span>
+        </div>
+        <RewardsCalculator stats={stats} />
+      </div>
+
       <div className="grid-2">
         <div className="card chart-card">
           <div className="card-header">
             <h3>Lock Period Distribution</h3>
             <span className="card-subtitle">Active staking commitments</span>
           </div>
-          <div className="chart-bars compact">
-            {lockData.map((item) => {
-              const height = maxLockCount ? Math.max(18, (item.count / maxLockCount) * 140) : 18
-              return (
-                <div className="chart-bar" key={item.label} title={`${item.count} stakers`}>
-                  <div className="chart-bar-fill" style={{ height: `${height}px` }} />
-                  <span className="chart-bar-label">{item.label.replace(' days', 'd')}</span>
-                </div>
-              )
-            })}
-          </div>
+          <BarChart
+            title="Stakers by lock period"
+            categoryLabel="Lock period"
+            height={180}
+            categories={lockData.map((item) => item.label.replace(' days', 'd'))}
+            series={[{ label: 'Stakers', values: lockData.map((item) => item.count) }]}
+          />
           <div className="chart-footnote">
             Total commitments: {formatCompactNumber(stats?.totalStakers)}
           </div>
@@ -235,7 +232,9 @@ function Staking() {
               <div className="stacked-item" key={staker.stakerId}>
                 <div>
                   <span className="stacked-rank">#{index + 1}</span>
-                  <span className="address-short">{shortenAddress(staker.walletAddress)}</span>
+                  <Link className="address-short table-link" to={`/staking/${staker.stakerId}`}>
+                    {shortenAddress(staker.walletAddress)}
+                  </Link>
                 </div>
                 <strong>{formatTokenAmount(staker.stakedAmount)}</strong>
               </div>
@@ -247,9 +246,17 @@ function Staking() {
       <div className="card table-card">
         <div className="section-header">
           <h2>Staker Directory</h2>
-          <button className="btn btn-secondary" type="button" onClick={handleReset}>
-            Reset filters
-          </button>
+          <div className="section-actions">
+            <ExportControl
+              filename="stakers"
+              columns={EXPORT_COLUMNS}
+              fetchPage={fetchExportPage}
+              rowKey={(staker) => staker.stakerId}
+            />
+            <button className="btn btn-secondary" type="button" onClick={resetFilters}>
+              Reset filters
+            </button>
+          </div>
         </div>
         <div className="filters">
           <input
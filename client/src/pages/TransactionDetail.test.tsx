@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import TransactionDetail from './TransactionDetail'
+import { stakers, transactions } from '../test/fixtures'
+import { mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+
+const renderTransaction = (txHash: string) =>
+  renderPage(<TransactionDetail />, {
+    route: `/transactions/${txHash}`,
+    path: '/transactions/:txHash',
+  })
+
+describe('TransactionDetail page', () => {
+  it('shows a spinner while the transaction loads', () => {
+    mockApi.on('/transactions/:txHash', pending())
+    renderTransaction(transactions[0].txHash)
+
+    expect(screen.getByText('Loading transaction...')).toBeTruthy()
+  })
+
+  it('reports a transaction that does not exist', async () => {
+    renderTransaction(`0x${'0'.repeat(64)}`)
+
+    expect(await screen.findByText('Not found')).toBeTruthy()
+    expect(screen.getByText('Transaction not found')).toBeTruthy()
+  })
+
+  it('shows counterparties without a staker record as plain addresses', async () => {
+    const tx = transactions[1]
+    renderTransaction(tx.txHash)
+
+    expect(await screen.findByText('Awaiting inclusion')).toBeTruthy()
+    expect(await screen.findByRole('link', { name: tx.from })).toBeTruthy()
+    expect(screen.getByText(tx.to)).toBeTruthy()
+    expect(screen.queryByRole('link', { name: tx.to })).toBeNull()
+  })
+
+  it('shows the details, parties and timeline', async () => {
+    const tx = transactions[0]
+    renderTransaction(tx.txHash)
+
+    expect(await screen.findByRole('heading', { name: 'STAKE' })).toBeTruthy()
+    expect(screen.getByText(tx.txHash)).toBeTruthy()
+    expect(await screen.findByText(stakers[0].stakerId)).toBeTruthy()
+    expect(screen.getByText('Included in block')).toBeTruthy()
+    expect(screen.getByText('Confirmed')).toBeTruthy()
+  })
+})
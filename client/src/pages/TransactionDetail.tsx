@@ -0,0 +1,219 @@
+import { Link, useParams } from 'react-router-dom'
+import { getStakerByWallet, getTransactionByHash, type RequestOptions } from '../api'
+import { ApiClientError } from '../api/errors'
+import {
+  formatDateTime,
+  formatGas,
+  formatNumber,
+  formatRelativeTime,
+  formatTokenAmount,
+  getStatusClass,
+} from '../utils/format'
+import EmptyState from '../components/EmptyState'
+import ErrorState from '../components/ErrorState'
+import LoadingState from '../components/LoadingState'
+import StatCard from '../components/StatCard'
+import { useQuery } from '../hooks/useQuery'
+import type { Staker, Transaction } from '../types'
+
+type TimelineStep = {
+  label: string
+  detail: string
+  state: 'done' | 'current' | 'error'
+}
+
+async function findStaker(address: string, options: RequestOptions): Promise<Staker | null> {
+  try {
+    return await getStakerByWallet(address, options)
+  } catch (err) {
+    // Counterparties without a staker record are plain addresses, not errors
+    if (err instanceof ApiClientError && err.status === 404) {
+      return null
+    }
+    throw err
+  }
+}
+
+function buildTimeline(tx: Transaction): TimelineStep[] {
+  const steps: TimelineStep[] = [
+    {
+      label: 'Broadcast',
+      detail: `${formatDateTime(tx.timestamp)} · nonce ${tx.nonce}`,
+      state: 'done',
+    },
+  ]
+
+  if (tx.status === 'PENDING') {
+    steps.push({
+      label: 'Awaiting inclusion',
+      detail: `Queued in the mempool since ${formatRelativeTime(tx.timestamp)}`,
+      state: 'current',
+    })
+    return steps
+  }
+
+  steps.push({
+    label: 'Included in block',
+    detail: `Block #${formatNumber(tx.blockNumber)}`,
+    state: 'done',
+  })
+
+  if (tx.status === 'FAILED') {
+    steps.push({
+      label: 'Failed',
+      detail: `Execution reverted after ${formatNumber(tx.gasUsed)} gas`,
+      state: 'error',
+    })
+  } else {
+    steps.push({
+      label: 'Confirmed',
+      detail: 'Finalized on chain',
+      state: 'done',
+    })
+  }
+
+  return steps
+}
+
+type PartyProps = {
+  label: string
+  address: string
+  staker: Staker | null
+}
+
+function Party({ label, address, staker }: PartyProps) {
+  return (
+    <div className="detail-item">
+      <span>{label}</span>
+      <strong>
+        {staker ? (
+          <Link className="table-link mono" to={`/staking/${staker.stakerId}`}>
+            {address}
+          </Link>
+        ) : (
+          <span className="address">{address}</span>
+        )}
+        {staker ? <small className="detail-note">{staker.stakerId}</small> : null}
+      </strong>
+    </div>
+  )
+}
+
+function TransactionDetail() {
+  const { txHash = '' } = useParams()
+  const {
+    data: tx,
+    error,
+    loading,
+    refetch: loadTransaction,
+  } = useQuery([`/transactions/${txHash}`], (options) =>
+    getTransactionByHash(txHash, options),
+  )
+
+  // Own keys: the wallet page caches the same lookups, but treats a missing staker as an error
+  const { data: fromStaker = null } = useQuery(
+    tx ? [`/stakers/wallet/${tx.from}`, { ifMissing: 'null' }] : null,
+    (options) => findStaker(tx.from, options),
+  )
+  const { data: toStaker = null } = useQuery(
+    tx ? [`/stakers/wallet/${tx.to}`, { ifMissing: 'null' }] : null,
+    (options) => findStaker(tx.to, options),
+  )
+
+  if (loading) {
+    return <LoadingState label="Loading transaction..." />
+  }
+
+  if (error) {
+    return <ErrorState error={error} onRetry={loadTransaction} />
+  }
+
+  if (!tx) {
+    return (
+      <EmptyState
+        title="Transaction not found"
+        description="No transaction with this hash exists on the ledger."
+        actionLabel="Refresh"
+        onAction={loadTransaction}
+      />
+    )
+  }
+
+  const timeline = buildTimeline(tx)
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <div>
+          <p className="page-kicker">
+            <Link className="breadcrumb-link" to="/transactions">
+              Transactions
+            </Link>
+          </p>
+          <h1 className="page-title">{tx.txType.replace(/_/g, ' ')}</h1>
+          <p className="page-subtitle">
+            <span className={`badge ${getStatusClass(tx.status)}`}>{tx.status}</span>{' '}
+            {formatDateTime(tx.timestamp)}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid-4 stats-grid">
+        <StatCard label="Amount" value={formatTokenAmount(tx.amount)} note={tx.txType.replace(/_/g, ' ')} />
+        <StatCard label="Gas Cost" value={formatGas(tx.gasUsed, tx.gasPrice)} note={`${formatNumber(tx.gasPrice)} gwei`} />
+        <StatCard label="Block" value={`#${formatNumber(tx.blockNumber)}`} note={formatRelativeTime(tx.timestamp)} />
+        <StatCard label="Nonce" value={formatNumber(tx.nonce)} note="Sender sequence" />
+      </div>
+
+      <div className="grid-2">
+        <div className="card">
+          <div className="card-header">
+            <h3>Transaction Details</h3>
+            <span className="card-subtitle">On-chain record</span>
+          </div>
+          <div className="detail-list">
+            <div className="detail-item">
+              <span>Hash</span>
+              <strong className="address">{tx.txHash}</strong>
+            </div>
+            <Party label="From" address={tx.from} staker={fromStaker} />
+            <Party label="To" address={tx.to} staker={toStaker} />
+            <div className="detail-item">
+              <span>Amount</span>
+              <strong>{formatTokenAmount(tx.amount)}</strong>
+            </div>
+            <div className="detail-item">
+              <span>Gas used</span>
+              <strong>{formatGas(tx.gasUsed, tx.gasPrice)}</strong>
+            </div>
+            <div className="detail-item">
+              <span>Block number</span>
+              <strong>{formatNumber(tx.blockNumber)}</strong>
+            </div>
+            <div className="detail-item">
+              <span>Nonce</span>
+              <strong>{formatNumber(tx.nonce)}</strong>
+            </div>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <h3>Status Timeline</h3>
+            <span className={`badge ${getStatusClass(tx.status)}`}>{tx.status}</span>
+          </div>
+          <ol className="timeline">
+            {timeline.map((step) => (
+              <li className={`timeline-step ${step.state}`} key={step.label}>
+                <strong>{step.label}</strong>
+                <span>{step.detail}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TransactionDetail
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { screen, within } from '@testing-library/react'
+import Transactions from './Transactions'
+import { page, transactions } from '../test/fixtures'
+import { apiError, json, mockApi, pending } from '../test/mockApi'
+import { renderPage } from '../test/render'
+import { shortenHash } from '../utils/format'
+
+describe('Transactions page', () => {
+  it('shows a skeleton while the transactions load', () => {
+    mockApi.on('/transactions', pending())
+
+    const { container } = renderPage(<Transactions />)
+
+    expect(container.querySelector('.table-skeleton')).not.toBeNull()
+  })
+
+  it('shows why the request failed', async () => {
+    mockApi.on('/transactions', apiError(400, 'minAmount must be a number'))
+    renderPage(<Transactions />)
+
+    expect(await screen.findByText('The request was rejected')).toBeTruthy()
+  })
+
+  it('offers to clear the filters when no transactions match', async () => {
+    mockApi.on('/transactions', json(page([])))
+    renderPage(<Transactions />, { route: '/transactions?txType=SLASH&status=FAILED' })
+
+    expect(await screen.findByText('No transactions matched')).toBeTruthy()
+    const [request] = mockApi.requestsTo('/transactions')
+    expect(request.query.get('txType')).toBe('SLASH')
+    expect(request.query.get('status')).toBe('FAILED')
+  })
+
+  it('lists the transactions newest first', async () => {
+    renderPage(<Transactions />)
+
+    const header = await screen.findByRole('columnheader', { name: 'Hash' })
+    const table = within(header.closest('table'))
+    for (const tx of transactions) {
+      expect(table.getByRole('link', { name: shortenHash(tx.txHash) })).toBeTruthy()
+    }
+    const [request] = mockApi.requestsTo('/transactions')
+    expect(request.query.get('sortBy')).toBe('timestamp')
+    expect(request.query.get('sortOrder')).toBe('desc')
+  })
+})
@@ -1,9 +1,11 @@
-import { useEffect, useMemo, useState, type ChangeEvent } from 'react'
+import { useMemo, type ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
 import {
   getTransactionStats,
   getTransactionTypes,
   getTransactions,
 } from '../api'
+import { STALE_TIMES } from '../api/cache'
 import {
   formatDateTime,
   formatCompactNumber,
@@ -13,98 +15,101 @@ import {
   shortenAddress,
   shortenHash,
 } from '../utils/format'
+import ChipFilter from '../components/ChipFilter'
 import EmptyState from '../components/EmptyState'
 import ErrorState from '../components/ErrorState'
+import ExportControl from '../components/ExportControl'
+import LiveIndicator from '../components/LiveIndicator'
 import Pagination from '../components/Pagination'
 import SkeletonTable from '../components/SkeletonTable'
 import StatCard from '../components/StatCard'
-import type { Pagination as PaginationType, Transaction, TransactionStats } from '../types'
+import DonutChart from '../components/charts/DonutChart'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
+import { useQuery } from '../hooks/useQuery'
+import { SORT_ORDERS, useUrlFilters, type FilterSchema } from '../hooks/useUrlFilters'
+import { toIsoTime, type ExportColumn, type PageFetcher } from '../utils/export'
+import { toNumericRange } from '../utils/filters'
+import type {
+  Transaction,
+  TransactionListParams,
+  TransactionSortField,
+  TxStatus,
+  TxType,
+} from '../types'
 
-const STATUS_OPTIONS = ['CONFIRMED', 'PENDING', 'FAILED']
-const SORT_FIELDS = [
+const STATUS_OPTIONS: TxStatus[] = ['CONFIRMED', 'PENDING', 'FAILED']
+const SORT_FIELDS: Array<{ value: TransactionSortField; label: string }> = [
   { value: 'timestamp', label: 'Timestamp' },
   { value: 'amount', label: 'Amount' },
   { value: 'gasUsed', label: 'Gas used' },
 ]
 
-function Transactions() {
-  const [transactions, setTransactions] = useState<Transaction[]>([])
-  const [pagination, setPagination] = useState<PaginationType | null>(null)
-  const [stats, setStats] = useState<TransactionStats | null>(null)
-  const [types, setTypes] = useState<string[]>([])
-  const [filters, setFilters] = useState({
-    txType: '',
-    status: '',
-    address: '',
-    sortBy: 'timestamp',
-    sortOrder: 'desc',
-  })
-  const [page, setPage] = useState(1)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
+const FILTER_SCHEMA = {
+  txType: { multiple: true },
+  status: { multiple: true, options: STATUS_OPTIONS },
+  address: { text: true },
+  minAmount: { numeric: true, text: true },
+  maxAmount: { numeric: true, text: true },
+  minGasUsed: { numeric: true, text: true },
+  maxGasUsed: { numeric: true, text: true },
+  sortBy: { defaultValue: 'timestamp', options: SORT_FIELDS.map((field) => field.value) },
+  sortOrder: { defaultValue: 'desc', options: SORT_ORDERS },
+} satisfies FilterSchema
 
-  const loadMeta = async () => {
-    try {
-      const [statsData, typesData] = await Promise.all([
-        getTransactionStats(),
-        getTransactionTypes(),
-      ])
-      setStats(statsData)
-      setTypes(typesData)
-    } catch (err) {
-      console.error('Failed to load transaction metadata', err)
-    }
-  }
+const EXPORT_COLUMNS: ExportColumn<Transaction>[] = [
+  { header: 'Hash', value: (tx) => tx.txHash },
+  { header: 'Type', value: (tx) => tx.txType },
+  { header: 'From', value: (tx) => tx.from },
+  { header: 'To', value: (tx) => tx.to },
+  { header: 'Amount', value: (tx) => tx.amount },
+  { header: 'Gas Used', value: (tx) => tx.gasUsed },
+  { header: 'Status', value: (tx) => tx.status },
+  { header: 'Timestamp', value: (tx) => toIsoTime(tx.timestamp) },
+]
 
-  const loadTransactions = async () => {
-    setLoading(true)
-    setError('')
-    try {
-      const response = await getTransactions({
-        page,
-        limit: 12,
-        txType: filters.txType,
-        status: filters.status,
-        address: filters.address,
-        sortBy: filters.sortBy,
-        sortOrder: filters.sortOrder,
-      })
-      setTransactions(response.data)
-      setPagination(response.pagination)
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load transactions.'
-      setError(errorMessage)
-    } finally {
-      setLoading(false)
-    }
-  }
+function Transactions() {
+  const { filters, page, setFilter, setPage, resetFilters } = useUrlFilters(FILTER_SCHEMA)
+  const address = useDebouncedValue(filters.address.trim())
+  const liveState = useLiveUpdates()
 
-  useEffect(() => {
-    loadMeta()
-  }, [])
+  const { data: stats } = useQuery(['/transactions/stats'], getTransactionStats, {
+    staleTime: STALE_TIMES.stats,
+  })
+  const { data: types = [] } = useQuery(['/transactions/types'], getTransactionTypes, {
+    staleTime: STALE_TIMES.static,
+  })
 
-  useEffect(() => {
-    loadTransactions()
-  }, [page, filters])
+  const minAmount = useDebouncedValue(filters.minAmount)
+  const maxAmount = useDebouncedValue(filters.maxAmount)
+  const minGasUsed = useDebouncedValue(filters.minGasUsed)
+  const maxGasUsed = useDebouncedValue(filters.maxGasUsed)
+  const amount = toNumericRange(minAmount, maxAmount)
+  const gasUsed = toNumericRange(minGasUsed, maxGasUsed)
+  const txParams: TransactionListParams = {
+    page,
+    limit: 12,
+    txType: filters.txType as TxType[],
+    status: filters.status,
+    address,
+    minAmount: amount.min,
+    maxAmount: amount.max,
+    minGasUsed: gasUsed.min,
+    maxGasUsed: gasUsed.max,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+  }
+  const transactionsQuery = useQuery(['/transactions', txParams], (options) =>
+    getTransactions(txParams, options),
+  )
+  const transactions = transactionsQuery.data?.data || []
+  const fetchExportPage: PageFetcher<Transaction> = (exportPage, limit, options) =>
+    getTransactions({ ...txParams, page: exportPage, limit }, options)
+  const pagination = transactionsQuery.data?.pagination || null
 
   const handleFilterChange = (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = event.target
-    setFilters((prev) => ({
-      ...prev,
-      [name]: value,
-    }))
-    setPage(1)
-  }
-
-  const handleReset = () => {
-    setFilters({
-      txType: '',
-      status: '',
-      address: '',
-      sortBy: 'timestamp',
-      sortOrder: 'desc',
-    })
-    setPage(1)
+    setFilter(name as keyof typeof FILTER_SCHEMA, value)
   }
 
   const typeChart = useMemo(() => {
@@ -119,15 +124,18 @@ function Transactions() {
       .sort((a, b) => b.count - a.count)
   }, [stats])
 
-  const maxTypeCount = typeChart.reduce((max, item) => Math.max(max, item.count), 0)
-
   const renderTable = () => {
-    if (loading) {
+    if (transactionsQuery.loading) {
       return <SkeletonTable rows={6} columns={8} />
     }
 
-    if (error) {
-      return <ErrorState message={error} onRetry={loadTransactions} />
+    if (transactionsQuery.error) {
+      return (
+        <ErrorState
+          error={transactionsQuery.error}
+          onRetry={transactionsQuery.refetch}
+        />
+      )
     }
 
     if (!transactions.length) {
@@ -136,7 +144,7 @@ function Transactions() {
           title="No transactions matched"
           description="Update filters or reset to view the full ledger."
           actionLabel="Clear filters"
-          onAction={handleReset}
+          onAction={resetFilters}
         />
       )
     }
@@ -160,7 +168,11 @@ function Transactions() {
             <tbody>
               {transactions.map((tx) => (
                 <tr key={tx.txHash}>
-                  <td className="mono">{shortenHash(tx.txHash)}</td>
+                  <td className="mono">
+                    <Link className="table-link" to={`/transactions/${tx.txHash}`}>
+                      {shortenHash(tx.txHash)}
+                    </Link>
+                  </td>
                   <td>{tx.txType.replace(/_/g, ' ')}</td>
                   <td className="address-short">{shortenAddress(tx.from)}</td>
                   <td className="address-short">{shortenAddress(tx.to)}</td>
@@ -223,17 +235,15 @@ function Transactions() {
             <h3>Transaction Mix</h3>
             <span className="card-subtitle">Count by type</span>
           </div>
-          <div className="chart-bars compact">
-            {typeChart.map((item) => {
-              const height = maxTypeCount ? Math.max(18, (item.count / maxTypeCount) * 140) : 18
-              return (
-                <div className="chart-bar" key={item.label} title={`${item.count} txs`}>
-                  <div className="chart-bar-fill" style={{ height: `${height}px` }} />
-                  <span className="chart-bar-label">{item.label.replace(/_/g, ' ')}</span>
-                </div>
-              )
-            })}
-          </div>
+          <DonutChart
+            title="Transactions by type"
+            categoryLabel="Type"
+            centerLabel="Transactions"
+            data={typeChart.map((item) => ({
+              label: item.label.replace(/_/g, ' '),
+              value: item.count,
+            }))}
+          />
           <div className="chart-footnote">
             Most active type: {typeChart[0]?.label?.replace(/_/g, ' ') || '-'}
           </div>
@@ -242,14 +252,19 @@ function Transactions() {
         <div className="card list-card">
           <div className="card-header">
             <h3>Recent Activity</h3>
-            <span className="card-subtitle">Latest 10 transactions</span>
+            <div className="card-header-meta">
+              <span className="card-subtitle">Latest 10 transactions</span>
+              <LiveIndicator state={liveState} />
+            </div>
           </div>
           <div className="stacked-list">
             {(stats?.recentTxs || []).map((tx) => (
               <div className="stacked-item" key={tx.txHash}>
                 <div>
                   <span className="stacked-label">{tx.txType.replace(/_/g, ' ')}</span>
-                  <span className="address-short">{shortenHash(tx.txHash)}</span>
+                  <Link className="address-short table-link" to={`/transactions/${tx.txHash}`}>
+                    {shortenHash(tx.txHash)}
+                  </Link>
                 </div>
                 <div className="stacked-meta">
                   <span>{formatTokenAmount(tx.amount)}</span>
@@ -264,33 +279,72 @@ function Transactions() {
       <div className="card table-card">
         <div className="section-header">
           <h2>Transaction Ledger</h2>
-          <button className="btn btn-secondary" type="button" onClick={handleReset}>
-            Reset filters
-          </button>
+          <div className="section-actions">
+            <ExportControl
+              filename="transactions"
+              columns={EXPORT_COLUMNS}
+              fetchPage={fetchExportPage}
+              rowKey={(tx) => tx.txHash}
+            />
+            <button className="btn btn-secondary" type="button" onClick={resetFilters}>
+              Reset filters
+            </button>
+          </div>
+        </div>
+        <div className="chip-filters">
+          <ChipFilter
+            label="Type"
+            options={types}
+            value={filters.txType}
+            onChange={(value) => setFilter('txType', value)}
+            formatOption={(type) => type.replace(/_/g, ' ')}
+          />
+          <ChipFilter
+            label="Status"
+            options={STATUS_OPTIONS}
+            value={filters.status}
+            onChange={(value) => setFilter('status', value)}
+          />
         </div>
         <div className="filters">
-          <select name="txType" value={filters.txType} onChange={handleFilterChange}>
-            <option value="">All types</option>
-            {types.map((type) => (
-              <option key={type} value={type}>
-                {type.replace(/_/g, ' ')}
-              </option>
-            ))}
-          </select>
-          <select name="status" value={filters.status} onChange={handleFilterChange}>
-            <option value="">All statuses</option>
-            {STATUS_OPTIONS.map((status) => (
-              <option key={status} value={status}>
-                {status}
-              </option>
-            ))}
-          </select>
           <input
             name="address"
             value={filters.address}
             onChange={handleFilterChange}
             placeholder="Search wallet address"
           />
+          <input
+            type="number"
+            name="minAmount"
+            min="0"
+            value={filters.minAmount}
+            onChange={handleFilterChange}
+            placeholder="Min amount"
+          />
+          <input
+            type="number"
+            name="maxAmount"
+            min="0"
+            value={filters.maxAmount}
+            onChange={handleFilterChange}
+            placeholder="Max amount"
+          />
+          <input
+            type="number"
+            name="minGasUsed"
+            min="0"
+            value={filters.minGasUsed}
+            onChange={handleFilterChange}
+            placeholder="Min gas used"
+          />
+          <input
+            type="number"
+            name="maxGasUsed"
+            min="0"
+            value={filters.maxGasUsed}
+            onChange={handleFilterChange}
+            placeholder="Max gas used"
+          />
           <select name="sortBy" value={filters.sortBy} onChange={handleFilterChange}>
             {SORT_FIELDS.map((field) => (
               <option key={field.value} value={field.value}>
@@ -0,0 +1,359 @@
+/**
+ * API Fixtures
+ * =============
+ * A small, self-consistent network in the shapes of `../types`, served by the
+ * mock API. The stakers delegate to the nodes, the records and transactions
+ * belong to the stakers, and the epochs reward the nodes.
+ */
+
+import type {
+  CurrentEpoch,
+  Epoch,
+  EpochStats,
+  HealthRecord,
+  HealthRecordComparison,
+  HealthRecordStats,
+  HealthRecordTimeSeries,
+  Node,
+  NodeEpochReward,
+  NodeStats,
+  PaginatedResponse,
+  PlatformStats,
+  Staker,
+  StakerDetail,
+  StakerStats,
+  StatsOverview,
+  Transaction,
+  TransactionStats,
+} from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Every fixture timestamp is placed relative to this moment */
+export const REFERENCE_TIME = Date.UTC(2025, 0, 1)
+
+/** Matches MOCK_WALLET_ADDRESS, so the mock wallet owns the first staker */
+export const WALLET_ADDRESS = '0xc4a1e0d5b7f3a9e2c8d6b4f0a1e3c5d7b9f2a4e6'
+
+export const nodes: Node[] = [
+  {
+    nodeId: 'NODE-000001',
+    operatorAddress: '0xf49b6f772632716c43069c43a8c3b7cf3c25632b',
+    nodeType: 'VALIDATOR',
+    region: 'EU-WEST',
+    status: 'ACTIVE',
+    uptime: '99.1200',
+    stakedAmount: '48000.000000',
+    totalRewardsEarned: '6000.000000',
+    validationsPerformed: 120000,
+    validationsSuccessful: 118000,
+    validationsFailed: 2000,
+    slashingEvents: 0,
+    registeredAt: REFERENCE_TIME - 400 * DAY_MS,
+    lastHeartbeat: REFERENCE_TIME - 60_000,
+    metadata: { version: 'v2.1.0', hardware: 'AWS-M5', bandwidth: 5000 },
+  },
+  {
+    nodeId: 'NODE-000002',
+    operatorAddress: '0x054c4ffc8c082b6bf826540e151d45070059d2df',
+    nodeType: 'RELAY',
+    region: 'NA-EAST',
+    status: 'SLASHED',
+    uptime: '71.4600',
+    stakedAmount: '27000.000000',
+    totalRewardsEarned: '2000.000000',
+    validationsPerformed: 40000,
+    validationsSuccessful: 36000,
+    validationsFailed: 4000,
+    slashingEvents: 2,
+    registeredAt: REFERENCE_TIME - 300 * DAY_MS,
+    lastHeartbeat: REFERENCE_TIME - 3 * DAY_MS,
+    metadata: { version: 'v1.9.7', hardware: 'AZURE-B2', bandwidth: 3000 },
+  },
+]
+
+export const stakers: Staker[] = [
+  {
+    stakerId: 'STAKER-0000001',
+    walletAddress: WALLET_ADDRESS,
+    stakedAmount: '2500.000000',
+    pendingRewards: '180.000000',
+    claimedRewards: '1200.000000',
+    stakingMultiplier: 1.0822,
+    lockPeriod: 30,
+    unlockTime: REFERENCE_TIME + 10 * DAY_MS,
+    delegatedTo: 'NODE-000001',
+  },
+  {
+    stakerId: 'STAKER-0000002',
+    walletAddress: '0x155c368d17269c3e124c796b6d84d8bc3e80baef',
+    stakedAmount: '40000.000000',
+    pendingRewards: '900.000000',
+    claimedRewards: '5000.000000',
+    stakingMultiplier: 1.2466,
+    lockPeriod: 90,
+    unlockTime: REFERENCE_TIME - 5 * DAY_MS,
+    delegatedTo: 'NODE-000002',
+  },
+]
+
+export const healthRecords: HealthRecord[] = [
+  {
+    recordId: 'REC-00000001',
+    userAddress: WALLET_ADDRESS,
+    dataType: 'HEART_RATE',
+    value: 72,
+    unit: 'bpm',
+    deviceType: 'APPLE_WATCH',
+    timestamp: REFERENCE_TIME - DAY_MS,
+    validatedBy: 'NODE-000001',
+    validationStatus: 'VALIDATED',
+    rewardEarned: '2.5000',
+  },
+  {
+    recordId: 'REC-00000002',
+    userAddress: stakers[1].walletAddress,
+    dataType: 'STEPS',
+    value: 8400,
+    unit: 'steps',
+    deviceType: 'GARMIN',
+    timestamp: REFERENCE_TIME - 2 * DAY_MS,
+    validatedBy: 'NODE-000001',
+    validationStatus: 'PENDING',
+    rewardEarned: '0.0000',
+  },
+]
+
+export const epochs: Epoch[] = [1, 2].map((epochNumber) => ({
+  epochNumber,
+  startTime: REFERENCE_TIME - (3 - epochNumber) * 7 * DAY_MS,
+  endTime: REFERENCE_TIME - (2 - epochNumber) * 7 * DAY_MS,
+  totalRewardsPool: '4000.000000',
+  totalValidations: 8000,
+  activeNodes: 2,
+  activeStakers: 2,
+  nodeRewards: [
+    { nodeId: 'NODE-000001', reward: '3000.000000', validations: 6000 },
+    { nodeId: 'NODE-000002', reward: '1000.000000', validations: 2000 },
+  ],
+}))
+
+export const transactions: Transaction[] = [
+  {
+    txHash: '0x8127add2671dad0d63d977ac0d4e74549f6eb51089962ee6ec3914a94f9bf916',
+    txType: 'STAKE',
+    from: WALLET_ADDRESS,
+    to: nodes[0].operatorAddress,
+    amount: '500.000000',
+    gasUsed: 73131,
+    gasPrice: 120,
+    timestamp: REFERENCE_TIME - DAY_MS,
+    blockNumber: 18534762,
+    status: 'CONFIRMED',
+    nonce: 12,
+  },
+  {
+    txHash: '0xf3f091c6c45347c46122b0be2eb53ed7bd87793e9273120ac7af32cffc954c3f',
+    txType: 'TRANSFER',
+    from: stakers[1].walletAddress,
+    to: '0x1100bf93a0b2fd97abe5d1b38b26d0e76234fa24',
+    amount: '75.250000',
+    gasUsed: 21000,
+    gasPrice: 90,
+    timestamp: REFERENCE_TIME - 2 * DAY_MS,
+    blockNumber: 18534700,
+    status: 'PENDING',
+    nonce: 40,
+  },
+]
+
+/**
+ * One page holding all the given items
+ */
+export function page<T>(data: T[]): PaginatedResponse<T> {
+  return {
+    data,
+    pagination: {
+      page: 1,
+      limit: Math.max(data.length, 1),
+      totalItems: data.length,
+      totalPages: data.length ? 1 : 0,
+      hasMore: false,
+    },
+  }
+}
+
+export function stakerDetail(staker: Staker): StakerDetail {
+  const node = nodes.find((item) => item.nodeId === staker.delegatedTo)
+  return {
+    ...staker,
+    delegatedNode: node
+      ? { nodeId: node.nodeId, nodeType: node.nodeType, status: node.status, uptime: node.uptime }
+      : null,
+  }
+}
+
+export function nodeRewards(nodeId: string): NodeEpochReward[] {
+  return epochs.flatMap(({ epochNumber, startTime, endTime, nodeRewards: rewards }) =>
+    rewards
+      .filter((reward) => reward.nodeId === nodeId)
+      .map(({ reward, validations }) => ({ epochNumber, startTime, endTime, reward, validations })),
+  )
+}
+
+/** Each user has one reading per data type, so a record is only compared with itself */
+export function healthRecordComparison({ value }: HealthRecord): HealthRecordComparison {
+  return { count: 1, min: value, max: value, average: value, percentile: 50 }
+}
+
+export const statsOverview: StatsOverview = {
+  activeNodes: 1,
+  totalStaked: '42500.00',
+  healthRecordsValidated: 1,
+  totalRewardsDistributed: '8000.00',
+  totalUsers: 2,
+  totalTransactions: 2,
+}
+
+export const platformStats: PlatformStats = {
+  metadata: {
+    generatedAt: new Date(REFERENCE_TIME).toISOString(),
+    version: '1.0.0',
+    scenario: 'default',
+    seed: 1,
+  },
+  network: {
+    totalNodes: 2,
+    activeNodes: 1,
+    totalNodeStake: '75000.00',
+    avgUptime: '85.29',
+    networkHealth: '72.4',
+  },
+  staking: {
+    totalStakers: 2,
+    totalStaked: '42500.00',
+    totalPendingRewards: '1080.00',
+    avgStakePerUser: '21250.00',
+  },
+  healthData: {
+    totalRecords: 2,
+    validatedRecords: 1,
+    pendingRecords: 1,
+    validationRate: '50.00',
+    uniqueUsers: 2,
+  },
+  rewards: {
+    totalEpochs: 2,
+    currentEpoch: 2,
+    totalRewardsDistributed: '8000.00',
+    avgRewardsPerEpoch: '4000.00',
+  },
+  transactions: {
+    totalTransactions: 2,
+    totalVolume: '575.25',
+    confirmedRate: '50.00',
+  },
+}
+
+export const nodeStats: NodeStats = {
+  totalNodes: 2,
+  activeNodes: 1,
+  totalStaked: '75000.00',
+  totalRewards: '8000.00',
+  avgUptime: '85.29',
+  totalValidations: 160000,
+  byType: { VALIDATOR: 1, RELAY: 1 },
+  byStatus: { ACTIVE: 1, SLASHED: 1 },
+  byRegion: { 'EU-WEST': 1, 'NA-EAST': 1 },
+}
+
+export const stakerStats: StakerStats = {
+  totalStakers: 2,
+  totalStaked: '42500.00',
+  totalPendingRewards: '1080.00',
+  totalClaimedRewards: '6200.00',
+  avgStake: '21250.00',
+  avgMultiplier: '1.1644',
+  byLockPeriod: { '30 days': 1, '90 days': 1 },
+  topStakers: stakers.map(({ stakerId, walletAddress, stakedAmount, delegatedTo }) => ({
+    stakerId,
+    walletAddress,
+    stakedAmount,
+    delegatedTo,
+  })),
+}
+
+export const healthRecordStats: HealthRecordStats = {
+  totalRecords: 2,
+  validatedRecords: 1,
+  pendingRecords: 1,
+  rejectedRecords: 0,
+  validationRate: '50.00',
+  uniqueUsers: 2,
+  byDataType: { HEART_RATE: 1, STEPS: 1 },
+  byDeviceType: { APPLE_WATCH: 1, GARMIN: 1 },
+  recordsByDay: [
+    { date: '2024-12-30', count: 1 },
+    { date: '2024-12-31', count: 1 },
+  ],
+}
+
+export const healthRecordTimeSeries: HealthRecordTimeSeries = {
+  startDate: REFERENCE_TIME - 2 * DAY_MS,
+  endDate: REFERENCE_TIME,
+  bucket: 'day',
+  tzOffset: 0,
+  groupBy: null,
+  groups: [],
+  buckets: [
+    { start: REFERENCE_TIME - 2 * DAY_MS, end: REFERENCE_TIME - DAY_MS, total: 1, counts: {} },
+    { start: REFERENCE_TIME - DAY_MS, end: REFERENCE_TIME, total: 1, counts: {} },
+  ],
+}
+
+export const dataTypes = ['HEART_RATE', 'STEPS']
+
+export const deviceTypes = ['APPLE_WATCH', 'GARMIN']
+
+export const transactionTypes = ['STAKE', 'TRANSFER']
+
+export const epochStats: EpochStats = {
+  totalEpochs: 2,
+  totalRewardsDistributed: '8000.00',
+  totalValidationsAllTime: 16000,
+  avgRewardsPerEpoch: '4000.00',
+  avgValidationsPerEpoch: 8000,
+  avgActiveNodes: 2,
+  avgActiveStakers: 2,
+  rewardsTrend: epochs.map((epoch) => ({
+    epoch: epoch.epochNumber,
+    rewards: epoch.totalRewardsPool,
+    validations: epoch.totalValidations,
+    activeNodes: epoch.activeNodes,
+  })),
+}
+
+export const currentEpoch: CurrentEpoch = (() => {
+  const { nodeRewards: topRewards, ...epoch } = epochs[epochs.length - 1]
+  return { ...epoch, topRewards }
+})()
+
+export const transactionStats: TransactionStats = {
+  totalTransactions: 2,
+  confirmedTxs: 1,
+  pendingTxs: 1,
+  failedTxs: 0,
+  successRate: '50.00',
+  totalVolume: '575.25',
+  totalGasUsed: 94131,
+  avgGasPrice: '105.00',
+  byType: { STAKE: 1, TRANSFER: 1 },
+  volumeByType: { STAKE: '500.00', TRANSFER: '75.25' },
+  recentTxs: transactions.map(({ txHash, txType, amount, timestamp, status }) => ({
+    txHash,
+    txType,
+    amount,
+    timestamp,
+    status,
+  })),
+}
@@ -0,0 +1,432 @@
+/**
+ * Mock API Server
+ * ================
+ * An in-process stand-in for the backend. It replaces `fetch` during tests
+ * and answers `/api` requests from the fixtures, so pages and the API client
+ * run unchanged without a network.
+ *
+ * Every endpoint the client calls has a default route. List routes apply the
+ * exact-match filters the pages rely on (`delegatedTo`, `userAddress` and
+ * `address`) and ignore the rest. Tests override a route with `mockApi.on()`
+ * to serve other data, an error, a network failure or a response that never
+ * arrives; overrides are dropped by `mockApi.reset()`.
+ */
+
+import * as fixtures from './fixtures'
+import type { Epoch, EpochSummary, SearchResults } from '../types'
+
+export type MockRequest = {
+  method: string
+  /** Path without the `/api` prefix or query string, e.g. `/nodes/NODE-000001` */
+  path: string
+  query: URLSearchParams
+  /** Values of the route's `:name` segments */
+  params: Record<string, string>
+  body: unknown
+}
+
+export type MockResponse =
+  | { kind: 'json'; status: number; body: unknown }
+  | { kind: 'text'; status: number; body: string }
+  | { kind: 'network-error' }
+  | { kind: 'pending' }
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>
+
+type Route = {
+  method: string
+  pattern: string
+  handler: MockHandler
+}
+
+/**
+ * Respond with a JSON body
+ */
+export function json(body: unknown, status = 200): MockResponse {
+  return { kind: 'json', status, body }
+}
+
+/**
+ * Respond with the server's error shape, `{ error }`
+ */
+export function apiError(status: number, message: string): MockResponse {
+  return json({ error: message }, status)
+}
+
+/**
+ * Respond with a non-JSON body, e.g. a proxy's HTML error page
+ */
+export function text(body: string, status = 200): MockResponse {
+  return { kind: 'text', status, body }
+}
+
+/**
+ * Fail the request the way fetch does when the server cannot be reached
+ */
+export function networkError(): MockResponse {
+  return { kind: 'network-error' }
+}
+
+/**
+ * Never respond; the request only ends when it is aborted
+ */
+export function pending(): MockResponse {
+  return { kind: 'pending' }
+}
+
+function notFound(what: string): MockResponse {
+  return apiError(404, `${what} not found`)
+}
+
+function findOr<T>(items: T[], match: (item: T) => boolean, what: string): MockResponse {
+  const item = items.find(match)
+  return item === undefined ? notFound(what) : json(item)
+}
+
+/**
+ * Whether an item passes an exact-match query param; absent params match everything
+ */
+function matchesParam(query: URLSearchParams, name: string, ...values: Array<string | undefined>) {
+  const expected = query.get(name)?.toLowerCase()
+  return !expected || values.some((value) => value?.toLowerCase() === expected)
+}
+
+function toSummary({ nodeRewards, ...epoch }: Epoch): EpochSummary {
+  return { ...epoch, topNodeRewardsCount: nodeRewards.length }
+}
+
+function searchFixtures(q: string): SearchResults {
+  const query = q.trim().toLowerCase()
+  const group = <T>(items: T[], fields: (item: T) => string[]) => {
+    const matches = items.filter((item) =>
+      fields(item).some((field) => field.toLowerCase().startsWith(query)),
+    )
+    return { total: matches.length, items: matches }
+  }
+  return {
+    query: q.trim(),
+    results: {
+      nodes: group(
+        fixtures.nodes.map(({ nodeId, nodeType, region, status }) => ({
+          nodeId,
+          nodeType,
+          region,
+          status,
+        })),
+        (node) => [node.nodeId],
+      ),
+      stakers: group(
+        fixtures.stakers.map(({ stakerId, walletAddress, stakedAmount }) => ({
+          stakerId,
+          walletAddress,
+          stakedAmount,
+        })),
+        (staker) => [staker.stakerId, staker.walletAddress],
+      ),
+      transactions: group(
+        fixtures.transactions.map(({ txHash, txType, amount, status, timestamp }) => ({
+          txHash,
+          txType,
+          amount,
+          status,
+          timestamp,
+        })),
+        (tx) => [tx.txHash],
+      ),
+      healthRecords: group(
+        fixtures.healthRecords.map(({ recordId, dataType, userAddress, validationStatus }) => ({
+          recordId,
+          dataType,
+          userAddress,
+          validationStatus,
+        })),
+        (record) => [record.recordId],
+      ),
+    },
+  }
+}
+
+function stakingAction({ params }: MockRequest): MockResponse {
+  const staker = fixtures.stakers.find((item) => item.stakerId === params.stakerId)
+  if (!staker) {
+    return notFound('Staker')
+  }
+  return json({ staker, transaction: { ...fixtures.transactions[0], status: 'PENDING' } }, 202)
+}
+
+// Specific routes come before the `:param` routes they would otherwise match
+const DEFAULT_ROUTES: Route[] = [
+  { method: 'GET', pattern: '/stats', handler: () => json(fixtures.platformStats) },
+  { method: 'GET', pattern: '/stats/overview', handler: () => json(fixtures.statsOverview) },
+
+  { method: 'GET', pattern: '/nodes', handler: () => json(fixtures.page(fixtures.nodes)) },
+  { method: 'GET', pattern: '/nodes/stats', handler: () => json(fixtures.nodeStats) },
+  {
+    method: 'GET',
+    pattern: '/nodes/:nodeId',
+    handler: ({ params }) => findOr(fixtures.nodes, (n) => n.nodeId === params.nodeId, 'Node'),
+  },
+  {
+    method: 'GET',
+    pattern: '/nodes/:nodeId/rewards',
+    handler: ({ params }) =>
+      fixtures.nodes.some((node) => node.nodeId === params.nodeId)
+        ? json(fixtures.nodeRewards(params.nodeId))
+        : notFound('Node'),
+  },
+
+  {
+    method: 'GET',
+    pattern: '/stakers',
+    handler: ({ query }) =>
+      json(
+        fixtures.page(
+          fixtures.stakers.filter((s) => matchesParam(query, 'delegatedTo', s.delegatedTo)),
+        ),
+      ),
+  },
+  { method: 'GET', pattern: '/stakers/stats', handler: () => json(fixtures.stakerStats) },
+  {
+    method: 'GET',
+    pattern: '/stakers/wallet/:address',
+    handler: ({ params }) =>
+      findOr(
+        fixtures.stakers,
+        (s) => s.walletAddress.toLowerCase() === params.address.toLowerCase(),
+        'Staker',
+      ),
+  },
+  {
+    method: 'GET',
+    pattern: '/stakers/:stakerId',
+    handler: ({ params }) => {
+      const staker = fixtures.stakers.find((item) => item.stakerId === params.stakerId)
+      return staker ? json(fixtures.stakerDetail(staker)) : notFound('Staker')
+    },
+  },
+  { method: 'POST', pattern: '/stakers/:stakerId/stake', handler: stakingAction },
+  { method: 'POST', pattern: '/stakers/:stakerId/unstake', handler: stakingAction },
+  { method: 'POST', pattern: '/stakers/:stakerId/claim', handler: stakingAction },
+  { method: 'POST', pattern: '/stakers/:stakerId/delegate', handler: stakingAction },
+
+  {
+    method: 'GET',
+    pattern: '/health-records',
+    handler: ({ query }) =>
+      json(
+        fixtures.page(
+          fixtures.healthRecords.filter((r) => matchesParam(query, 'userAddress', r.userAddress)),
+        ),
+      ),
+  },
+  {
+    method: 'GET',
+    pattern: '/health-records/stats',
+    handler: () => json(fixtures.healthRecordStats),
+  },
+  {
+    method: 'GET',
+    pattern: '/health-records/timeseries',
+    handler: () => json(fixtures.healthRecordTimeSeries),
+  },
+  {
+    method: 'GET',
+    pattern: '/health-records/data-types',
+    handler: () => json(fixtures.dataTypes),
+  },
+  {
+    method: 'GET',
+    pattern: '/health-records/device-types',
+    handler: () => json(fixtures.deviceTypes),
+  },
+  {
+    method: 'GET',
+    pattern: '/health-records/:recordId',
+    handler: ({ params }) =>
+      findOr(fixtures.healthRecords, (r) => r.recordId === params.recordId, 'Health record'),
+  },
+  {
+    method: 'GET',
+    pattern: '/health-records/:recordId/comparison',
+    handler: ({ params }) => {
+      const record = fixtures.healthRecords.find((item) => item.recordId === params.recordId)
+      return record ? json(fixtures.healthRecordComparison(record)) : notFound('Health record')
+    },
+  },
+
+  {
+    method: 'GET',
+    pattern: '/epochs',
+    handler: () => json(fixtures.page([...fixtures.epochs].reverse().map(toSummary))),
+  },
+  { method: 'GET', pattern: '/epochs/current', handler: () => json(fixtures.currentEpoch) },
+  { method: 'GET', pattern: '/epochs/stats', handler: () => json(fixtures.epochStats) },
+  {
+    method: 'GET',
+    pattern: '/epochs/:epochNumber',
+    handler: ({ params }) =>
+      findOr(fixtures.epochs, (e) => String(e.epochNumber) === params.epochNumber, 'Epoch'),
+  },
+
+  {
+    method: 'GET',
+    pattern: '/transactions',
+    handler: ({ query }) =>
+      json(
+        fixtures.page(
+          fixtures.transactions.filter((tx) => matchesParam(query, 'address', tx.from, tx.to)),
+        ),
+      ),
+  },
+  {
+    method: 'GET',
+    pattern: '/transactions/stats',
+    handler: () => json(fixtures.transactionStats),
+  },
+  {
+    method: 'GET',
+    pattern: '/transactions/types',
+    handler: () => json(fixtures.transactionTypes),
+  },
+  {
+    method: 'GET',
+    pattern: '/transactions/:txHash',
+    handler: ({ params }) =>
+      findOr(fixtures.transactions, (tx) => tx.txHash === params.txHash, 'Transaction'),
+  },
+
+  {
+    method: 'GET',
+    pattern: '/search',
+    handler: ({ query }) => json(searchFixtures(query.get('q') || '')),
+  },
+]
+
+/**
+ * Match a path against a route pattern, returning the `:name` segment values
+ */
+function matchPattern(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/')
+  const pathParts = path.split('/')
+  if (patternParts.length !== pathParts.length) {
+    return null
+  }
+  const params: Record<string, string> = {}
+  for (let index = 0; index < patternParts.length; index += 1) {
+    const part = patternParts[index]
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = decodeURIComponent(pathParts[index])
+    } else if (part !== pathParts[index]) {
+      return null
+    }
+  }
+  return params
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (typeof body !== 'string') {
+    return undefined
+  }
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
+
+/**
+ * Wait until the request's signal aborts, as fetch does for a stalled response
+ */
+function waitForAbort(signal: AbortSignal | null | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    signal?.addEventListener('abort', () => reject(abortError()), { once: true })
+  })
+}
+
+function createMockApi() {
+  let overrides: Route[] = []
+  const requests: MockRequest[] = []
+
+  const findRoute = (method: string, path: string) => {
+    for (const route of [...overrides, ...DEFAULT_ROUTES]) {
+      if (route.method !== method) continue
+      const params = matchPattern(route.pattern, path)
+      if (params) {
+        return { route, params }
+      }
+    }
+    return null
+  }
+
+  const fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input), 'http://localhost')
+    const method = (init.method || 'GET').toUpperCase()
+    const path = url.pathname.replace(/^\/api/, '')
+    const match = findRoute(method, path)
+    const request: MockRequest = {
+      method,
+      path,
+      query: url.searchParams,
+      params: match?.params || {},
+      body: parseBody(init.body),
+    }
+    requests.push(request)
+
+    if (init.signal?.aborted) {
+      throw abortError()
+    }
+
+    const response = match
+      ? await match.route.handler(request)
+      : apiError(404, `No mock route for ${method} ${path}`)
+
+    switch (response.kind) {
+      case 'network-error':
+        throw new TypeError('Failed to fetch')
+      case 'pending':
+        return waitForAbort(init.signal)
+      case 'text':
+        return new Response(response.body, {
+          status: response.status,
+          headers: { 'Content-Type': 'text/html' },
+        })
+      default:
+        return new Response(JSON.stringify(response.body), {
+          status: response.status,
+          headers: { 'Content-Type': 'application/json' },
+        })
+    }
+  }
+
+  return {
+    fetch,
+    /** Every request received since the last reset, oldest first */
+    requests,
+    /**
+     * Serve a route from the given handler (or fixed response) until the
+     * next reset. Later overrides of the same route win.
+     */
+    on(pattern: string, response: MockHandler | MockResponse, method = 'GET') {
+      const handler = typeof response === 'function' ? response : () => response
+      overrides.unshift({ method, pattern, handler })
+    },
+    /** Requests received for a path, e.g. `/nodes` */
+    requestsTo(path: string) {
+      return requests.filter((request) => request.path === path)
+    },
+    reset() {
+      overrides = []
+      requests.length = 0
+    },
+  }
+}
+
+export const mockApi = createMockApi()
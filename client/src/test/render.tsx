@@ -0,0 +1,36 @@
+import type { ReactElement } from 'react'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import { render } from '@testing-library/react'
+import { WalletProvider } from '../wallet/WalletContext'
+
+type RenderPageOptions = {
+  /** URL the page is opened at, including any query string */
+  route?: string
+  /** Route pattern the page is mounted under, for pages that read URL params */
+  path?: string
+  /** Restore a previous connection of the mock wallet, as after a reload */
+  walletConnected?: boolean
+}
+
+/**
+ * Render a page inside the providers main.tsx sets up, with an in-memory
+ * router instead of the browser's history
+ */
+export function renderPage(
+  page: ReactElement,
+  { route = '/', path = '*', walletConnected = false }: RenderPageOptions = {},
+) {
+  if (walletConnected) {
+    window.localStorage.setItem('chainhealth.wallet.connected', 'true')
+  }
+
+  return render(
+    <MemoryRouter initialEntries={[route]}>
+      <WalletProvider>
+        <Routes>
+          <Route path={path} element={page} />
+        </Routes>
+      </WalletProvider>
+    </MemoryRouter>,
+  )
+}
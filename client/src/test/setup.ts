@@ -0,0 +1,54 @@
+/**
+ * Test Setup
+ * ===========
+ * Runs before every test file: routes `fetch` to the mock API and fills in
+ * the browser APIs jsdom lacks. After each test the rendered pages, cached
+ * queries and mock overrides are cleared, so tests do not leak into each other.
+ * Test files can replace the fetch stub, as the contract tests do.
+ */
+
+import { afterEach, beforeEach, vi } from 'vitest'
+import { cleanup } from '@testing-library/react'
+import { clearQueryCache } from '../api/cache'
+import { mockApi } from './mockApi'
+
+/** Live updates stay in the "connecting" state; tests feed data through the mock API */
+class MockEventSource {
+  onopen: (() => void) | null = null
+  onerror: (() => void) | null = null
+  addEventListener() {}
+  close() {}
+}
+
+/** Charts are measured at width 0, so only their data tables render */
+class MockResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+const logError = console.error
+
+beforeEach(() => {
+  // fetchAPI logs every failed request, which the error tests cause on purpose
+  vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+    if (!String(args[0]).startsWith('API Error')) {
+      logError(...args)
+    }
+  })
+  vi.stubGlobal('fetch', mockApi.fetch)
+  vi.stubGlobal('EventSource', MockEventSource)
+  vi.stubGlobal('ResizeObserver', MockResizeObserver)
+})
+
+afterEach(() => {
+  cleanup()
+  clearQueryCache()
+  mockApi.reset()
+  // Contract tests run in the node environment, which has no window
+  if (typeof window !== 'undefined') {
+    window.localStorage.clear()
+  }
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
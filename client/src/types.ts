@@ -1,174 +1,104 @@
-export type Pagination = {
-  page: number
-  limit: number
-  totalItems: number
-  totalPages: number
-  hasMore: boolean
-}
+/**
+ * The API types are generated from the server's OpenAPI document
+ * (api/generated.ts); the names the pages use are kept here.
+ */
+
+import type {
+  GetHealthRecordsParams,
+  GetHealthRecordTimeSeriesParams,
+  GetNodesParams,
+  GetStakersParams,
+  GetTransactionsParams,
+  LiveEventMap,
+  Pagination,
+} from './api/generated'
+
+export type {
+  CurrentEpoch,
+  DataType,
+  DelegateRequest,
+  DeviceType,
+  Epoch,
+  EpochStats,
+  EpochSummary,
+  ErrorResponse,
+  HealthRecord,
+  HealthRecordComparison,
+  HealthRecordGroupBy,
+  HealthRecordSearchResult,
+  HealthRecordSortField,
+  HealthRecordStats,
+  HealthRecordTimeSeries,
+  LiveEventMap,
+  LockPeriod,
+  Node,
+  NodeEpochReward,
+  NodeHeartbeat,
+  NodeReward,
+  NodeSearchResult,
+  NodeSortField,
+  NodeStats,
+  NodeStatus,
+  NodeType,
+  Pagination,
+  PlatformStats,
+  RecordStatusEvent,
+  Region,
+  ResyncEvent,
+  SearchResults,
+  SortOrder,
+  Staker,
+  StakerDetail,
+  StakeRequest,
+  StakerSearchResult,
+  StakerSortField,
+  StakerStats,
+  StakingActionResult,
+  StatsOverview,
+  TimeSeriesBucket,
+  Transaction,
+  TransactionEvent,
+  TransactionSearchResult,
+  TransactionSortField,
+  TransactionStats,
+  TxStatus,
+  TxType,
+  UnstakeRequest,
+  ValidationStatus,
+} from './api/generated'
 
 export type PaginatedResponse<T> = {
   data: T[]
   pagination: Pagination
 }
 
-export type StatsOverview = {
-  activeNodes: number
-  totalStaked: string
-  healthRecordsValidated: number
-  totalRewardsDistributed: string
-  totalUsers: number
-  totalTransactions: number
-}
+export type NodeListParams = GetNodesParams
 
-export type PlatformStats = {
-  metadata?: {
-    generatedAt: string
-    version: string
-  }
-  network: {
-    totalNodes: number
-    activeNodes: number
-    totalNodeStake: string
-    avgUptime: string
-    networkHealth: string
-  }
-  staking: {
-    totalStakers: number
-    totalStaked: string
-    totalPendingRewards: string
-    avgStakePerUser: string
-  }
-  healthData: {
-    totalRecords: number
-    validatedRecords: number
-    pendingRecords: number
-    validationRate: string
-    uniqueUsers: number
-  }
-  rewards: {
-    totalEpochs: number
-    currentEpoch: number
-    totalRewardsDistributed: string
-    avgRewardsPerEpoch: string
-  }
-  transactions: {
-    totalTransactions: number
-    totalVolume: string
-    confirmedRate: string
-  }
-}
+export type StakerListParams = GetStakersParams
 
-export type HealthRecord = {
-  recordId: string
-  userAddress: string
-  dataType: string
-  value: number
-  unit: string
-  deviceType: string
-  timestamp: number
-  validationStatus: string
-}
+export type HealthRecordListParams = GetHealthRecordsParams
 
-export type HealthRecordStats = {
-  totalRecords: number
-  validatedRecords: number
-  pendingRecords: number
-  rejectedRecords: number
-  validationRate: string
-  uniqueUsers: number
-  byDataType: Record<string, number>
-  byDeviceType: Record<string, number>
-  recordsByDay: Array<{ date: string; count: number }>
-}
+export type HealthRecordTimeSeriesParams = GetHealthRecordTimeSeriesParams
 
-export type Node = {
-  nodeId: string
-  operatorAddress?: string
-  nodeType: string
-  region: string
-  status: string
-  uptime: string
-  stakedAmount: string
-  totalRewardsEarned?: string
-  validationsPerformed: number
-  validationsSuccessful?: number
-  validationsFailed?: number
-  slashingEvents?: number
-  registeredAt?: number
-  lastHeartbeat?: number
-  metadata?: {
-    version?: string
-    hardware?: string
-    bandwidth?: number
-  }
-}
-
-export type NodeStats = {
-  totalNodes: number
-  activeNodes: number
-  totalStaked: string
-  totalRewards: string
-  avgUptime: string
-  totalValidations: number
-  byType: Record<string, number>
-  byStatus: Record<string, number>
-  byRegion: Record<string, number>
-}
+/**
+ * Filters shared by the health record list and time series. List filters
+ * match any of their values, and min/max bounds are inclusive.
+ */
+export type HealthRecordFilters = Omit<
+  HealthRecordTimeSeriesParams,
+  'bucket' | 'tzOffset' | 'groupBy'
+>
 
-export type Staker = {
-  stakerId: string
-  walletAddress: string
-  stakedAmount: string
-  pendingRewards: string
-  claimedRewards: string
-  stakingMultiplier: number
-  lockPeriod: number
-}
+export type TransactionListParams = GetTransactionsParams
 
-export type StakerStats = {
-  totalStakers: number
-  totalStaked: string
-  totalPendingRewards: string
-  totalClaimedRewards: string
-  avgStake: string
-  avgMultiplier: string
-  byLockPeriod: Record<string, number>
-  topStakers: Array<{
-    stakerId: string
-    walletAddress: string
-    stakedAmount: string
-    delegatedTo?: string
-  }>
+export type SearchGroup<T> = {
+  /** Matches in the whole dataset; `items` holds only the best few */
+  total: number
+  items: T[]
 }
 
-export type Transaction = {
-  txHash: string
-  txType: string
-  from: string
-  to: string
-  amount: string
-  gasUsed: number
-  gasPrice: number
-  timestamp: number
-  status: string
-}
+export type LiveEventType = keyof LiveEventMap
 
-export type TransactionStats = {
-  totalTransactions: number
-  confirmedTxs: number
-  pendingTxs: number
-  failedTxs: number
-  successRate: string
-  totalVolume: string
-  totalGasUsed: number
-  avgGasPrice: string
-  byType: Record<string, number>
-  volumeByType: Record<string, string>
-  recentTxs: Array<{
-    txHash: string
-    txType: string
-    amount: string
-    timestamp: number
-    status: string
-  }>
-}
+export type LiveEvent = {
+  [K in LiveEventType]: { id: number | null; type: K; data: LiveEventMap[K] }
+}[LiveEventType]
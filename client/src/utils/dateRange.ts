@@ -0,0 +1,93 @@
+/**
+ * Date Ranges
+ * ============
+ * Helpers for the date range picker and the endpoints that take a time range.
+ *
+ * Ranges are kept as local calendar dates (YYYY-MM-DD, the format of date
+ * inputs and of the URL) and only turned into timestamps for API calls.
+ * An empty start or end leaves that side of the range open.
+ */
+
+import type { HealthRecordTimeSeriesParams, TimeSeriesBucket } from '../types'
+
+export type DateRange = {
+  start: string
+  end: string
+}
+
+export const EMPTY_DATE_RANGE: DateRange = { start: '', end: '' }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function padDatePart(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * Local calendar date of a timestamp, as YYYY-MM-DD
+ */
+export function toDateInputValue(timestamp: number): string {
+  const date = new Date(timestamp)
+  return [
+    date.getFullYear(),
+    padDatePart(date.getMonth() + 1),
+    padDatePart(date.getDate()),
+  ].join('-')
+}
+
+/**
+ * The last `days` calendar days, including today
+ */
+export function presetRange(days: number, now = Date.now()): DateRange {
+  return {
+    start: toDateInputValue(now - (days - 1) * DAY_MS),
+    end: toDateInputValue(now),
+  }
+}
+
+function parseDate(value: string): number | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined
+  const timestamp = new Date(`${value}T00:00:00`).getTime()
+  return Number.isFinite(timestamp) ? timestamp : undefined
+}
+
+/**
+ * API params for a range: from the start of the first day to the end of the
+ * last. Open or invalid sides are left out.
+ */
+export function rangeToTimestamps(range: DateRange): { startDate?: number; endDate?: number } {
+  const start = parseDate(range.start)
+  const end = parseDate(range.end)
+  return {
+    startDate: start,
+    endDate: end === undefined ? undefined : end + DAY_MS - 1,
+  }
+}
+
+/**
+ * Bucket size that keeps a time-series chart readable for the range
+ */
+export function bucketForRange(range: DateRange, now = Date.now()): TimeSeriesBucket {
+  const { startDate, endDate = now } = rangeToTimestamps(range)
+  const days = startDate === undefined ? Number.POSITIVE_INFINITY : (endDate - startDate) / DAY_MS
+  // Hourly labels only show the time, so they are limited to a single day
+  if (days <= 1) return 'hour'
+  if (days <= 90) return 'day'
+  return 'week'
+}
+
+/**
+ * Time-series params for a range. The buckets are aligned to local days
+ * through the time zone offset at the end of the range.
+ */
+export function toTimeSeriesParams(
+  range: DateRange,
+  now = Date.now(),
+): Pick<HealthRecordTimeSeriesParams, 'bucket' | 'tzOffset' | 'startDate' | 'endDate'> {
+  const timestamps = rangeToTimestamps(range)
+  return {
+    bucket: bucketForRange(range, now),
+    tzOffset: new Date(timestamps.endDate ?? now).getTimezoneOffset(),
+    ...timestamps,
+  }
+}
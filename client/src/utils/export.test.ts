@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { fetchAllPages, type PageFetcher } from './export'
+
+type Row = { id: string }
+
+const rows = (from: number, to: number): Row[] =>
+  Array.from({ length: to - from }, (_, index) => ({ id: `ROW-${from + index}` }))
+
+describe('fetchAllPages', () => {
+  it('collects each row once while new rows shift the pages', async () => {
+    // Two rows arrive at the top of the list after the first page was read
+    let list = rows(0, 150)
+    const fetchPage: PageFetcher<Row> = async (page, limit) => {
+      const data = list.slice((page - 1) * limit, page * limit)
+      if (page === 1) list = [...rows(1000, 1002), ...list]
+      return {
+        data,
+        pagination: {
+          page,
+          limit,
+          totalItems: list.length,
+          totalPages: Math.ceil(list.length / limit),
+          hasMore: page * limit < list.length,
+        },
+      }
+    }
+
+    const collected = await fetchAllPages(fetchPage, { rowKey: (row) => row.id })
+
+    expect(collected.map((row) => row.id)).toEqual(rows(0, 150).map((row) => row.id))
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Export Utilities
+ * =================
+ * Helpers for downloading filtered list results as CSV or JSON.
+ */
+
+import type { RequestOptions } from '../api'
+import type { PaginatedResponse } from '../types'
+
+export type ExportFormat = 'csv' | 'json'
+
+export type ExportColumn<T> = {
+  header: string
+  value: (row: T) => string | number | null | undefined
+}
+
+export type PageFetcher<T> = (
+  page: number,
+  limit: number,
+  options: RequestOptions,
+) => Promise<PaginatedResponse<T>>
+
+type FetchAllOptions<T> = RequestOptions & {
+  /** Identifies a row, to drop the repeats of a shifting list */
+  rowKey: (row: T) => string
+  onProgress?: (loaded: number, total: number) => void
+}
+
+/** Largest page size the API accepts */
+export const EXPORT_PAGE_SIZE = 100
+
+/**
+ * Walk every page of a paginated endpoint and collect the rows.
+ *
+ * Pages are fetched by offset, so rows added in the meantime (e.g. live
+ * transactions and health records) push the rest down and a page can repeat
+ * rows of the previous one; those are collected once. Rows added during the
+ * export may be included, and a row that stops matching the filters while the
+ * export runs (e.g. a pending transaction settling) can be missed.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: PageFetcher<T>,
+  { signal, rowKey, onProgress }: FetchAllOptions<T>,
+): Promise<T[]> {
+  const rows = new Map<string, T>()
+  let page = 1
+  let totalPages = 1
+
+  do {
+    const response = await fetchPage(page, EXPORT_PAGE_SIZE, { signal })
+    response.data.forEach((row) => {
+      if (!rows.has(rowKey(row))) rows.set(rowKey(row), row)
+    })
+    totalPages = response.pagination.totalPages
+    onProgress?.(rows.size, response.pagination.totalItems)
+    page += 1
+  } while (page <= totalPages)
+
+  return [...rows.values()]
+}
+
+/**
+ * Escape a single CSV cell. Text that a spreadsheet would evaluate as a
+ * formula is prefixed with a quote so it stays plain text.
+ */
+export function escapeCsvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const lines = [
+    columns.map((column) => escapeCsvCell(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvCell(column.value(row))).join(',')),
+  ]
+  return `${lines.join('\r\n')}\r\n`
+}
+
+export function toJson<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const records = rows.map((row) =>
+    Object.fromEntries(columns.map((column) => [column.header, column.value(row) ?? null])),
+  )
+  return JSON.stringify(records, null, 2)
+}
+
+/**
+ * Hand a generated file to the browser as a download
+ */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Format a timestamp for export; ISO 8601 keeps full precision and sorts as text
+ */
+export function toIsoTime(timestamp: number | null | undefined): string {
+  return timestamp ? new Date(timestamp).toISOString() : ''
+}
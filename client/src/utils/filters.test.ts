@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { toNumericRange } from './filters'
+
+describe('toNumericRange', () => {
+  it('parses both bounds', () => {
+    expect(toNumericRange('40', '60.5')).toEqual({ min: 40, max: 60.5 })
+  })
+
+  it('leaves empty or invalid bounds open', () => {
+    expect(toNumericRange('', '90')).toEqual({ min: undefined, max: 90 })
+    expect(toNumericRange('abc', ' ')).toEqual({ min: undefined, max: undefined })
+  })
+
+  it('swaps a reversed range', () => {
+    expect(toNumericRange('60', '40')).toEqual({ min: 40, max: 60 })
+  })
+})
@@ -0,0 +1,32 @@
+/**
+ * List Filters
+ * =============
+ * Helpers for turning the filter inputs kept in the URL into the typed
+ * params of the list endpoints.
+ */
+
+export type NumericRange = {
+  min?: number
+  max?: number
+}
+
+function parseBound(value: string): number | undefined {
+  if (value.trim() === '') {
+    return undefined
+  }
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Bounds for a min/max pair of inputs. Empty or invalid inputs leave that
+ * side open, and a reversed range is swapped because the API rejects one.
+ */
+export function toNumericRange(min: string, max: string): NumericRange {
+  const lower = parseBound(min)
+  const upper = parseBound(max)
+  if (lower !== undefined && upper !== undefined && lower > upper) {
+    return { min: upper, max: lower }
+  }
+  return { min: lower, max: upper }
+}
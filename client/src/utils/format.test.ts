@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  formatAxisTick,
+  formatBucketLabel,
+  formatCompactNumber,
+  formatCountdown,
+  formatDate,
+  formatGas,
+  formatNumber,
+  formatPercent,
+  formatRelativeTime,
+  formatTokenAmount,
+  formatUptime,
+  getStatusClass,
+  shortenAddress,
+  shortenHash,
+} from './format'
+
+const MINUTE_MS = 60_000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+describe('formatNumber', () => {
+  it('adds thousands separators and fixes the decimals', () => {
+    expect(formatNumber(1234567)).toBe('1,234,567')
+    expect(formatNumber('1234.5', 2)).toBe('1,234.50')
+    expect(formatNumber(0.126, 2)).toBe('0.13')
+  })
+
+  it('shows a dash for missing values', () => {
+    expect(formatNumber(null)).toBe('-')
+    expect(formatNumber(undefined)).toBe('-')
+  })
+})
+
+describe('formatCompactNumber', () => {
+  it('abbreviates thousands, millions and billions', () => {
+    expect(formatCompactNumber(999)).toBe('999.00')
+    expect(formatCompactNumber(1500)).toBe('1.50K')
+    expect(formatCompactNumber('2500000')).toBe('2.50M')
+    expect(formatCompactNumber(3_000_000_000)).toBe('3.00B')
+  })
+
+  it('shows a dash for missing values', () => {
+    expect(formatCompactNumber(null)).toBe('-')
+  })
+})
+
+describe('formatAxisTick', () => {
+  it('drops trailing zeros', () => {
+    expect(formatAxisTick(0)).toBe('0')
+    expect(formatAxisTick(500)).toBe('500')
+    expect(formatAxisTick(1500)).toBe('1.5K')
+    expect(formatAxisTick(2_000_000)).toBe('2M')
+    expect(formatAxisTick(0.125)).toBe('0.13')
+  })
+
+  it('abbreviates negative values by magnitude', () => {
+    expect(formatAxisTick(-1500)).toBe('-1.5K')
+  })
+})
+
+describe('formatTokenAmount', () => {
+  it('formats amounts with the token symbol', () => {
+    expect(formatTokenAmount('48000.123456')).toBe('48,000.12 HEALTH')
+    expect(formatTokenAmount(5, 'ETH', 0)).toBe('5 ETH')
+  })
+
+  it('shows a dash for missing values', () => {
+    expect(formatTokenAmount(undefined)).toBe('-')
+  })
+})
+
+describe('shortenAddress and shortenHash', () => {
+  const address = '0xc4a1e0d5b7f3a9e2c8d6b4f0a1e3c5d7b9f2a4e6'
+
+  it('keeps the prefix and the last characters', () => {
+    expect(shortenAddress(address)).toBe('0xc4a1...a4e6')
+    expect(shortenAddress(address, 6)).toBe('0xc4a1e0...f2a4e6')
+    expect(shortenHash(`0x${'ab'.repeat(32)}`)).toBe('0xababab...ababab')
+  })
+
+  it('shows a dash for missing values', () => {
+    expect(shortenAddress('')).toBe('-')
+    expect(shortenHash(null)).toBe('-')
+  })
+})
+
+describe('formatDate', () => {
+  it('formats a timestamp as a date', () => {
+    expect(formatDate(Date.UTC(2025, 0, 15, 12))).toBe('Jan 15, 2025')
+  })
+
+  it('shows a dash for missing timestamps', () => {
+    expect(formatDate(0)).toBe('-')
+  })
+})
+
+describe('formatBucketLabel', () => {
+  it('labels day and week buckets with their local day', () => {
+    const start = new Date(2025, 2, 3).getTime()
+    expect(formatBucketLabel(start, 'day')).toBe('Mar 3')
+    expect(formatBucketLabel(start, 'week')).toBe('Mar 3')
+  })
+})
+
+describe('formatRelativeTime', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('uses the largest whole unit', () => {
+    vi.useFakeTimers()
+    const now = Date.UTC(2025, 0, 1)
+    vi.setSystemTime(now)
+
+    expect(formatRelativeTime(now - 30_000)).toBe('Just now')
+    expect(formatRelativeTime(now - 5 * MINUTE_MS)).toBe('5m ago')
+    expect(formatRelativeTime(now - 3 * HOUR_MS)).toBe('3h ago')
+    expect(formatRelativeTime(now - 2 * DAY_MS - HOUR_MS)).toBe('2d ago')
+  })
+
+  it('shows a dash for missing timestamps', () => {
+    expect(formatRelativeTime(null)).toBe('-')
+  })
+})
+
+describe('formatCountdown', () => {
+  const now = Date.UTC(2025, 0, 1)
+
+  it('shows the two largest units left', () => {
+    expect(formatCountdown(now + 12 * DAY_MS + 4 * HOUR_MS, now)).toBe('12d 4h')
+    expect(formatCountdown(now + 3 * HOUR_MS + 20 * MINUTE_MS, now)).toBe('3h 20m')
+    expect(formatCountdown(now + 5 * MINUTE_MS, now)).toBe('5m')
+  })
+
+  it('rounds the last minute up', () => {
+    expect(formatCountdown(now + 10_000, now)).toBe('1m')
+  })
+
+  it('reports passed times as unlocked', () => {
+    expect(formatCountdown(now, now)).toBe('Unlocked')
+    expect(formatCountdown(now - DAY_MS, now)).toBe('Unlocked')
+  })
+})
+
+describe('formatPercent and formatUptime', () => {
+  it('fixes the decimals and adds a percent sign', () => {
+    expect(formatPercent(12.3456)).toBe('12.35%')
+    expect(formatPercent('99.5', 1)).toBe('99.5%')
+    expect(formatUptime('97.87560')).toBe('97.88%')
+  })
+
+  it('shows a dash for missing values', () => {
+    expect(formatPercent(null)).toBe('-')
+  })
+})
+
+describe('getStatusClass', () => {
+  it('maps statuses of every entity to a badge class', () => {
+    expect(getStatusClass('ACTIVE')).toBe('badge-active')
+    expect(getStatusClass('validated')).toBe('badge-active')
+    expect(getStatusClass('CONFIRMED')).toBe('badge-active')
+    expect(getStatusClass('PENDING')).toBe('badge-pending')
+    expect(getStatusClass('INACTIVE')).toBe('badge-inactive')
+    expect(getStatusClass('SLASHED')).toBe('badge-error')
+    expect(getStatusClass('REJECTED')).toBe('badge-error')
+    expect(getStatusClass('FAILED')).toBe('badge-error')
+  })
+
+  it('falls back to the inactive badge', () => {
+    expect(getStatusClass('UNKNOWN')).toBe('badge-inactive')
+    expect(getStatusClass(undefined)).toBe('badge-inactive')
+  })
+})
+
+describe('formatGas', () => {
+  it('shows the gas used and its cost in ETH', () => {
+    expect(formatGas(21000, 100)).toBe('21,000 (0.002100 ETH)')
+  })
+
+  it('shows a dash without a gas price', () => {
+    expect(formatGas(21000, 0)).toBe('-')
+    expect(formatGas(null, 100)).toBe('-')
+  })
+})
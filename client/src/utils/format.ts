@@ -35,6 +35,23 @@ export function formatCompactNumber(num: number | string | null | undefined): st
   return parsed.toFixed(2)
 }
 
+/**
+ * Format a chart axis tick: abbreviated like formatCompactNumber, but without
+ * trailing zeros so ticks stay short (e.g. 0, 500, 1.5K, 2M)
+ */
+export function formatAxisTick(value: number): string {
+  const units: Array<[number, string]> = [
+    [1_000_000_000, 'B'],
+    [1_000_000, 'M'],
+    [1_000, 'K'],
+  ]
+  const unit = units.find(([size]) => Math.abs(value) >= size)
+  if (unit) {
+    return `${Number((value / unit[0]).toFixed(1))}${unit[1]}`
+  }
+  return String(Number(value.toFixed(2)))
+}
+
 /**
  * Format a token amount (e.g., HEALTH tokens)
  */
@@ -92,6 +109,37 @@ export function formatDateTime(timestamp: number | null | undefined): string {
   })
 }
 
+/**
+ * Format a timestamp as a time of day (e.g., "14:05:09")
+ */
+export function formatTime(timestamp: number | null | undefined): string {
+  if (!timestamp) return '-'
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  })
+}
+
+/**
+ * Format a time-series bucket start: the hour for hourly buckets, otherwise
+ * the day. Buckets start on local days, as requested by toTimeSeriesParams.
+ */
+export function formatBucketLabel(timestamp: number, bucket: string): string {
+  if (bucket === 'hour') {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    })
+  }
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
 /**
  * Format a timestamp to relative time (e.g., "5 minutes ago")
  */
@@ -112,6 +160,24 @@ export function formatRelativeTime(timestamp: number | null | undefined): string
   return 'Just now'
 }
 
+/**
+ * Format the time remaining until a timestamp (e.g., "12d 4h")
+ */
+export function formatCountdown(timestamp: number | null | undefined, now = Date.now()): string {
+  if (!timestamp) return '-'
+
+  const diff = timestamp - now
+  if (diff <= 0) return 'Unlocked'
+
+  const minutes = Math.floor(diff / 60000)
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+
+  if (days > 0) return `${days}d ${hours % 24}h`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${Math.max(1, minutes)}m`
+}
+
 /**
  * Format a percentage value
  */
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_EPOCH_DURATION_MS,
+  compareLockPeriods,
+  lockPeriodsFromBuckets,
+  projectRewards,
+  type RewardsNetwork,
+} from './rewards'
+
+const network: RewardsNetwork = {
+  totalStaked: 900,
+  avgMultiplier: 1,
+  rewardsPerEpoch: 100,
+  epochDurationMs: DEFAULT_EPOCH_DURATION_MS,
+}
+
+describe('projectRewards', () => {
+  it('shares the epoch pool by weighted stake, including the new position', () => {
+    // 365-day lock doubles the weight: 100 * 2 / (900 + 200)
+    const projection = projectRewards(100, 365, network)
+
+    expect(projection.multiplier).toBe(2)
+    expect(projection.poolShare).toBeCloseTo(200 / 1100)
+    expect(projection.rewardsPerEpoch).toBeCloseTo((100 * 200) / 1100)
+  })
+
+  it('annualizes rewards over the epochs in a year', () => {
+    const projection = projectRewards(100, 365, network)
+    const epochsPerYear = 365 / 7
+
+    expect(projection.rewardsPerYear).toBeCloseTo(projection.rewardsPerEpoch * epochsPerYear)
+    expect(projection.apr).toBeCloseTo((projection.rewardsPerYear / 100) * 100)
+  })
+
+  it('counts the rewards over one lock period', () => {
+    const projection = projectRewards(100, 14, network)
+
+    expect(projection.rewardsOverLock).toBeCloseTo(projection.rewardsPerEpoch * 2)
+  })
+
+  it('weights the network stake by its average multiplier', () => {
+    const boosted = projectRewards(100, 7, { ...network, avgMultiplier: 2 })
+    const plain = projectRewards(100, 7, network)
+
+    expect(boosted.poolShare).toBeLessThan(plain.poolShare)
+  })
+
+  it('gives a sole staker the whole pool', () => {
+    const projection = projectRewards(50, 30, { ...network, totalStaked: 0 })
+
+    expect(projection.poolShare).toBe(1)
+    expect(projection.rewardsPerEpoch).toBe(100)
+  })
+
+  it('projects nothing for an empty or invalid amount', () => {
+    for (const amount of [0, -5, Number.NaN]) {
+      const projection = projectRewards(amount, 30, network)
+      expect(projection.amount).toBe(0)
+      expect(projection.rewardsPerEpoch).toBe(0)
+      expect(projection.apr).toBe(0)
+    }
+  })
+
+  it('falls back to one-week epochs', () => {
+    const withoutDuration = projectRewards(100, 30, { ...network, epochDurationMs: undefined })
+
+    expect(withoutDuration).toEqual(projectRewards(100, 30, network))
+  })
+})
+
+describe('compareLockPeriods', () => {
+  it('returns one projection per distinct lock period, shortest first', () => {
+    const projections = compareLockPeriods(100, [90, 7, 30, 7], network)
+
+    expect(projections.map((projection) => projection.lockPeriod)).toEqual([7, 30, 90])
+  })
+
+  it('yields a higher APR for longer locks', () => {
+    const aprs = compareLockPeriods(100, [7, 30, 365], network).map((item) => item.apr)
+
+    expect(aprs[0]).toBeLessThan(aprs[1])
+    expect(aprs[1]).toBeLessThan(aprs[2])
+  })
+})
+
+describe('lockPeriodsFromBuckets', () => {
+  it('parses and sorts the day counts of the buckets', () => {
+    expect(lockPeriodsFromBuckets({ '30 days': 4, '7 days': 2, '365 days': 1 })).toEqual([
+      7, 30, 365,
+    ])
+  })
+
+  it('skips labels that are not day counts', () => {
+    expect(lockPeriodsFromBuckets({ unknown: 3, '14 days': 1 })).toEqual([14])
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Rewards Projection
+ * ===================
+ * Estimates staking yield from network averages.
+ *
+ * The model assumes each epoch's reward pool is shared by all stakers in
+ * proportion to their weighted stake (amount × lock multiplier). The network's
+ * weighted stake is approximated as total stake × average multiplier, and the
+ * projected position is added to it, since staking more dilutes everyone.
+ * Projections use the average pool per epoch, so they are estimates rather
+ * than guarantees.
+ */
+
+import { lockMultiplier } from './staking'
+
+export const DEFAULT_EPOCH_DURATION_MS = 7 * 24 * 60 * 60 * 1000
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type RewardsNetwork = {
+  /** Tokens currently staked across the network */
+  totalStaked: number
+  /** Average lock multiplier across stakers */
+  avgMultiplier: number
+  /** Average reward pool distributed per epoch */
+  rewardsPerEpoch: number
+  epochDurationMs?: number
+}
+
+export type RewardsProjection = {
+  amount: number
+  lockPeriod: number
+  multiplier: number
+  /** Fraction of each epoch's pool the position would receive, 0 to 1 */
+  poolShare: number
+  rewardsPerEpoch: number
+  rewardsPerYear: number
+  /** Annual rewards as a percentage of the amount, without compounding */
+  apr: number
+  /** Rewards earned over one full lock period */
+  rewardsOverLock: number
+}
+
+function positive(value: number): number {
+  return Number.isFinite(value) && value > 0 ? value : 0
+}
+
+/**
+ * Project the rewards for staking an amount with a given lock period
+ */
+export function projectRewards(
+  amount: number,
+  lockPeriod: number,
+  network: RewardsNetwork,
+): RewardsProjection {
+  const stake = positive(amount)
+  const multiplier = lockMultiplier(lockPeriod)
+  const weight = stake * multiplier
+  const networkWeight = positive(network.totalStaked) * (positive(network.avgMultiplier) || 1)
+  const totalWeight = networkWeight + weight
+
+  const poolShare = totalWeight ? weight / totalWeight : 0
+  const rewardsPerEpoch = positive(network.rewardsPerEpoch) * poolShare
+  const epochDuration = positive(network.epochDurationMs ?? 0) || DEFAULT_EPOCH_DURATION_MS
+  const epochsPerYear = YEAR_MS / epochDuration
+  const rewardsPerYear = rewardsPerEpoch * epochsPerYear
+
+  return {
+    amount: stake,
+    lockPeriod,
+    multiplier,
+    poolShare,
+    rewardsPerEpoch,
+    rewardsPerYear,
+    apr: stake ? (rewardsPerYear / stake) * 100 : 0,
+    rewardsOverLock: rewardsPerEpoch * ((lockPeriod * DAY_MS) / epochDuration),
+  }
+}
+
+/**
+ * Project the same amount across several lock periods, in ascending order
+ */
+export function compareLockPeriods(
+  amount: number,
+  lockPeriods: number[],
+  network: RewardsNetwork,
+): RewardsProjection[] {
+  return [...new Set(lockPeriods)]
+    .sort((a, b) => a - b)
+    .map((lockPeriod) => projectRewards(amount, lockPeriod, network))
+}
+
+/**
+ * Lock periods in days from the staker stats buckets, e.g. "30 days" -> 30
+ */
+export function lockPeriodsFromBuckets(byLockPeriod: Record<string, number>): number[] {
+  return Object.keys(byLockPeriod)
+    .map((label) => Number.parseInt(label, 10))
+    .filter((days) => Number.isFinite(days) && days > 0)
+    .sort((a, b) => a - b)
+}
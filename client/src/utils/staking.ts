@@ -0,0 +1,126 @@
+/**
+ * Staking Actions
+ * ================
+ * Client-side rules for the staking actions, mirroring the server's checks
+ * so forms can explain a problem before submitting, and the projection of
+ * each action onto a staker for optimistic updates.
+ */
+
+import type { LockPeriod, Staker } from '../types'
+
+export const LOCK_PERIODS: LockPeriod[] = [7, 14, 30, 60, 90, 180, 365]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const AMOUNT_PATTERN = /^\d+(\.\d{1,6})?$/
+
+export type StakingAction =
+  | { type: 'stake'; amount: string; lockPeriod: LockPeriod }
+  | { type: 'unstake'; amount: string }
+  | { type: 'claim' }
+  | { type: 'delegate'; nodeId: string }
+
+export type StakingActionType = StakingAction['type']
+
+export const STAKING_ACTION_LABELS: Record<StakingActionType, string> = {
+  stake: 'Stake',
+  unstake: 'Unstake',
+  claim: 'Claim rewards',
+  delegate: 'Delegate',
+}
+
+/**
+ * Multiplier the server applies for a lock period
+ */
+export function lockMultiplier(lockPeriod: number): number {
+  return 1 + lockPeriod / 365
+}
+
+export function isLocked(staker: Staker, now = Date.now()): boolean {
+  return now < staker.unlockTime
+}
+
+function amountError(amount: string): string | null {
+  if (!AMOUNT_PATTERN.test(amount.trim())) {
+    return 'Enter an amount with at most 6 decimals.'
+  }
+  return Number.parseFloat(amount) > 0 ? null : 'Enter an amount greater than 0.'
+}
+
+/**
+ * Why the action would be rejected for this staker, or null if it is valid
+ */
+export function validateStakingAction(
+  staker: Staker,
+  action: StakingAction,
+  now = Date.now(),
+): string | null {
+  switch (action.type) {
+    case 'stake':
+      if (!LOCK_PERIODS.includes(action.lockPeriod)) {
+        return 'Choose a supported lock period.'
+      }
+      if (action.lockPeriod < staker.lockPeriod) {
+        return `The lock period cannot be shorter than the current ${staker.lockPeriod} days.`
+      }
+      return amountError(action.amount)
+    case 'unstake': {
+      if (isLocked(staker, now)) {
+        return `The stake is locked until ${new Date(staker.unlockTime).toLocaleDateString()}.`
+      }
+      const error = amountError(action.amount)
+      if (error) {
+        return error
+      }
+      return Number.parseFloat(action.amount) > Number.parseFloat(staker.stakedAmount)
+        ? 'The amount exceeds your staked balance.'
+        : null
+    }
+    case 'claim':
+      return Number.parseFloat(staker.pendingRewards) > 0 ? null : 'There are no rewards to claim.'
+    case 'delegate':
+      if (!action.nodeId) {
+        return 'Choose a node.'
+      }
+      return action.nodeId === staker.delegatedTo
+        ? `The stake is already delegated to ${action.nodeId}.`
+        : null
+  }
+}
+
+/**
+ * The staker as it will look once the server applies the action
+ */
+export function applyStakingAction(
+  staker: Staker,
+  action: StakingAction,
+  now = Date.now(),
+): Staker {
+  const staked = Number.parseFloat(staker.stakedAmount)
+
+  switch (action.type) {
+    case 'stake':
+      return {
+        ...staker,
+        stakedAmount: (staked + Number.parseFloat(action.amount)).toFixed(6),
+        lockPeriod: action.lockPeriod,
+        stakingMultiplier: lockMultiplier(action.lockPeriod),
+        unlockTime: Math.max(staker.unlockTime, now + action.lockPeriod * DAY_MS),
+      }
+    case 'unstake':
+      return {
+        ...staker,
+        stakedAmount: (staked - Number.parseFloat(action.amount)).toFixed(6),
+      }
+    case 'claim': {
+      const claimed =
+        Number.parseFloat(staker.claimedRewards) + Number.parseFloat(staker.pendingRewards)
+      return {
+        ...staker,
+        pendingRewards: (0).toFixed(6),
+        claimedRewards: claimed.toFixed(6),
+      }
+    }
+    case 'delegate':
+      return { ...staker, delegatedTo: action.nodeId }
+  }
+}
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_CONTRACT_MODE?: 'strict' | 'warn'
+  readonly VITE_WALLET_MODE?: 'mock'
+  readonly VITE_MOCK_WALLET_ADDRESS?: string
+}
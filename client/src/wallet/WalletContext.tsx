@@ -0,0 +1,142 @@
+import {
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react'
+import { isUserRejection, resolveWalletProvider, type WalletProviderKind } from './provider'
+
+export type WalletStatus = 'unavailable' | 'disconnected' | 'connecting' | 'connected'
+
+export type WalletState = {
+  /** Connected account, or null when no wallet is connected */
+  address: string | null
+  status: WalletStatus
+  providerKind: WalletProviderKind | null
+  error: string
+  connect: () => Promise<void>
+  disconnect: () => Promise<void>
+}
+
+const CONNECTED_STORAGE_KEY = 'chainhealth.wallet.connected'
+
+export const WalletContext = createContext<WalletState | null>(null)
+
+function firstAccount(accounts: unknown): string | null {
+  return Array.isArray(accounts) && typeof accounts[0] === 'string' ? accounts[0] : null
+}
+
+/**
+ * Connects to the user's wallet and shares the account app-wide.
+ *
+ * A connection is remembered across reloads and restored without a prompt
+ * through `eth_accounts`. Account switches in the wallet are followed through
+ * `accountsChanged`.
+ */
+export function WalletProvider({ children }: { children: ReactNode }) {
+  const [wasConnected] = useState(
+    () => window.localStorage.getItem(CONNECTED_STORAGE_KEY) === 'true',
+  )
+  const [resolved] = useState(() => resolveWalletProvider(wasConnected))
+  const [address, setAddress] = useState<string | null>(null)
+  const [connecting, setConnecting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!resolved) {
+      return undefined
+    }
+    const { provider } = resolved
+    let active = true
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      const account = firstAccount(accounts)
+      setAddress(account)
+      if (!account) {
+        window.localStorage.removeItem(CONNECTED_STORAGE_KEY)
+      }
+    }
+    provider.on('accountsChanged', handleAccountsChanged)
+
+    if (wasConnected) {
+      provider
+        .request({ method: 'eth_accounts' })
+        .then((accounts) => {
+          if (active) {
+            setAddress(firstAccount(accounts))
+          }
+        })
+        .catch(() => {})
+    }
+
+    return () => {
+      active = false
+      provider.removeListener('accountsChanged', handleAccountsChanged)
+    }
+  }, [resolved, wasConnected])
+
+  const connect = useCallback(async () => {
+    if (!resolved) {
+      setError('No wallet found. Install a browser wallet such as MetaMask.')
+      return
+    }
+    setConnecting(true)
+    setError('')
+    try {
+      const account = firstAccount(
+        await resolved.provider.request({ method: 'eth_requestAccounts' }),
+      )
+      setAddress(account)
+      if (account) {
+        window.localStorage.setItem(CONNECTED_STORAGE_KEY, 'true')
+      }
+    } catch (err) {
+      setError(
+        isUserRejection(err)
+          ? 'The connection request was rejected in the wallet.'
+          : err instanceof Error ? err.message : 'Wallet connection failed.',
+      )
+    } finally {
+      setConnecting(false)
+    }
+  }, [resolved])
+
+  const disconnect = useCallback(async () => {
+    setAddress(null)
+    setError('')
+    window.localStorage.removeItem(CONNECTED_STORAGE_KEY)
+    // Not every wallet supports revoking; the app forgets the account either way
+    try {
+      await resolved?.provider.request({
+        method: 'wallet_revokePermissions',
+        params: [{ eth_accounts: {} }],
+      })
+    } catch {
+      // Ignore wallets without permission revocation
+    }
+  }, [resolved])
+
+  const status: WalletStatus = address
+    ? 'connected'
+    : connecting
+      ? 'connecting'
+      : resolved
+        ? 'disconnected'
+        : 'unavailable'
+
+  const value = useMemo(
+    () => ({
+      address,
+      status,
+      providerKind: resolved?.kind ?? null,
+      error,
+      connect,
+      disconnect,
+    }),
+    [address, status, resolved, error, connect, disconnect],
+  )
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>
+}
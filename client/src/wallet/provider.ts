@@ -0,0 +1,137 @@
+/**
+ * Wallet Providers
+ * =================
+ * The slice of EIP-1193 the app uses, plus a deterministic mock provider.
+ *
+ * An injected provider (e.g. MetaMask's `window.ethereum`) is preferred when
+ * the browser has one. During development, or when VITE_WALLET_MODE=mock,
+ * the mock stands in for it: it connects without a prompt and always reports
+ * the same account, which the server's data generator seeds with a staking
+ * position, health records and transactions.
+ */
+
+export type Eip1193RequestArguments = {
+  method: string
+  params?: unknown[] | Record<string, unknown>
+}
+
+export type Eip1193Provider = {
+  request: (args: Eip1193RequestArguments) => Promise<unknown>
+  on: (event: 'accountsChanged', listener: (accounts: string[]) => void) => void
+  removeListener: (event: 'accountsChanged', listener: (accounts: string[]) => void) => void
+}
+
+export type WalletProviderKind = 'injected' | 'mock'
+
+export type ResolvedWalletProvider = {
+  kind: WalletProviderKind
+  provider: Eip1193Provider
+}
+
+/** Matches DEMO_WALLET_ADDRESS in the server's data generator */
+export const MOCK_WALLET_ADDRESS = '0xc4a1e0d5b7f3a9e2c8d6b4f0a1e3c5d7b9f2a4e6'
+export const MOCK_CHAIN_ID = '0x539'
+
+/** EIP-1193 error code for a request the user declined */
+const USER_REJECTED_CODE = 4001
+/** EIP-1193 error code for a method the provider does not support */
+const UNSUPPORTED_METHOD_CODE = 4200
+
+/**
+ * Error shape providers reject with, per EIP-1193
+ */
+export class ProviderRpcError extends Error {
+  readonly code: number
+
+  constructor(message: string, code: number) {
+    super(message)
+    this.name = 'ProviderRpcError'
+    this.code = code
+  }
+}
+
+export function isUserRejection(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === USER_REJECTED_CODE
+}
+
+type MockProviderOptions = {
+  address?: string
+  /** Start with the account already exposed, as after an earlier connection */
+  authorized?: boolean
+}
+
+/**
+ * In-memory EIP-1193 provider with a single fixed account
+ */
+export function createMockProvider({
+  address = MOCK_WALLET_ADDRESS,
+  authorized = false,
+}: MockProviderOptions = {}): Eip1193Provider {
+  const listeners = new Set<(accounts: string[]) => void>()
+  let connected = authorized
+
+  const accounts = () => (connected ? [address] : [])
+  const setConnected = (next: boolean) => {
+    if (next !== connected) {
+      connected = next
+      listeners.forEach((listener) => listener(accounts()))
+    }
+  }
+
+  return {
+    async request({ method }) {
+      switch (method) {
+        case 'eth_chainId':
+          return MOCK_CHAIN_ID
+        case 'eth_accounts':
+          return accounts()
+        case 'eth_requestAccounts':
+          setConnected(true)
+          return accounts()
+        case 'wallet_revokePermissions':
+          setConnected(false)
+          return null
+        default:
+          throw new ProviderRpcError(
+            `The mock wallet does not support ${method}`,
+            UNSUPPORTED_METHOD_CODE,
+          )
+      }
+    },
+    on(_event, listener) {
+      listeners.add(listener)
+    },
+    removeListener(_event, listener) {
+      listeners.delete(listener)
+    },
+  }
+}
+
+export function getInjectedProvider(): Eip1193Provider | null {
+  const candidate = (window as { ethereum?: Partial<Eip1193Provider> }).ethereum
+  return typeof candidate?.request === 'function' ? (candidate as Eip1193Provider) : null
+}
+
+/**
+ * Pick the provider to connect through, or null when no wallet is available
+ */
+export function resolveWalletProvider(authorized: boolean): ResolvedWalletProvider | null {
+  const mock = () => ({
+    kind: 'mock' as const,
+    provider: createMockProvider({
+      address: import.meta.env.VITE_MOCK_WALLET_ADDRESS || MOCK_WALLET_ADDRESS,
+      authorized,
+    }),
+  })
+
+  if (import.meta.env.VITE_WALLET_MODE === 'mock') {
+    return mock()
+  }
+
+  const injected = getInjectedProvider()
+  if (injected) {
+    return { kind: 'injected', provider: injected }
+  }
+
+  return import.meta.env.DEV ? mock() : null
+}
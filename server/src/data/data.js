@@ -0,0 +1,33 @@
+/**
+ * ChainHealth AI - Mock Data
+ * ===========================
+ * Generates the in-memory datasets when the server starts. The data is
+ * deterministic for a given scenario, seed and reference time, which are
+ * read from the environment:
+ *
+ * - DATA_SCENARIO: Scenario key from scenarios.js, default 'default'
+ * - DATA_SEED: Integer seed, default 1
+ * - DATA_REFERENCE_TIME: Timestamp or ISO date the data is generated
+ *   relative to, default the generator's 2025-01-01T00:00:00Z. Pass 'now' to
+ *   place the data relative to the server's clock at startup instead.
+ *
+ * Besides the datasets, `referenceTime` is exported for routes that need the
+ * data's "now", e.g. for recent activity.
+ */
+
+const { generateData, parseReferenceTime, DEFAULT_REFERENCE_TIME } = require('../generator');
+
+const { DATA_SCENARIO, DATA_SEED, DATA_REFERENCE_TIME } = process.env;
+
+const referenceTime = DATA_REFERENCE_TIME
+  ? parseReferenceTime(DATA_REFERENCE_TIME)
+  : DEFAULT_REFERENCE_TIME;
+
+module.exports = {
+  ...generateData({
+    scenario: DATA_SCENARIO || undefined,
+    seed: DATA_SEED ? Number(DATA_SEED) : undefined,
+    referenceTime
+  }),
+  referenceTime
+};
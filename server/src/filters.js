@@ -0,0 +1,77 @@
+/**
+ * List Filters
+ * =============
+ * Query param parsing shared by the list endpoints.
+ *
+ * - Multi-value params take a comma-separated list (?status=ACTIVE,PENDING)
+ *   or repeat the param (?status=ACTIVE&status=PENDING) and match any value
+ * - Range params come in min/max pairs named after the field
+ *   (?minUptime=90&maxUptime=99); both bounds are inclusive and optional
+ */
+
+/**
+ * Parse a multi-value param into upper-case values, or null when it is absent
+ */
+function parseList(value) {
+  if (value === undefined) return null;
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim().toUpperCase())
+    .filter(Boolean);
+  return values.length ? [...new Set(values)] : null;
+}
+
+/**
+ * Whether a value is one of the parsed list values; an absent list matches all
+ */
+function matchesList(value, list) {
+  return !list || list.includes(value);
+}
+
+function capitalize(text) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Parse the min/max params for a numeric field, e.g. minValue and maxValue
+ * for 'value'. Returns { min, max } with null for a missing bound, or
+ * { error } when a bound is not a number or the range is reversed.
+ */
+function parseRange(query, field) {
+  const range = {};
+  for (const bound of ['min', 'max']) {
+    const param = `${bound}${capitalize(field)}`;
+    const raw = query[param];
+    if (raw === undefined || raw === '') {
+      range[bound] = null;
+      continue;
+    }
+    const number = typeof raw === 'string' ? Number(raw) : NaN;
+    if (!Number.isFinite(number)) {
+      return { error: `${param} must be a number` };
+    }
+    range[bound] = number;
+  }
+
+  if (range.min !== null && range.max !== null && range.min > range.max) {
+    return { error: `min${capitalize(field)} cannot be greater than max${capitalize(field)}` };
+  }
+  return range;
+}
+
+/**
+ * Whether a number (or numeric string, like token amounts) is within a range
+ */
+function inRange(value, range) {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (range.min !== null && !(number >= range.min)) return false;
+  if (range.max !== null && !(number <= range.max)) return false;
+  return true;
+}
+
+module.exports = {
+  parseList,
+  matchesList,
+  parseRange,
+  inRange
+};
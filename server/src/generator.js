@@ -2,33 +2,125 @@
  * ChainHealth AI - Mock Data Generator
  * =====================================
  * Generates clean mock data for the assessment
- * 
- * Run with: node generator.js
+ *
+ * The output depends only on the seed, the reference time and the scenario,
+ * so the same options always produce the same data. Timestamps are placed
+ * relative to the reference time instead of the current clock.
+ *
+ * The server generates its data at startup (see data/data.js). To write a
+ * snapshot to a file instead, run:
+ *   node src/generator.js [--scenario name] [--seed n] [--reference-time iso] [--out file]
  */
 
 const fs = require('fs');
 const path = require('path');
+const { SCENARIOS } = require('./scenarios');
 
-// Configuration
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Configuration; scenarios override any of these (see scenarios.js)
 const CONFIG = {
   nodes: 100,
   stakers: 500,
   healthRecords: 2000,
   epochs: 30,
-  transactions: 1000
+  transactions: 1000,
+  // Relative weights for random picks
+  nodeStatusWeights: { ACTIVE: 1, INACTIVE: 1, PENDING: 1, SLASHED: 1 },
+  recordStatusWeights: { VALIDATED: 1, PENDING: 1, REJECTED: 1 },
+  txStatusWeights: { CONFIRMED: 1, PENDING: 1, FAILED: 1 },
+  txTypeWeights: {
+    TRANSFER: 1,
+    STAKE: 1,
+    UNSTAKE: 1,
+    CLAIM_REWARD: 1,
+    DELEGATE: 1,
+    UNDELEGATE: 1
+  },
+  // [min, max] ranges
+  nodeUptime: [70, 99.99],
+  nodeSlashingEvents: [0, 3],
+  stakeAmount: [100, 50000],
+  // Stakers right after the demo staker that hold outsized stakes
+  whaleStakers: 0,
+  whaleStakeAmount: [1000000, 5000000]
 };
 
+// Values of the enumerated fields, also listed in the API document (openapi.js)
+const NODE_TYPES = ['VALIDATOR', 'LIGHT', 'RELAY', 'ARCHIVE'];
+const NODE_STATUSES = ['ACTIVE', 'INACTIVE', 'PENDING', 'SLASHED'];
+const REGIONS = ['NA-EAST', 'NA-WEST', 'EU-WEST', 'EU-EAST', 'ASIA-PACIFIC', 'LATAM'];
+const DATA_TYPES = ['HEART_RATE', 'STEPS', 'SLEEP', 'ACTIVE_MINUTES', 'CALORIES', 'BLOOD_OXYGEN', 'STRESS', 'HRV'];
+const DEVICE_TYPES = ['APPLE_WATCH', 'FITBIT', 'GARMIN', 'OURA', 'WHOOP', 'SAMSUNG', 'XIAOMI'];
+const VALIDATION_STATUSES = ['VALIDATED', 'PENDING', 'REJECTED'];
+const TX_TYPES = ['TRANSFER', 'STAKE', 'UNSTAKE', 'CLAIM_REWARD', 'DELEGATE', 'UNDELEGATE', 'SLASH'];
+const TX_STATUSES = ['CONFIRMED', 'PENDING', 'FAILED'];
+// Lock periods in days
+const LOCK_PERIODS = [7, 14, 30, 60, 90, 180, 365];
+
+const DEFAULT_SEED = 1;
+// 2025-01-01T00:00:00Z
+const DEFAULT_REFERENCE_TIME = Date.UTC(2025, 0, 1);
+
+// Wallet the client's mock provider connects as, so "My account" has data
+const DEMO_WALLET_ADDRESS = '0xc4a1e0d5b7f3a9e2c8d6b4f0a1e3c5d7b9f2a4e6';
+
+// Holds staked tokens: the source of unstakes and the destination of slashes
+const STAKING_CONTRACT_ADDRESS = '0x00000000000000000000000000000000057a4e00';
+
+// Transaction types sent by a staker to a node (the delegated one, or the new
+// delegate for DELEGATE)
+const STAKER_TO_NODE_TX_TYPES = ['STAKE', 'DELEGATE', 'CLAIM_REWARD', 'UNDELEGATE'];
+
+// Token amounts are summed in millionths so that totals match exactly
+const MICRO_UNITS = 1000000;
+
+/**
+ * Small seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Source of randomness for the helpers; generateData() seeds it
+let random = Math.random;
+
+function seedRandom(seed) {
+  random = createRandom(seed);
+}
+
 // Helper functions
 function randomInt(min, max) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
 }
 
 function randomFloat(min, max, decimals = 2) {
-  return (Math.random() * (max - min) + min).toFixed(decimals);
+  return (random() * (max - min) + min).toFixed(decimals);
 }
 
 function randomChoice(arr) {
-  return arr[Math.floor(Math.random() * arr.length)];
+  return arr[Math.floor(random() * arr.length)];
+}
+
+/**
+ * Pick a key of a { value: weight } map, in proportion to its weight
+ */
+function weightedChoice(weights) {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let pick = random() * total;
+  for (const [value, weight] of entries) {
+    pick -= weight;
+    if (pick < 0) return value;
+  }
+  return entries[entries.length - 1][0];
 }
 
 function randomAddress() {
@@ -53,11 +145,58 @@ function padNumber(num, width) {
   return String(num).padStart(width, '0');
 }
 
+function toMicroUnits(amount) {
+  return Math.round(parseFloat(amount) * MICRO_UNITS);
+}
+
+function fromMicroUnits(units) {
+  return (units / MICRO_UNITS).toFixed(6);
+}
+
+/**
+ * Time range a node validated in, or null for nodes that never went live.
+ * Nodes that are no longer active stopped at their last heartbeat.
+ */
+function activePeriod(node, now) {
+  if (node.status === 'PENDING') return null;
+  return {
+    start: node.registeredAt,
+    end: node.status === 'ACTIVE' ? now : node.lastHeartbeat
+  };
+}
+
+function wasActiveDuring(node, start, end, now) {
+  const period = activePeriod(node, now);
+  return period !== null && period.start <= end && period.end >= start;
+}
+
+/**
+ * Sender and recipient of a transaction. Staking transactions link a real
+ * staker to a real node; transfers use the given wallets.
+ */
+function transactionParties(txType, { staker, nodes, from, to }) {
+  const delegatedNode = nodes.find(n => n.nodeId === staker.delegatedTo);
+  if (STAKER_TO_NODE_TX_TYPES.includes(txType)) {
+    const activeNodes = nodes.filter(n => n.status === 'ACTIVE');
+    const node = txType === 'DELEGATE' || !delegatedNode
+      ? randomChoice(activeNodes.length ? activeNodes : nodes)
+      : delegatedNode;
+    return { from: staker.walletAddress, to: node.operatorAddress };
+  }
+  if (txType === 'UNSTAKE') {
+    return { from: STAKING_CONTRACT_ADDRESS, to: staker.walletAddress };
+  }
+  if (txType === 'SLASH') {
+    const slashedNodes = nodes.filter(n => n.status === 'SLASHED');
+    const node = randomChoice(slashedNodes.length ? slashedNodes : nodes);
+    return { from: node.operatorAddress, to: STAKING_CONTRACT_ADDRESS };
+  }
+  return { from, to };
+}
+
 // Generate nodes
-function generateNodes(count) {
-  const types = ['VALIDATOR', 'LIGHT', 'RELAY', 'ARCHIVE'];
-  const regions = ['NA-EAST', 'NA-WEST', 'EU-WEST', 'EU-EAST', 'ASIA-PACIFIC', 'LATAM'];
-  const statuses = ['ACTIVE', 'INACTIVE', 'PENDING', 'SLASHED'];
+function generateNodes(config, now) {
+  const count = config.nodes;
   const hardware = ['AWS-T3', 'GCP-E2', 'AZURE-B2', 'BARE-METAL', 'HOME-SERVER'];
   
   const nodes = [];
@@ -65,22 +204,28 @@ function generateNodes(count) {
   for (let i = 1; i <= count; i++) {
     const validationsPerformed = randomInt(10000, 500000);
     const successRate = randomFloat(0.90, 0.99, 4);
+    const status = weightedChoice(config.nodeStatusWeights);
+    // Nodes that dropped out did so within the last two months
+    const lastHeartbeat = status === 'ACTIVE'
+      ? now - randomInt(0, 7) * DAY_MS
+      : now - randomInt(1, 60) * DAY_MS;
     
     nodes.push({
       nodeId: `NODE-${padNumber(i, 6)}`,
       operatorAddress: randomAddress(),
-      nodeType: randomChoice(types),
-      region: randomChoice(regions),
-      status: randomChoice(statuses),
+      nodeType: randomChoice(NODE_TYPES),
+      region: randomChoice(REGIONS),
+      status,
       stakedAmount: randomFloat(1000, 100000, 6),
-      totalRewardsEarned: randomFloat(100, 5000, 6),
-      uptime: randomFloat(70, 99.99, 4),
+      // Summed from the epoch rewards in generateEpochs
+      totalRewardsEarned: '0.000000',
+      uptime: randomFloat(config.nodeUptime[0], config.nodeUptime[1], 4),
       validationsPerformed,
       validationsSuccessful: Math.floor(validationsPerformed * successRate),
       validationsFailed: Math.floor(validationsPerformed * (1 - successRate)),
-      slashingEvents: randomInt(0, 3),
-      registeredAt: Date.now() - randomInt(30, 365) * 24 * 60 * 60 * 1000,
-      lastHeartbeat: Date.now() - randomInt(0, 7) * 24 * 60 * 60 * 1000,
+      slashingEvents: randomInt(config.nodeSlashingEvents[0], config.nodeSlashingEvents[1]),
+      registeredAt: now - randomInt(30, 365) * DAY_MS,
+      lastHeartbeat,
       metadata: {
         version: `v${randomInt(1, 3)}.${randomInt(0, 9)}.${randomInt(0, 99)}`,
         hardware: randomChoice(hardware),
@@ -93,22 +238,26 @@ function generateNodes(count) {
 }
 
 // Generate stakers
-function generateStakers(count, nodes) {
-  const lockPeriods = [7, 14, 30, 60, 90, 180, 365];
+function generateStakers(config, nodes, now) {
+  const count = config.stakers;
   const stakers = [];
   
   for (let i = 1; i <= count; i++) {
-    const lockPeriod = randomChoice(lockPeriods);
-    const stakedAmount = randomFloat(100, 50000, 6);
+    const lockPeriod = randomChoice(LOCK_PERIODS);
+    const isWhale = i > 1 && i <= 1 + config.whaleStakers;
+    const [minStake, maxStake] = isWhale ? config.whaleStakeAmount : config.stakeAmount;
+    const stakedAmount = randomFloat(minStake, maxStake, 6);
+    // Locks started up to a year ago, so some have already run out
+    const lockStart = now - randomInt(0, 365) * DAY_MS;
     
     stakers.push({
       stakerId: `STAKER-${padNumber(i, 7)}`,
-      walletAddress: randomAddress(),
+      walletAddress: i === 1 ? DEMO_WALLET_ADDRESS : randomAddress(),
       stakedAmount,
       pendingRewards: randomFloat(10, 500, 6),
       claimedRewards: randomFloat(100, 2000, 6),
       lockPeriod,
-      unlockTime: Date.now() + lockPeriod * 24 * 60 * 60 * 1000,
+      unlockTime: lockStart + lockPeriod * DAY_MS,
       stakingMultiplier: 1 + (lockPeriod / 365),
       delegatedTo: randomChoice(nodes).nodeId
     });
@@ -118,10 +267,8 @@ function generateStakers(count, nodes) {
 }
 
 // Generate health records
-function generateHealthRecords(count) {
-  const dataTypes = ['HEART_RATE', 'STEPS', 'SLEEP', 'ACTIVE_MINUTES', 'CALORIES', 'BLOOD_OXYGEN', 'STRESS', 'HRV'];
-  const deviceTypes = ['APPLE_WATCH', 'FITBIT', 'GARMIN', 'OURA', 'WHOOP', 'SAMSUNG', 'XIAOMI'];
-  const validationStatuses = ['VALIDATED', 'PENDING', 'REJECTED'];
+function generateHealthRecords(config, nodes, stakers, now) {
+  const count = config.healthRecords;
   
   const units = {
     HEART_RATE: 'bpm',
@@ -146,23 +293,26 @@ function generateHealthRecords(count) {
   };
   
   const records = [];
-  const userAddresses = Array.from({ length: 200 }, () => randomAddress());
-  const nodeIds = Array.from({ length: 100 }, (_, i) => `NODE-${padNumber(i + 1, 6)}`);
+  // Users are stakers, starting with the demo wallet
+  const userAddresses = stakers.slice(0, 200).map(s => s.walletAddress);
   
   for (let i = 1; i <= count; i++) {
-    const dataType = randomChoice(dataTypes);
+    const dataType = randomChoice(DATA_TYPES);
     const range = valueRanges[dataType];
+    const timestamp = now - randomInt(0, 30) * DAY_MS;
+    // Validated by a node that was live at the time
+    const validators = nodes.filter(n => wasActiveDuring(n, timestamp, timestamp, now));
     
     records.push({
       recordId: `REC-${padNumber(i, 8)}`,
       userAddress: randomChoice(userAddresses),
       dataType,
-      value: dataType === 'BLOOD_OXYGEN' ? randomFloat(range[0], range[1], 1) : randomInt(range[0], range[1]),
+      value: dataType === 'BLOOD_OXYGEN' ? Number(randomFloat(range[0], range[1], 1)) : randomInt(range[0], range[1]),
       unit: units[dataType],
-      deviceType: randomChoice(deviceTypes),
-      timestamp: Date.now() - randomInt(0, 30) * 24 * 60 * 60 * 1000,
-      validatedBy: randomChoice(nodeIds),
-      validationStatus: randomChoice(validationStatuses),
+      deviceType: randomChoice(DEVICE_TYPES),
+      timestamp,
+      validatedBy: randomChoice(validators.length ? validators : nodes).nodeId,
+      validationStatus: weightedChoice(config.recordStatusWeights),
       rewardEarned: randomFloat(0.1, 5, 4)
     });
   }
@@ -171,55 +321,86 @@ function generateHealthRecords(count) {
 }
 
 // Generate epochs
-function generateEpochs(count, nodes) {
+// Each epoch's pool is split between the nodes active during it, in proportion
+// to their validations, and node totalRewardsEarned is the sum over epochs.
+function generateEpochs(config, nodes, stakerCount, now) {
+  const count = config.epochs;
   const epochs = [];
-  const epochDuration = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const baseTime = Date.now() - count * epochDuration;
+  const epochDuration = 7 * DAY_MS; // 1 week
+  const baseTime = now - count * epochDuration;
+  const earnedByNode = new Map(nodes.map(node => [node.nodeId, 0]));
   
   for (let i = 1; i <= count; i++) {
     const startTime = baseTime + (i - 1) * epochDuration;
-    const activeNodes = randomInt(Math.floor(nodes.length * 0.7), nodes.length);
+    const endTime = startTime + epochDuration;
+    const epochNodes = nodes.filter(n => wasActiveDuring(n, startTime, endTime, now));
+    const validations = epochNodes.map(() => randomInt(1000, 10000));
+    const totalValidations = validations.reduce((sum, v) => sum + v, 0);
+    const poolUnits = epochNodes.length ? toMicroUnits(randomFloat(50000, 200000, 6)) : 0;
     
-    const nodeRewards = nodes.slice(0, Math.min(20, nodes.length)).map(node => ({
-      nodeId: node.nodeId,
-      reward: randomFloat(100, 2000, 6),
-      validations: randomInt(1000, 10000)
-    }));
+    // Round down each share and give the remainder to the last node
+    let remainingUnits = poolUnits;
+    const nodeRewards = epochNodes.map((node, index) => {
+      const units = index === epochNodes.length - 1
+        ? remainingUnits
+        : Math.floor(poolUnits * validations[index] / totalValidations);
+      remainingUnits -= units;
+      earnedByNode.set(node.nodeId, earnedByNode.get(node.nodeId) + units);
+      return {
+        nodeId: node.nodeId,
+        reward: fromMicroUnits(units),
+        validations: validations[index]
+      };
+    });
+    nodeRewards.sort((a, b) => parseFloat(b.reward) - parseFloat(a.reward));
     
     epochs.push({
       epochNumber: i,
       startTime,
-      endTime: startTime + epochDuration,
-      totalRewardsPool: randomFloat(50000, 200000, 6),
-      totalValidations: randomInt(50000, 150000),
-      activeNodes,
-      activeStakers: randomInt(300, 500),
+      endTime,
+      totalRewardsPool: fromMicroUnits(poolUnits),
+      totalValidations,
+      activeNodes: epochNodes.length,
+      activeStakers: randomInt(Math.floor(stakerCount * 0.6), stakerCount),
       nodeRewards
     });
   }
   
+  nodes.forEach(node => {
+    node.totalRewardsEarned = fromMicroUnits(earnedByNode.get(node.nodeId));
+  });
+  
   return epochs;
 }
 
 // Generate transactions
-function generateTransactions(count) {
-  const txTypes = ['TRANSFER', 'STAKE', 'UNSTAKE', 'CLAIM_REWARD', 'DELEGATE', 'UNDELEGATE'];
-  const statuses = ['CONFIRMED', 'PENDING', 'FAILED'];
-  
+function generateTransactions(config, nodes, stakers, now) {
+  const count = config.transactions;
   const transactions = [];
   
   for (let i = 1; i <= count; i++) {
+    const txType = weightedChoice(config.txTypeWeights);
+    // The demo staker sends or receives every 25th transaction
+    const involvesDemo = i % 25 === 0 || i % 25 === 12;
+    const staker = involvesDemo ? stakers[0] : randomChoice(stakers);
+    const { from, to } = transactionParties(txType, {
+      staker,
+      nodes,
+      from: i % 25 === 0 ? DEMO_WALLET_ADDRESS : randomChoice(stakers).walletAddress,
+      to: i % 25 === 12 ? DEMO_WALLET_ADDRESS : randomAddress()
+    });
+    
     transactions.push({
       txHash: randomHash(),
-      txType: randomChoice(txTypes),
-      from: randomAddress(),
-      to: randomAddress(),
+      txType,
+      from,
+      to,
       amount: randomFloat(10, 5000, 6),
       gasUsed: randomInt(21000, 200000),
       gasPrice: randomInt(20, 200),
-      timestamp: Date.now() - randomInt(0, 30) * 24 * 60 * 60 * 1000,
+      timestamp: now - randomInt(0, 30) * DAY_MS,
       blockNumber: randomInt(18000000, 19000000),
-      status: randomChoice(statuses),
+      status: weightedChoice(config.txStatusWeights),
       nonce: randomInt(1, 1000)
     });
   }
@@ -227,28 +408,49 @@ function generateTransactions(count) {
   return transactions.sort((a, b) => b.timestamp - a.timestamp);
 }
 
-// Main generation
-function generate() {
-  console.log('Generating mock data...');
-  
-  const nodes = generateNodes(CONFIG.nodes);
-  console.log(`✓ Generated ${nodes.length} nodes`);
-  
-  const stakers = generateStakers(CONFIG.stakers, nodes);
-  console.log(`✓ Generated ${stakers.length} stakers`);
-  
-  const healthRecords = generateHealthRecords(CONFIG.healthRecords);
-  console.log(`✓ Generated ${healthRecords.length} health records`);
-  
-  const epochs = generateEpochs(CONFIG.epochs, nodes);
-  console.log(`✓ Generated ${epochs.length} epochs`);
-  
-  const transactions = generateTransactions(CONFIG.transactions);
-  console.log(`✓ Generated ${transactions.length} transactions`);
-  
+/**
+ * Generate the full dataset for a scenario.
+ *
+ * Options:
+ * - scenario (string): Key of SCENARIOS, default 'default'
+ * - seed (number): PRNG seed, default 1
+ * - referenceTime (number): Timestamp the data is generated relative to,
+ *   default 2025-01-01T00:00:00Z
+ * - overrides (object): CONFIG values applied on top of the scenario
+ */
+function generateData(options = {}) {
+  const {
+    scenario = 'default',
+    seed = DEFAULT_SEED,
+    referenceTime = DEFAULT_REFERENCE_TIME,
+    overrides = {}
+  } = options;
+  if (!SCENARIOS[scenario]) {
+    throw new Error(
+      `Unknown scenario "${scenario}". Available: ${Object.keys(SCENARIOS).join(', ')}`
+    );
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error('seed must be an integer');
+  }
+  if (!Number.isFinite(referenceTime)) {
+    throw new Error('referenceTime must be a timestamp');
+  }
+
+  const config = { ...CONFIG, ...SCENARIOS[scenario].config, ...overrides };
+  seedRandom(seed);
+
+  const nodes = generateNodes(config, referenceTime);
+  const stakers = generateStakers(config, nodes, referenceTime);
+  const healthRecords = generateHealthRecords(config, nodes, stakers, referenceTime);
+  const epochs = generateEpochs(config, nodes, stakers.length, referenceTime);
+  const transactions = generateTransactions(config, nodes, stakers, referenceTime);
+
   const metadata = {
-    generatedAt: new Date().toISOString(),
+    generatedAt: new Date(referenceTime).toISOString(),
     version: '1.0.0',
+    scenario,
+    seed,
     counts: {
       nodes: nodes.length,
       stakers: stakers.length,
@@ -257,44 +459,81 @@ function generate() {
       transactions: transactions.length
     }
   };
-  
-  const output = `/**
- * ChainHealth AI - Generated Mock Data
- * =====================================
- * Auto-generated by generator.js
- * Generated at: ${metadata.generatedAt}
- * 
- * DO NOT EDIT THIS FILE MANUALLY!
- * Run "node generator.js" to regenerate.
- */
-
-const metadata = ${JSON.stringify(metadata, null, 2)};
-
-const nodes = ${JSON.stringify(nodes, null, 2)};
 
-const stakers = ${JSON.stringify(stakers, null, 2)};
+  return { metadata, nodes, stakers, healthRecords, epochs, transactions };
+}
 
-const healthRecords = ${JSON.stringify(healthRecords, null, 2)};
+/**
+ * Parse a reference time given as a timestamp, an ISO date or 'now'
+ */
+function parseReferenceTime(value) {
+  if (value === 'now') return Date.now();
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid reference time "${value}"`);
+  }
+  return time;
+}
 
-const epochs = ${JSON.stringify(epochs, null, 2)};
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const name = argv[i].replace(/^--/, '');
+    args[name] = argv[i + 1];
+  }
+  return args;
+}
 
-const transactions = ${JSON.stringify(transactions, null, 2)};
+// Write a snapshot of the generated data
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const options = { scenario: args.scenario };
+  if (args.seed !== undefined) options.seed = Number(args.seed);
+  if (args['reference-time'] !== undefined) {
+    options.referenceTime = parseReferenceTime(args['reference-time']);
+  }
 
-module.exports = {
-  metadata,
-  nodes,
-  stakers,
-  healthRecords,
-  epochs,
-  transactions
-};
-`;
+  console.log('Generating mock data...');
+  const data = generateData(options);
+  Object.entries(data.metadata.counts).forEach(([name, count]) => {
+    console.log(`✓ Generated ${count} ${name}`);
+  });
 
-  const outputPath = path.join(__dirname, 'data.js');
-  fs.writeFileSync(outputPath, output);
+  const outputPath = path.resolve(args.out || path.join(__dirname, 'data', 'snapshot.json'));
+  fs.writeFileSync(outputPath, JSON.stringify(data, null, 2));
   console.log(`\n✓ Data written to ${outputPath}`);
+  console.log(`  Scenario: ${data.metadata.scenario}, seed: ${data.metadata.seed}`);
   console.log(`  File size: ${(fs.statSync(outputPath).size / 1024 / 1024).toFixed(2)} MB`);
 }
 
-generate();
+// Only write data when run directly; the server and the live simulator reuse the helpers
+if (require.main === module) {
+  main();
+}
 
+module.exports = {
+  CONFIG,
+  DEFAULT_SEED,
+  DEFAULT_REFERENCE_TIME,
+  DEMO_WALLET_ADDRESS,
+  STAKING_CONTRACT_ADDRESS,
+  NODE_TYPES,
+  NODE_STATUSES,
+  REGIONS,
+  DATA_TYPES,
+  DEVICE_TYPES,
+  VALIDATION_STATUSES,
+  TX_TYPES,
+  TX_STATUSES,
+  LOCK_PERIODS,
+  generateData,
+  parseReferenceTime,
+  createRandom,
+  randomInt,
+  randomFloat,
+  randomChoice,
+  randomAddress,
+  randomHash,
+  padNumber,
+  transactionParties
+};
@@ -0,0 +1,242 @@
+/**
+ * Live Activity Simulator
+ * ========================
+ * Simulates ongoing network activity on top of the in-memory datasets and
+ * publishes it to Server-Sent Events subscribers (see routes/events.js).
+ *
+ * - New transactions arrive as PENDING and settle a few seconds later
+ * - Health records are submitted as PENDING and later validated or rejected
+ * - Active nodes report heartbeats
+ * - Transactions submitted through the API (see recordTransaction) confirm
+ *   after the same delay, whether or not anyone is listening
+ *
+ * The datasets are mutated in place, so the REST endpoints reflect the same
+ * activity. The simulation only runs while at least one client is listening,
+ * and only its latest MAX_SIMULATED transactions and records are kept, so the
+ * datasets stop growing while it runs.
+ * Like the generator's helpers, its own draws come from a PRNG seeded from the
+ * data seed, so a seeded server simulates the same activity on every run
+ * (apart from the timestamps).
+ */
+
+const { metadata, nodes, stakers, healthRecords, transactions } = require('./data/data');
+const {
+  createRandom,
+  randomInt,
+  randomFloat,
+  randomChoice,
+  randomAddress,
+  randomHash,
+  padNumber,
+  transactionParties
+} = require('./generator');
+
+const TICK_MS = 3000;
+const SETTLE_AFTER_MS = 8000;
+const HISTORY_SIZE = 500;
+const MAX_SIMULATED = 1000;
+
+const TX_TYPES = ['TRANSFER', 'STAKE', 'UNSTAKE', 'CLAIM_REWARD', 'DELEGATE'];
+
+// Offset from the data seed so the simulation does not replay the generator's draws
+const random = createRandom(metadata.seed + 1);
+
+let lastEventId = 0;
+const history = [];
+const pendingTxs = [];
+// Simulated entries per dataset, oldest first
+const simulated = new Map([[transactions, []], [healthRecords, []]]);
+// Numbers new records; the dataset's length stops growing once it is trimmed
+let recordCount = healthRecords.length;
+const subscribers = new Set();
+let timer = null;
+
+function publish(type, data) {
+  const event = { id: ++lastEventId, type, data };
+  history.push(event);
+  if (history.length > HISTORY_SIZE) {
+    history.shift();
+  }
+  subscribers.forEach(listener => listener(event));
+  return event;
+}
+
+function activeNodes() {
+  return nodes.filter(n => n.status === 'ACTIVE');
+}
+
+/**
+ * Add a simulated entry to the front of its dataset, dropping the oldest
+ * simulated one once there are more than MAX_SIMULATED
+ */
+function addSimulated(dataset, item) {
+  const entries = simulated.get(dataset);
+  dataset.unshift(item);
+  entries.push(item);
+  if (entries.length > MAX_SIMULATED) {
+    dataset.splice(dataset.indexOf(entries.shift()), 1);
+  }
+}
+
+function latestBlockNumber() {
+  return transactions.reduce((max, tx) => Math.max(max, tx.blockNumber), 0);
+}
+
+// Transactions ---------------------------------------------------------------
+
+function submitTransaction() {
+  const txType = randomChoice(TX_TYPES);
+  const { from, to } = transactionParties(txType, {
+    staker: randomChoice(stakers),
+    nodes,
+    from: randomChoice(stakers).walletAddress,
+    to: randomAddress()
+  });
+  const tx = {
+    txHash: randomHash(),
+    txType,
+    from,
+    to,
+    amount: randomFloat(10, 5000, 6),
+    gasUsed: randomInt(21000, 200000),
+    gasPrice: randomInt(20, 200),
+    timestamp: Date.now(),
+    blockNumber: latestBlockNumber() + 1,
+    status: 'PENDING',
+    nonce: randomInt(1, 1000)
+  };
+  addSimulated(transactions, tx);
+  pendingTxs.push(tx);
+  publish('transaction', { transaction: tx, previousStatus: null });
+}
+
+function settleTransactions(now) {
+  while (pendingTxs.length && now - pendingTxs[0].timestamp >= SETTLE_AFTER_MS) {
+    const tx = pendingTxs.shift();
+    tx.status = random() < 0.9 ? 'CONFIRMED' : 'FAILED';
+    tx.blockNumber = latestBlockNumber() + 1;
+    publish('transaction', { transaction: tx, previousStatus: 'PENDING' });
+  }
+}
+
+/**
+ * Add a transaction made through the API, e.g. a staking action. It is
+ * published as PENDING and confirmed after SETTLE_AFTER_MS.
+ */
+function recordTransaction(fields) {
+  const tx = {
+    txHash: randomHash(),
+    gasUsed: randomInt(21000, 200000),
+    gasPrice: randomInt(20, 200),
+    timestamp: Date.now(),
+    blockNumber: latestBlockNumber() + 1,
+    status: 'PENDING',
+    nonce: randomInt(1, 1000),
+    ...fields
+  };
+  transactions.unshift(tx);
+  publish('transaction', { transaction: tx, previousStatus: null });
+
+  setTimeout(() => {
+    tx.status = 'CONFIRMED';
+    tx.blockNumber = latestBlockNumber() + 1;
+    publish('transaction', { transaction: tx, previousStatus: 'PENDING' });
+  }, SETTLE_AFTER_MS);
+
+  return tx;
+}
+
+// Health records -------------------------------------------------------------
+
+function submitHealthRecord() {
+  // Records are validated by an active node; there may be none left
+  const validator = randomChoice(activeNodes());
+  if (!validator) return;
+
+  const template = randomChoice(healthRecords);
+  const decimals = template.dataType === 'BLOOD_OXYGEN' ? 1 : 0;
+  const jitter = template.value * randomInt(-10, 10) / 100;
+  const record = {
+    ...template,
+    recordId: `REC-${padNumber(++recordCount, 8)}`,
+    value: Number((template.value + jitter).toFixed(decimals)),
+    timestamp: Date.now(),
+    validatedBy: validator.nodeId,
+    validationStatus: 'PENDING',
+    rewardEarned: '0.0000'
+  };
+  addSimulated(healthRecords, record);
+  publish('record-status', { record, previousStatus: null });
+}
+
+function validateHealthRecord() {
+  const pending = healthRecords.filter(r => r.validationStatus === 'PENDING');
+  if (!pending.length) return;
+
+  // Prefer the oldest of the most recent submissions so new records move along
+  const record = pending.slice(0, 20).pop();
+  const validated = random() < 0.85;
+  record.validationStatus = validated ? 'VALIDATED' : 'REJECTED';
+  record.rewardEarned = validated ? randomFloat(0.1, 5, 4) : '0.0000';
+  publish('record-status', { record, previousStatus: 'PENDING' });
+}
+
+// Nodes ----------------------------------------------------------------------
+
+function nodeHeartbeat() {
+  const node = randomChoice(activeNodes());
+  if (!node) return;
+
+  node.lastHeartbeat = Date.now();
+  publish('node-heartbeat', {
+    nodeId: node.nodeId,
+    status: node.status,
+    uptime: node.uptime,
+    lastHeartbeat: node.lastHeartbeat
+  });
+}
+
+function tick() {
+  const now = Date.now();
+  settleTransactions(now);
+  if (random() < 0.6) submitTransaction();
+  if (random() < 0.5) submitHealthRecord();
+  if (random() < 0.6) validateHealthRecord();
+  nodeHeartbeat();
+}
+
+/**
+ * Listen for live events. The simulation starts with the first subscriber
+ * and stops when the last one leaves.
+ */
+function subscribe(listener) {
+  subscribers.add(listener);
+  if (!timer) {
+    timer = setInterval(tick, TICK_MS);
+  }
+  return () => {
+    subscribers.delete(listener);
+    if (!subscribers.size) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+}
+
+/**
+ * Events published after the given ID, for clients resuming a stream.
+ * Returns null when those events are no longer (or were never) in the buffer,
+ * in which case the client has to refetch instead.
+ */
+function eventsSince(eventId) {
+  if (eventId > lastEventId) return null;
+  const oldest = history.length ? history[0].id : lastEventId + 1;
+  if (eventId < oldest - 1) return null;
+  return history.filter(event => event.id > eventId);
+}
+
+module.exports = {
+  subscribe,
+  eventsSince,
+  recordTransaction
+};
@@ -0,0 +1,814 @@
+/**
+ * ChainHealth AI - OpenAPI Document
+ * ==================================
+ * OpenAPI 3 description of every route, served at GET /api/openapi.json.
+ * The client generates its request/response types, response validators and
+ * endpoint functions from it (client/scripts/generate-api.js), so a change
+ * to a route has to be made here as well to reach the client.
+ *
+ * Enumerated values come from generator.js, the same lists the data is
+ * generated from.
+ */
+
+const {
+  NODE_TYPES,
+  NODE_STATUSES,
+  REGIONS,
+  DATA_TYPES,
+  DEVICE_TYPES,
+  VALIDATION_STATUSES,
+  TX_TYPES,
+  TX_STATUSES,
+  LOCK_PERIODS
+} = require('./generator');
+
+// Schema helpers ---------------------------------------------------------------
+
+const ref = name => ({ $ref: `#/components/schemas/${name}` });
+
+const string = { type: 'string' };
+const integer = { type: 'integer' };
+const number = { type: 'number' };
+const boolean = { type: 'boolean' };
+// Token amounts and percentages are sent as strings to keep their precision
+const decimal = { type: 'string', format: 'decimal' };
+// Milliseconds since the Unix epoch
+const timestamp = { type: 'integer', format: 'int64' };
+const counts = { type: 'object', additionalProperties: integer };
+
+const arrayOf = items => ({ type: 'array', items });
+
+// OpenAPI 3.0 ignores the siblings of a $ref, so nullable refs are wrapped
+const nullableRef = (name, description) => ({ allOf: [ref(name)], nullable: true, description });
+
+/**
+ * Object schema with every property required except the listed ones
+ */
+function object(properties, optional = []) {
+  return {
+    type: 'object',
+    required: Object.keys(properties).filter(key => !optional.includes(key)),
+    properties
+  };
+}
+
+const enumOf = (values, description) => ({
+  type: typeof values[0] === 'number' ? 'integer' : 'string',
+  enum: values,
+  description
+});
+
+const page = item => object({ data: arrayOf(ref(item)), pagination: ref('Pagination') });
+
+// Parameter helpers ------------------------------------------------------------
+
+const pathParam = (name, schema = string) => ({ name, in: 'path', required: true, schema });
+
+const queryParam = (name, schema, description) => ({ name, in: 'query', schema, description });
+
+/**
+ * Multi-value filter sent comma-separated, matching any of the values
+ * (see filters.js)
+ */
+const listParam = (name, item, description) => ({
+  name,
+  in: 'query',
+  style: 'form',
+  explode: false,
+  schema: arrayOf(ref(item)),
+  description: `${description}; matches any of the values`
+});
+
+/**
+ * min/max pair for a numeric field; both bounds are inclusive
+ */
+function rangeParams(field, description) {
+  const name = field.charAt(0).toUpperCase() + field.slice(1);
+  return [
+    queryParam(`min${name}`, number, `Minimum ${description}, inclusive`),
+    queryParam(`max${name}`, number, `Maximum ${description}, inclusive`)
+  ];
+}
+
+function pageParams(sortField) {
+  const params = [
+    queryParam('page', integer, 'Page number, default 1'),
+    queryParam('limit', integer, 'Items per page, default 20, max 100')
+  ];
+  if (sortField) {
+    params.push(queryParam('sortBy', ref(sortField), 'Sort field'));
+  }
+  params.push(queryParam('sortOrder', ref('SortOrder'), "Sort order, default 'desc'"));
+  return params;
+}
+
+const dateParams = subject => [
+  queryParam('startDate', timestamp, `Only ${subject} at or after this timestamp`),
+  queryParam('endDate', timestamp, `Only ${subject} at or before this timestamp`)
+];
+
+// Operation helpers ------------------------------------------------------------
+
+const ERRORS = { 400: 'BadRequest', 404: 'NotFound' };
+
+const errorResponse = name => ({ $ref: `#/components/responses/${name}` });
+
+/**
+ * GET operation returning JSON. Every operation can fail with a 500; those
+ * with params or IDs add 400 or 404.
+ */
+function get(operationId, tag, summary, schema, { parameters = [], errors = [] } = {}) {
+  return {
+    get: {
+      operationId,
+      tags: [tag],
+      summary,
+      parameters,
+      responses: {
+        200: { description: summary, content: { 'application/json': { schema } } },
+        ...Object.fromEntries(errors.map(status => [status, errorResponse(ERRORS[status])])),
+        500: errorResponse('ServerError')
+      }
+    }
+  };
+}
+
+/**
+ * POST staking action: applies the change at once and returns the updated
+ * staker with its PENDING transaction
+ */
+function stakingAction(operationId, summary, requestBody) {
+  return {
+    post: {
+      operationId,
+      tags: ['Stakers'],
+      summary,
+      parameters: [pathParam('stakerId')],
+      ...(requestBody && {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref(requestBody) } }
+        }
+      }),
+      responses: {
+        202: {
+          description: 'The action was applied; its transaction confirms a few seconds later',
+          content: { 'application/json': { schema: ref('StakingActionResult') } }
+        },
+        400: errorResponse('BadRequest'),
+        404: errorResponse('NotFound'),
+        500: errorResponse('ServerError')
+      }
+    }
+  };
+}
+
+// Components -------------------------------------------------------------------
+
+const epochTotals = {
+  epochNumber: integer,
+  startTime: timestamp,
+  endTime: timestamp,
+  totalRewardsPool: decimal,
+  totalValidations: integer,
+  activeNodes: integer,
+  activeStakers: integer
+};
+
+const schemas = {
+  ErrorResponse: object({ error: string, path: string }, ['path']),
+  Pagination: object({
+    page: integer,
+    limit: integer,
+    totalItems: integer,
+    totalPages: integer,
+    hasMore: boolean
+  }),
+  SortOrder: enumOf(['asc', 'desc']),
+
+  // Enumerations
+  NodeType: enumOf(NODE_TYPES),
+  NodeStatus: enumOf(NODE_STATUSES),
+  Region: enumOf(REGIONS),
+  DataType: enumOf(DATA_TYPES),
+  DeviceType: enumOf(DEVICE_TYPES),
+  ValidationStatus: enumOf(VALIDATION_STATUSES),
+  TxType: enumOf(TX_TYPES),
+  TxStatus: enumOf(TX_STATUSES),
+  LockPeriod: enumOf(LOCK_PERIODS, 'Lock in days'),
+  NodeSortField: enumOf([
+    'stakedAmount',
+    'uptime',
+    'totalRewardsEarned',
+    'validationsPerformed'
+  ]),
+  StakerSortField: enumOf([
+    'stakedAmount',
+    'pendingRewards',
+    'claimedRewards',
+    'stakingMultiplier'
+  ]),
+  HealthRecordSortField: enumOf(['timestamp', 'value']),
+  TransactionSortField: enumOf(['timestamp', 'amount', 'gasUsed']),
+  TimeSeriesBucket: enumOf(['hour', 'day', 'week'], 'Bucket size, on local boundaries at tzOffset'),
+  HealthRecordGroupBy: enumOf(['dataType', 'deviceType', 'validationStatus']),
+
+  // Platform stats
+  StatsOverview: object({
+    activeNodes: integer,
+    totalStaked: decimal,
+    healthRecordsValidated: integer,
+    totalRewardsDistributed: decimal,
+    totalUsers: integer,
+    totalTransactions: integer
+  }),
+  PlatformStats: object({
+    metadata: object({
+      generatedAt: string,
+      version: string,
+      scenario: { ...string, description: 'Data scenario the server was started with' },
+      seed: integer
+    }, ['scenario', 'seed']),
+    network: object({
+      totalNodes: integer,
+      activeNodes: integer,
+      totalNodeStake: decimal,
+      avgUptime: decimal,
+      networkHealth: decimal
+    }),
+    staking: object({
+      totalStakers: integer,
+      totalStaked: decimal,
+      totalPendingRewards: decimal,
+      avgStakePerUser: decimal
+    }),
+    healthData: object({
+      totalRecords: integer,
+      validatedRecords: integer,
+      pendingRecords: integer,
+      validationRate: decimal,
+      uniqueUsers: integer
+    }),
+    rewards: object({
+      totalEpochs: integer,
+      currentEpoch: integer,
+      totalRewardsDistributed: decimal,
+      avgRewardsPerEpoch: decimal
+    }),
+    transactions: object({
+      totalTransactions: integer,
+      totalVolume: decimal,
+      confirmedRate: decimal
+    })
+  }, ['metadata']),
+
+  // Nodes
+  Node: object({
+    nodeId: string,
+    operatorAddress: string,
+    nodeType: ref('NodeType'),
+    region: ref('Region'),
+    status: ref('NodeStatus'),
+    uptime: decimal,
+    stakedAmount: decimal,
+    totalRewardsEarned: decimal,
+    validationsPerformed: integer,
+    validationsSuccessful: integer,
+    validationsFailed: integer,
+    slashingEvents: integer,
+    registeredAt: timestamp,
+    lastHeartbeat: timestamp,
+    metadata: object({
+      version: string,
+      hardware: string,
+      bandwidth: integer
+    }, ['version', 'hardware', 'bandwidth'])
+  }, [
+    'operatorAddress',
+    'totalRewardsEarned',
+    'validationsSuccessful',
+    'validationsFailed',
+    'slashingEvents',
+    'registeredAt',
+    'lastHeartbeat',
+    'metadata'
+  ]),
+  NodePage: page('Node'),
+  NodeStats: object({
+    totalNodes: integer,
+    activeNodes: integer,
+    totalStaked: decimal,
+    totalRewards: decimal,
+    avgUptime: decimal,
+    totalValidations: integer,
+    byType: counts,
+    byStatus: counts,
+    byRegion: counts
+  }),
+  NodeEpochReward: object({
+    epochNumber: integer,
+    startTime: timestamp,
+    endTime: timestamp,
+    reward: decimal,
+    validations: integer
+  }),
+
+  // Stakers
+  Staker: object({
+    stakerId: string,
+    walletAddress: string,
+    stakedAmount: decimal,
+    pendingRewards: decimal,
+    claimedRewards: decimal,
+    stakingMultiplier: number,
+    lockPeriod: ref('LockPeriod'),
+    unlockTime: timestamp,
+    delegatedTo: { ...string, description: 'ID of the node the stake is delegated to' }
+  }, ['delegatedTo']),
+  StakerPage: page('Staker'),
+  StakerDetail: {
+    allOf: [
+      ref('Staker'),
+      object({
+        delegatedNode: {
+          ...object({
+            nodeId: string,
+            nodeType: ref('NodeType'),
+            status: ref('NodeStatus'),
+            uptime: decimal
+          }),
+          nullable: true
+        }
+      })
+    ]
+  },
+  StakerStats: object({
+    totalStakers: integer,
+    totalStaked: decimal,
+    totalPendingRewards: decimal,
+    totalClaimedRewards: decimal,
+    avgStake: decimal,
+    avgMultiplier: decimal,
+    byLockPeriod: counts,
+    topStakers: arrayOf(object({
+      stakerId: string,
+      walletAddress: string,
+      stakedAmount: decimal,
+      delegatedTo: string
+    }, ['delegatedTo']))
+  }),
+  StakeRequest: object({
+    amount: { ...decimal, description: 'Tokens to add' },
+    lockPeriod: {
+      ...ref('LockPeriod'),
+      description: 'Cannot be shorter than the current lock. Defaults to the current lock.'
+    }
+  }, ['lockPeriod']),
+  UnstakeRequest: object({
+    amount: { ...decimal, description: 'Tokens to withdraw, at most the staked amount' }
+  }),
+  DelegateRequest: object({
+    nodeId: { ...string, description: 'An ACTIVE node' }
+  }),
+  StakingActionResult: object({
+    staker: ref('Staker'),
+    transaction: ref('Transaction')
+  }),
+
+  // Health records
+  HealthRecord: object({
+    recordId: string,
+    userAddress: string,
+    dataType: ref('DataType'),
+    value: number,
+    unit: string,
+    deviceType: ref('DeviceType'),
+    timestamp,
+    validatedBy: { ...string, description: 'ID of the validating node' },
+    validationStatus: ref('ValidationStatus'),
+    rewardEarned: decimal
+  }),
+  HealthRecordPage: page('HealthRecord'),
+  HealthRecordStats: object({
+    totalRecords: integer,
+    validatedRecords: integer,
+    pendingRecords: integer,
+    rejectedRecords: integer,
+    validationRate: decimal,
+    uniqueUsers: integer,
+    byDataType: counts,
+    byDeviceType: counts,
+    recordsByDay: arrayOf(object({ date: string, count: integer }))
+  }),
+  HealthRecordComparison: object({
+    count: { ...integer, description: "Readings of the record's data type by its user" },
+    min: number,
+    max: number,
+    average: number,
+    percentile: { ...number, description: 'Percent of the readings below the record, ties half' }
+  }),
+  HealthRecordTimeSeries: object({
+    startDate: timestamp,
+    endDate: timestamp,
+    bucket: ref('TimeSeriesBucket'),
+    tzOffset: { ...integer, description: 'Offset the buckets are aligned to, in minutes' },
+    groupBy: {
+      ...enumOf(['dataType', 'deviceType', 'validationStatus']),
+      nullable: true,
+      description: 'Field the counts are split by, or null for totals only'
+    },
+    groups: arrayOf(string),
+    buckets: arrayOf(object({
+      start: timestamp,
+      end: timestamp,
+      total: integer,
+      counts
+    }))
+  }),
+
+  // Epochs
+  NodeReward: object({
+    nodeId: string,
+    reward: decimal,
+    validations: integer
+  }),
+  EpochSummary: object({
+    ...epochTotals,
+    topNodeRewardsCount: integer
+  }),
+  EpochPage: page('EpochSummary'),
+  Epoch: object({
+    ...epochTotals,
+    nodeRewards: arrayOf(ref('NodeReward'))
+  }),
+  CurrentEpoch: object({
+    ...epochTotals,
+    topRewards: arrayOf(ref('NodeReward'))
+  }),
+  EpochStats: object({
+    totalEpochs: integer,
+    totalRewardsDistributed: decimal,
+    totalValidationsAllTime: integer,
+    avgRewardsPerEpoch: decimal,
+    avgValidationsPerEpoch: integer,
+    avgActiveNodes: integer,
+    avgActiveStakers: integer,
+    rewardsTrend: arrayOf(object({
+      epoch: integer,
+      rewards: decimal,
+      validations: integer,
+      activeNodes: integer
+    }))
+  }),
+
+  // Transactions
+  Transaction: object({
+    txHash: string,
+    txType: ref('TxType'),
+    from: string,
+    to: string,
+    amount: decimal,
+    gasUsed: integer,
+    gasPrice: integer,
+    timestamp,
+    blockNumber: integer,
+    status: ref('TxStatus'),
+    nonce: integer
+  }),
+  TransactionPage: page('Transaction'),
+  TransactionStats: object({
+    totalTransactions: integer,
+    confirmedTxs: integer,
+    pendingTxs: integer,
+    failedTxs: integer,
+    successRate: decimal,
+    totalVolume: decimal,
+    totalGasUsed: integer,
+    avgGasPrice: decimal,
+    byType: counts,
+    volumeByType: { type: 'object', additionalProperties: decimal },
+    recentTxs: arrayOf(object({
+      txHash: string,
+      txType: ref('TxType'),
+      amount: decimal,
+      timestamp,
+      status: ref('TxStatus')
+    }))
+  }),
+
+  // Search
+  NodeSearchResult: object({
+    nodeId: string,
+    nodeType: ref('NodeType'),
+    region: ref('Region'),
+    status: ref('NodeStatus')
+  }),
+  StakerSearchResult: object({
+    stakerId: string,
+    walletAddress: string,
+    stakedAmount: decimal
+  }),
+  TransactionSearchResult: object({
+    txHash: string,
+    txType: ref('TxType'),
+    amount: decimal,
+    status: ref('TxStatus'),
+    timestamp
+  }),
+  HealthRecordSearchResult: object({
+    recordId: string,
+    dataType: ref('DataType'),
+    userAddress: string,
+    validationStatus: ref('ValidationStatus')
+  }),
+  SearchResults: object({
+    query: string,
+    results: object({
+      nodes: object({ total: integer, items: arrayOf(ref('NodeSearchResult')) }),
+      stakers: object({ total: integer, items: arrayOf(ref('StakerSearchResult')) }),
+      transactions: object({ total: integer, items: arrayOf(ref('TransactionSearchResult')) }),
+      healthRecords: object({ total: integer, items: arrayOf(ref('HealthRecordSearchResult')) })
+    })
+  }),
+
+  // Live events
+  TransactionEvent: object({
+    transaction: ref('Transaction'),
+    previousStatus: nullableRef('TxStatus', 'Null when the transaction is new')
+  }),
+  RecordStatusEvent: object({
+    record: ref('HealthRecord'),
+    previousStatus: nullableRef('ValidationStatus', 'Null when the record is new')
+  }),
+  NodeHeartbeat: object({
+    nodeId: string,
+    status: ref('NodeStatus'),
+    uptime: decimal,
+    lastHeartbeat: timestamp
+  }),
+  ResyncEvent: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false,
+    description: 'The server could not replay missed events; cached data should be refetched'
+  }
+};
+
+const errorBody = description => ({
+  description,
+  content: { 'application/json': { schema: ref('ErrorResponse') } }
+});
+
+const responses = {
+  BadRequest: errorBody('Invalid params or body; `error` says which'),
+  NotFound: errorBody('No item with that ID'),
+  ServerError: errorBody('Unexpected server error')
+};
+
+// Paths ------------------------------------------------------------------------
+
+const recordFilters = [
+  listParam('dataType', 'DataType', 'Data types'),
+  listParam('deviceType', 'DeviceType', 'Device types'),
+  listParam('validationStatus', 'ValidationStatus', 'Validation statuses'),
+  queryParam('userAddress', string, 'User wallet address'),
+  ...rangeParams('value', 'recorded value')
+];
+
+const paths = {
+  // Platform stats
+  '/stats': get('getStats', 'Stats', 'Overall platform statistics', ref('PlatformStats')),
+  '/stats/overview': get(
+    'getStatsOverview', 'Stats', 'Simplified overview for dashboard cards', ref('StatsOverview')
+  ),
+
+  // Nodes
+  '/nodes': get('getNodes', 'Nodes', 'Paginated list of nodes', ref('NodePage'), {
+    parameters: [
+      ...pageParams('NodeSortField'),
+      listParam('status', 'NodeStatus', 'Node statuses'),
+      listParam('nodeType', 'NodeType', 'Node types'),
+      listParam('region', 'Region', 'Regions'),
+      ...rangeParams('uptime', 'uptime percentage')
+    ],
+    errors: [400]
+  }),
+  '/nodes/stats': get('getNodeStats', 'Nodes', 'Aggregate node statistics', ref('NodeStats')),
+  '/nodes/{nodeId}': get('getNodeById', 'Nodes', 'A single node', ref('Node'), {
+    parameters: [pathParam('nodeId')],
+    errors: [404]
+  }),
+  '/nodes/{nodeId}/rewards': get(
+    'getNodeRewards',
+    'Nodes',
+    "The node's reward entry for every epoch it earned in, oldest first",
+    arrayOf(ref('NodeEpochReward')),
+    { parameters: [pathParam('nodeId')], errors: [404] }
+  ),
+
+  // Stakers
+  '/stakers': get('getStakers', 'Stakers', 'Paginated list of stakers', ref('StakerPage'), {
+    parameters: [
+      ...pageParams('StakerSortField'),
+      ...rangeParams('stake', 'staked amount'),
+      queryParam('delegatedTo', string, 'ID of the node stakes are delegated to')
+    ],
+    errors: [400]
+  }),
+  '/stakers/stats': get(
+    'getStakerStats', 'Stakers', 'Aggregate staker statistics', ref('StakerStats')
+  ),
+  '/stakers/{stakerId}': get(
+    'getStakerById', 'Stakers', 'A single staker with its delegated node', ref('StakerDetail'),
+    { parameters: [pathParam('stakerId')], errors: [404] }
+  ),
+  '/stakers/wallet/{address}': get(
+    'getStakerByWallet', 'Stakers', 'The staker with a wallet address', ref('Staker'),
+    { parameters: [pathParam('address')], errors: [404] }
+  ),
+  '/stakers/{stakerId}/stake': stakingAction(
+    'stake', 'Add tokens to a stake and restart its lock', 'StakeRequest'
+  ),
+  '/stakers/{stakerId}/unstake': stakingAction(
+    'unstake', 'Withdraw tokens from a stake once its lock has ended', 'UnstakeRequest'
+  ),
+  '/stakers/{stakerId}/claim': stakingAction('claimRewards', 'Claim all pending rewards'),
+  '/stakers/{stakerId}/delegate': stakingAction(
+    'delegate', 'Delegate the whole stake to an active node', 'DelegateRequest'
+  ),
+
+  // Health records
+  '/health-records': get(
+    'getHealthRecords',
+    'Health Records',
+    'Paginated list of health records',
+    ref('HealthRecordPage'),
+    {
+      parameters: [
+        ...pageParams('HealthRecordSortField'),
+        ...recordFilters,
+        ...dateParams('records')
+      ],
+      errors: [400]
+    }
+  ),
+  '/health-records/stats': get(
+    'getHealthRecordStats', 'Health Records', 'Aggregate health record statistics',
+    ref('HealthRecordStats')
+  ),
+  '/health-records/timeseries': get(
+    'getHealthRecordTimeSeries',
+    'Health Records',
+    'Record counts per time bucket, optionally split by a record field',
+    ref('HealthRecordTimeSeries'),
+    {
+      parameters: [
+        queryParam('startDate', timestamp, 'Range start, default 7 days before endDate'),
+        queryParam('endDate', timestamp, "Range end, default the data's reference time"),
+        queryParam('bucket', ref('TimeSeriesBucket'), "Bucket size, default 'day'"),
+        queryParam('tzOffset', { ...integer, minimum: -14 * 60, maximum: 14 * 60 }, [
+          'Minutes the local time zone is behind UTC (Date#getTimezoneOffset), default 0.',
+          'Buckets start on local hours, days and weeks (Monday) at this offset.'
+        ].join(' ')),
+        queryParam('groupBy', ref('HealthRecordGroupBy'), 'Split the counts by this field'),
+        ...recordFilters
+      ],
+      errors: [400]
+    }
+  ),
+  '/health-records/data-types': get(
+    'getDataTypes', 'Health Records', 'Data types present in the records',
+    arrayOf(ref('DataType'))
+  ),
+  '/health-records/device-types': get(
+    'getDeviceTypes', 'Health Records', 'Device types present in the records',
+    arrayOf(ref('DeviceType'))
+  ),
+  '/health-records/{recordId}': get(
+    'getHealthRecordById', 'Health Records', 'A single health record', ref('HealthRecord'),
+    { parameters: [pathParam('recordId')], errors: [404] }
+  ),
+  '/health-records/{recordId}/comparison': get(
+    'getHealthRecordComparison',
+    'Health Records',
+    "A record's value compared with its user's other readings of the same type",
+    ref('HealthRecordComparison'),
+    { parameters: [pathParam('recordId')], errors: [404] }
+  ),
+
+  // Epochs
+  '/epochs': get('getEpochs', 'Epochs', 'Paginated list of epochs', ref('EpochPage'), {
+    parameters: pageParams()
+  }),
+  '/epochs/current': get('getCurrentEpoch', 'Epochs', 'The most recent epoch', ref('CurrentEpoch')),
+  '/epochs/stats': get(
+    'getEpochStats', 'Epochs', 'Aggregate statistics across epochs', ref('EpochStats')
+  ),
+  '/epochs/{epochNumber}': get(
+    'getEpochByNumber', 'Epochs', 'A single epoch with up to 50 node rewards', ref('Epoch'),
+    { parameters: [pathParam('epochNumber', integer)], errors: [404] }
+  ),
+
+  // Transactions
+  '/transactions': get(
+    'getTransactions', 'Transactions', 'Paginated list of transactions', ref('TransactionPage'),
+    {
+      parameters: [
+        ...pageParams('TransactionSortField'),
+        listParam('txType', 'TxType', 'Transaction types'),
+        listParam('status', 'TxStatus', 'Transaction statuses'),
+        queryParam('address', string, 'Address on either side of the transfer'),
+        ...rangeParams('amount', 'token amount'),
+        ...rangeParams('gasUsed', 'gas used'),
+        ...dateParams('transactions')
+      ],
+      errors: [400]
+    }
+  ),
+  '/transactions/stats': get(
+    'getTransactionStats', 'Transactions', 'Aggregate transaction statistics',
+    ref('TransactionStats')
+  ),
+  '/transactions/types': get(
+    'getTransactionTypes', 'Transactions', 'Transaction types present in the data',
+    arrayOf(ref('TxType'))
+  ),
+  '/transactions/{txHash}': get(
+    'getTransactionByHash', 'Transactions', 'A single transaction', ref('Transaction'),
+    { parameters: [pathParam('txHash')], errors: [404] }
+  ),
+
+  // Search
+  '/search': get(
+    'search', 'Search', 'Matches grouped by entity type, best first', ref('SearchResults'),
+    {
+      parameters: [
+        {
+          ...queryParam('q', string, [
+            'At least 2 characters. Matches partial node, staker and record IDs,',
+            'wallet address prefixes and tx hash prefixes.'
+          ].join(' ')),
+          required: true
+        },
+        queryParam('limit', integer, 'Results per group, default 5, max 20')
+      ],
+      errors: [400]
+    }
+  ),
+
+  // Live events
+  '/events': {
+    get: {
+      operationId: 'streamEvents',
+      tags: ['Live Events'],
+      summary: 'Live activity as Server-Sent Events',
+      description: [
+        'Each event carries a JSON payload; x-events lists the payload schema per event type.',
+        'Resume with the Last-Event-ID header or the lastEventId query param.'
+      ].join(' '),
+      parameters: [queryParam('lastEventId', integer, 'Replay the events published after this ID')],
+      responses: {
+        200: {
+          description: 'Event stream',
+          content: {
+            'text/event-stream': {
+              schema: string,
+              'x-events': {
+                transaction: ref('TransactionEvent'),
+                'record-status': ref('RecordStatusEvent'),
+                'node-heartbeat': ref('NodeHeartbeat'),
+                resync: ref('ResyncEvent')
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+
+  '/openapi.json': {
+    get: {
+      operationId: 'getOpenApiDocument',
+      tags: ['Meta'],
+      summary: 'The OpenAPI document of this API',
+      responses: {
+        200: {
+          description: 'OpenAPI document',
+          content: { 'application/json': { schema: { type: 'object' } } }
+        }
+      }
+    }
+  }
+};
+
+module.exports = {
+  openapi: '3.0.3',
+  info: {
+    title: 'ChainHealth AI API',
+    version: '1.0.0',
+    description: 'Backend API for the ChainHealth wellness platform'
+  },
+  servers: [{ url: '/api' }],
+  paths,
+  components: { schemas, responses }
+};
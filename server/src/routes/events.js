@@ -0,0 +1,61 @@
+/**
+ * Live Events API Route
+ * ======================
+ * Server-Sent Events stream of simulated network activity
+ */
+
+const express = require('express');
+const router = express.Router();
+const { subscribe, eventsSince } = require('../live');
+
+const KEEP_ALIVE_MS = 15000;
+const RETRY_MS = 3000;
+
+function writeEvent(res, event) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+/**
+ * GET /api/events
+ * Streams live activity as Server-Sent Events
+ *
+ * Event types:
+ * - transaction: { transaction, previousStatus } - new or settled transaction
+ * - record-status: { record, previousStatus } - submitted, validated or rejected record
+ * - node-heartbeat: { nodeId, status, uptime, lastHeartbeat }
+ * - resync: {} - missed events could not be replayed; refetch instead
+ *
+ * Resuming:
+ * - Last-Event-ID header (sent by EventSource on reconnect) or lastEventId
+ *   query param: replays events published after that ID
+ */
+router.get('/', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const resumeFrom = parseInt(req.get('Last-Event-ID') || req.query.lastEventId) || 0;
+  if (resumeFrom) {
+    const missed = eventsSince(resumeFrom);
+    if (missed) {
+      missed.forEach(event => writeEvent(res, event));
+    } else {
+      res.write('event: resync\ndata: {}\n\n');
+    }
+  }
+
+  const unsubscribe = subscribe(event => writeEvent(res, event));
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
+
+module.exports = router;
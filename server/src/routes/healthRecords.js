@@ -6,7 +6,36 @@
 
 const express = require('express');
 const router = express.Router();
-const { healthRecords } = require('../data/data');
+const { healthRecords, referenceTime } = require('../data/data');
+const { parseList, matchesList, parseRange, inRange } = require('../filters');
+
+/**
+ * Parse the record filters shared by the list and time series endpoints.
+ * Returns { filters } or { error } for an invalid range.
+ */
+function parseRecordFilters(query) {
+  const valueRange = parseRange(query, 'value');
+  if (valueRange.error) {
+    return { error: valueRange.error };
+  }
+  return {
+    filters: {
+      dataType: parseList(query.dataType),
+      deviceType: parseList(query.deviceType),
+      validationStatus: parseList(query.validationStatus),
+      userAddress: query.userAddress ? String(query.userAddress).toLowerCase() : null,
+      valueRange
+    }
+  };
+}
+
+function matchesRecordFilters(r, filters) {
+  return matchesList(r.dataType, filters.dataType) &&
+    matchesList(r.deviceType, filters.deviceType) &&
+    matchesList(r.validationStatus, filters.validationStatus) &&
+    (!filters.userAddress || r.userAddress.toLowerCase() === filters.userAddress) &&
+    inRange(r.value, filters.valueRange);
+}
 
 /**
  * GET /api/health-records
@@ -19,43 +48,33 @@ const { healthRecords } = require('../data/data');
  * - deviceType (string): Filter by device (APPLE_WATCH, FITBIT, GARMIN, OURA, WHOOP, etc.)
  * - validationStatus (string): Filter by status (VALIDATED, PENDING, REJECTED)
  * - userAddress (string): Filter by user wallet address
+ * - minValue, maxValue (number): Filter by the recorded value, inclusive
  * - startDate (number): Filter records after this timestamp
  * - endDate (number): Filter records before this timestamp
  * - sortBy (string): Sort field (timestamp, value)
  * - sortOrder (string): 'asc' or 'desc', default 'desc'
+ *
+ * dataType, deviceType and validationStatus accept comma-separated values
+ * and match any of them (see filters.js)
  */
 router.get('/', (req, res) => {
   try {
     const page = Math.max(1, parseInt(req.query.page) || 1);
     const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 20));
     const { 
-      dataType, 
-      deviceType, 
-      validationStatus, 
-      userAddress,
       startDate,
       endDate,
       sortBy = 'timestamp', 
       sortOrder = 'desc' 
     } = req.query;
 
-    let filteredRecords = [...healthRecords];
+    const { filters, error } = parseRecordFilters(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
 
     // Apply filters
-    if (dataType) {
-      filteredRecords = filteredRecords.filter(r => r.dataType === dataType.toUpperCase());
-    }
-    if (deviceType) {
-      filteredRecords = filteredRecords.filter(r => r.deviceType === deviceType.toUpperCase());
-    }
-    if (validationStatus) {
-      filteredRecords = filteredRecords.filter(r => r.validationStatus === validationStatus.toUpperCase());
-    }
-    if (userAddress) {
-      filteredRecords = filteredRecords.filter(r => 
-        r.userAddress.toLowerCase() === userAddress.toLowerCase()
-      );
-    }
+    let filteredRecords = healthRecords.filter(r => matchesRecordFilters(r, filters));
     if (startDate) {
       filteredRecords = filteredRecords.filter(r => r.timestamp >= parseInt(startDate));
     }
@@ -121,8 +140,8 @@ router.get('/stats', (req, res) => {
     // Unique users
     const uniqueUsers = new Set(healthRecords.map(r => r.userAddress)).size;
 
-    // Records by day (last 7 days simulation)
-    const now = Date.now();
+    // Records by day, for the 7 days before the data's reference time
+    const now = referenceTime;
     const dayMs = 24 * 60 * 60 * 1000;
     const recordsByDay = [];
     for (let i = 6; i >= 0; i--) {
@@ -151,6 +170,111 @@ router.get('/stats', (req, res) => {
   }
 });
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const BUCKET_SIZES = { hour: HOUR_MS, day: DAY_MS, week: 7 * DAY_MS };
+const GROUP_FIELDS = ['dataType', 'deviceType', 'validationStatus'];
+const MAX_BUCKETS = 1000;
+// 1970-01-01 was a Thursday; shifting by 4 days makes weeks start on Monday
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+// UTC-12 to UTC+14, in minutes
+const MAX_TZ_OFFSET = 14 * 60;
+
+/**
+ * Start of the bucket a timestamp falls in. `tzOffset` is in minutes, as
+ * returned by Date#getTimezoneOffset (positive west of UTC), and moves the
+ * boundaries to the start of the local hour, day or week.
+ */
+function bucketStart(timestamp, bucket, tzOffset) {
+  const size = BUCKET_SIZES[bucket];
+  const offset = (bucket === 'week' ? WEEK_OFFSET_MS : 0) + tzOffset * 60 * 1000;
+  return Math.floor((timestamp - offset) / size) * size + offset;
+}
+
+/**
+ * GET /api/health-records/timeseries
+ * Returns record counts per time bucket, optionally split by a record field
+ *
+ * Query params:
+ * - startDate (number): Range start timestamp, default 7 days before endDate
+ * - endDate (number): Range end timestamp, default the data's reference time
+ * - bucket (string): 'hour', 'day' or 'week', default 'day'
+ * - tzOffset (number): Minutes the client's time zone is behind UTC, as from
+ *   Date#getTimezoneOffset, default 0. Buckets start on the client's local
+ *   hours, days and weeks (Monday) at that offset; daylight saving changes
+ *   within the range are not followed.
+ * - groupBy (string): Split counts by dataType, deviceType or validationStatus
+ * - dataType, deviceType, validationStatus, userAddress, minValue, maxValue:
+ *   Same filters as the list
+ */
+router.get('/timeseries', (req, res) => {
+  try {
+    const { bucket = 'day', groupBy } = req.query;
+    const endDate = parseInt(req.query.endDate) || referenceTime;
+    const startDate = parseInt(req.query.startDate) || endDate - 7 * DAY_MS;
+    const tzOffset = req.query.tzOffset === undefined ? 0 : Number(req.query.tzOffset);
+
+    if (!BUCKET_SIZES[bucket]) {
+      return res.status(400).json({ error: 'bucket must be one of hour, day, week' });
+    }
+    if (groupBy && !GROUP_FIELDS.includes(groupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of ${GROUP_FIELDS.join(', ')}` });
+    }
+    if (!Number.isInteger(tzOffset) || Math.abs(tzOffset) > MAX_TZ_OFFSET) {
+      return res.status(400).json({
+        error: `tzOffset must be whole minutes between -${MAX_TZ_OFFSET} and ${MAX_TZ_OFFSET}`
+      });
+    }
+    if (startDate > endDate) {
+      return res.status(400).json({ error: 'startDate must be before endDate' });
+    }
+    const { filters, error } = parseRecordFilters(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const size = BUCKET_SIZES[bucket];
+    const firstBucket = bucketStart(startDate, bucket, tzOffset);
+    const bucketCount = Math.floor((endDate - firstBucket) / size) + 1;
+    if (bucketCount > MAX_BUCKETS) {
+      return res.status(400).json({ error: `Range too large for ${bucket} buckets` });
+    }
+
+    const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+      start: firstBucket + i * size,
+      end: firstBucket + (i + 1) * size,
+      total: 0,
+      counts: {}
+    }));
+    const groups = new Set();
+
+    healthRecords.forEach(r => {
+      if (r.timestamp < startDate || r.timestamp > endDate) return;
+      if (!matchesRecordFilters(r, filters)) return;
+
+      const entry = buckets[Math.floor((r.timestamp - firstBucket) / size)];
+      entry.total++;
+      if (groupBy) {
+        const group = r[groupBy];
+        groups.add(group);
+        entry.counts[group] = (entry.counts[group] || 0) + 1;
+      }
+    });
+
+    res.json({
+      startDate,
+      endDate,
+      bucket,
+      tzOffset,
+      groupBy: groupBy || null,
+      groups: [...groups].sort(),
+      buckets
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch health record time series' });
+  }
+});
+
 /**
  * GET /api/health-records/data-types
  * Returns list of available data types
@@ -193,5 +317,35 @@ router.get('/:recordId', (req, res) => {
   }
 });
 
+/**
+ * GET /api/health-records/:recordId/comparison
+ * Compares a record's value with all of its user's readings of the same data
+ * type, the record included. The percentile counts ties as half below.
+ */
+router.get('/:recordId/comparison', (req, res) => {
+  try {
+    const record = healthRecords.find(r => r.recordId === req.params.recordId);
+    if (!record) {
+      return res.status(404).json({ error: 'Health record not found' });
+    }
+
+    const values = healthRecords
+      .filter(r => r.userAddress === record.userAddress && r.dataType === record.dataType)
+      .map(r => r.value);
+    const below = values.filter(value => value < record.value).length;
+    const equal = values.filter(value => value === record.value).length;
+
+    res.json({
+      count: values.length,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      average: values.reduce((sum, value) => sum + value, 0) / values.length,
+      percentile: ((below + equal / 2) / values.length) * 100
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to compare health record' });
+  }
+});
+
 module.exports = router;
 
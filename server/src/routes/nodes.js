@@ -6,7 +6,8 @@
 
 const express = require('express');
 const router = express.Router();
-const { nodes } = require('../data/data');
+const { nodes, epochs } = require('../data/data');
+const { parseList, matchesList, parseRange, inRange } = require('../filters');
 
 /**
  * GET /api/nodes
@@ -18,27 +19,33 @@ const { nodes } = require('../data/data');
  * - status (string): Filter by status (ACTIVE, INACTIVE, PENDING, SLASHED)
  * - nodeType (string): Filter by type (VALIDATOR, LIGHT, RELAY, ARCHIVE)
  * - region (string): Filter by region
+ * - minUptime, maxUptime (number): Filter by uptime percentage, inclusive
  * - sortBy (string): Sort field (stakedAmount, uptime, totalRewardsEarned, validationsPerformed)
  * - sortOrder (string): 'asc' or 'desc', default 'desc'
+ *
+ * status, nodeType and region accept comma-separated values and match any
+ * of them (see filters.js)
  */
 router.get('/', (req, res) => {
   try {
     const page = Math.max(1, parseInt(req.query.page) || 1);
     const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 20));
-    const { status, nodeType, region, sortBy, sortOrder = 'desc' } = req.query;
-
-    let filteredNodes = [...nodes];
+    const { sortBy, sortOrder = 'desc' } = req.query;
+    const status = parseList(req.query.status);
+    const nodeType = parseList(req.query.nodeType);
+    const region = parseList(req.query.region);
+    const uptimeRange = parseRange(req.query, 'uptime');
+    if (uptimeRange.error) {
+      return res.status(400).json({ error: uptimeRange.error });
+    }
 
     // Apply filters
-    if (status) {
-      filteredNodes = filteredNodes.filter(n => n.status === status.toUpperCase());
-    }
-    if (nodeType) {
-      filteredNodes = filteredNodes.filter(n => n.nodeType === nodeType.toUpperCase());
-    }
-    if (region) {
-      filteredNodes = filteredNodes.filter(n => n.region === region.toUpperCase());
-    }
+    let filteredNodes = nodes.filter(n =>
+      matchesList(n.status, status) &&
+      matchesList(n.nodeType, nodeType) &&
+      matchesList(n.region, region) &&
+      inRange(n.uptime, uptimeRange)
+    );
 
     // Apply sorting
     if (sortBy) {
@@ -143,5 +150,38 @@ router.get('/:nodeId', (req, res) => {
   }
 });
 
+/**
+ * GET /api/nodes/:nodeId/rewards
+ * Returns the node's reward entry for every epoch it earned in, oldest first
+ */
+router.get('/:nodeId/rewards', (req, res) => {
+  try {
+    const node = nodes.find(n => n.nodeId === req.params.nodeId);
+    if (!node) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+
+    const rewards = [...epochs]
+      .sort((a, b) => a.epochNumber - b.epochNumber)
+      .reduce((acc, e) => {
+        const entry = (e.nodeRewards || []).find(r => r.nodeId === node.nodeId);
+        if (entry) {
+          acc.push({
+            epochNumber: e.epochNumber,
+            startTime: e.startTime,
+            endTime: e.endTime,
+            reward: entry.reward,
+            validations: entry.validations
+          });
+        }
+        return acc;
+      }, []);
+
+    res.json(rewards);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch node rewards' });
+  }
+});
+
 module.exports = router;
 
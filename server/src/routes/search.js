@@ -0,0 +1,128 @@
+/**
+ * Search API Routes
+ * ==================
+ * Text search across nodes, stakers, transactions and health records
+ */
+
+const express = require('express');
+const router = express.Router();
+const { nodes, stakers, healthRecords, transactions } = require('../data/data');
+
+const MIN_QUERY_LENGTH = 2;
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+/**
+ * How well a value matches the query: 0 exact, 1 prefix, 2 substring, or
+ * null for no match. Prefix-only fields never match in the middle.
+ */
+function matchRank(value, query, prefixOnly = false) {
+  const normalized = value.toLowerCase();
+  if (normalized === query) return 0;
+  if (normalized.startsWith(query)) return 1;
+  if (!prefixOnly && normalized.includes(query)) return 2;
+  return null;
+}
+
+/**
+ * Rank a collection and keep the best matches
+ */
+function searchGroup(items, rankItem, toResult, limit) {
+  const matches = [];
+  items.forEach(item => {
+    const rank = rankItem(item);
+    if (rank !== null) {
+      matches.push({ item, rank });
+    }
+  });
+  matches.sort((a, b) => a.rank - b.rank);
+
+  return {
+    total: matches.length,
+    items: matches.slice(0, limit).map(match => toResult(match.item))
+  };
+}
+
+function bestRank(...ranks) {
+  const found = ranks.filter(rank => rank !== null);
+  return found.length ? Math.min(...found) : null;
+}
+
+/**
+ * GET /api/search
+ * Returns matches grouped by entity type, best matches first
+ *
+ * Query params:
+ * - q (string): Search text, at least 2 characters. Matches partial node,
+ *   staker and record IDs, wallet address prefixes and tx hash prefixes.
+ * - limit (number): Results per group, default 5, max 20
+ */
+router.get('/', (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim().toLowerCase() : '';
+    if (query.length < MIN_QUERY_LENGTH) {
+      return res.status(400).json({
+        error: `q must be at least ${MIN_QUERY_LENGTH} characters`
+      });
+    }
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(req.query.limit) || DEFAULT_LIMIT));
+    // A bare "0x" would match every address and hash
+    const hexQuery = query.startsWith('0x') && query.length > 2;
+
+    const results = {
+      nodes: searchGroup(
+        nodes,
+        n => matchRank(n.nodeId, query),
+        n => ({
+          nodeId: n.nodeId,
+          nodeType: n.nodeType,
+          region: n.region,
+          status: n.status
+        }),
+        limit
+      ),
+      stakers: searchGroup(
+        stakers,
+        s => bestRank(
+          matchRank(s.stakerId, query),
+          hexQuery ? matchRank(s.walletAddress, query, true) : null
+        ),
+        s => ({
+          stakerId: s.stakerId,
+          walletAddress: s.walletAddress,
+          stakedAmount: s.stakedAmount
+        }),
+        limit
+      ),
+      transactions: searchGroup(
+        transactions,
+        tx => (hexQuery ? matchRank(tx.txHash, query, true) : null),
+        tx => ({
+          txHash: tx.txHash,
+          txType: tx.txType,
+          amount: tx.amount,
+          status: tx.status,
+          timestamp: tx.timestamp
+        }),
+        limit
+      ),
+      healthRecords: searchGroup(
+        healthRecords,
+        r => matchRank(r.recordId, query),
+        r => ({
+          recordId: r.recordId,
+          dataType: r.dataType,
+          userAddress: r.userAddress,
+          validationStatus: r.validationStatus
+        }),
+        limit
+      )
+    };
+
+    res.json({ query: req.query.q.trim(), results });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to search' });
+  }
+});
+
+module.exports = router;
@@ -7,6 +7,16 @@
 const express = require('express');
 const router = express.Router();
 const { stakers, nodes } = require('../data/data');
+const { recordTransaction } = require('../live');
+const { STAKING_CONTRACT_ADDRESS, LOCK_PERIODS } = require('../generator');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Staking transactions target the operator of the delegated node
+function delegatedOperator(staker) {
+  const node = nodes.find(n => n.nodeId === staker.delegatedTo);
+  return node ? node.operatorAddress : STAKING_CONTRACT_ADDRESS;
+}
 
 /**
  * GET /api/stakers
@@ -17,6 +27,7 @@ const { stakers, nodes } = require('../data/data');
  * - limit (number): Items per page, default 20, max 100
  * - minStake (number): Minimum staked amount filter
  * - maxStake (number): Maximum staked amount filter
+ * - delegatedTo (string): Filter by delegated node ID
  * - sortBy (string): Sort field (stakedAmount, pendingRewards, claimedRewards, stakingMultiplier)
  * - sortOrder (string): 'asc' or 'desc', default 'desc'
  */
@@ -24,7 +35,11 @@ router.get('/', (req, res) => {
   try {
     const page = Math.max(1, parseInt(req.query.page) || 1);
     const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 20));
-    const { minStake, maxStake, sortBy, sortOrder = 'desc' } = req.query;
+    const { minStake, maxStake, delegatedTo, sortBy, sortOrder = 'desc' } = req.query;
+    // A repeated param is parsed into an array
+    if (delegatedTo !== undefined && typeof delegatedTo !== 'string') {
+      return res.status(400).json({ error: 'delegatedTo must be a single node ID' });
+    }
 
     let filteredStakers = [...stakers];
 
@@ -35,6 +50,9 @@ router.get('/', (req, res) => {
     if (maxStake) {
       filteredStakers = filteredStakers.filter(s => parseFloat(s.stakedAmount) <= parseFloat(maxStake));
     }
+    if (delegatedTo) {
+      filteredStakers = filteredStakers.filter(s => s.delegatedTo === delegatedTo.toUpperCase());
+    }
 
     // Apply sorting
     if (sortBy) {
@@ -173,5 +191,188 @@ router.get('/wallet/:address', (req, res) => {
   }
 });
 
+// Staking actions ------------------------------------------------------------
+//
+// Each action updates the staker right away and records a PENDING transaction
+// that confirms a few seconds later. Responses are 202 with the updated
+// staker and the transaction: { staker, transaction }.
+
+/**
+ * Parse a positive token amount from a request body
+ */
+function parseAmount(value) {
+  const amount = typeof value === 'string' || typeof value === 'number'
+    ? parseFloat(value)
+    : NaN;
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * POST /api/stakers/:stakerId/stake
+ * Adds tokens to a stake and restarts its lock
+ *
+ * Body:
+ * - amount (string|number): Tokens to add
+ * - lockPeriod (number): Lock in days, one of 7, 14, 30, 60, 90, 180, 365;
+ *   cannot be shorter than the current lock. Defaults to the current lock.
+ */
+router.post('/:stakerId/stake', (req, res) => {
+  try {
+    const staker = stakers.find(s => s.stakerId === req.params.stakerId);
+    if (!staker) {
+      return res.status(404).json({ error: 'Staker not found' });
+    }
+
+    const amount = parseAmount(req.body.amount);
+    if (amount === null) {
+      return res.status(400).json({ error: 'amount must be a positive number' });
+    }
+    const lockPeriod = req.body.lockPeriod === undefined
+      ? staker.lockPeriod
+      : Number(req.body.lockPeriod);
+    if (!LOCK_PERIODS.includes(lockPeriod)) {
+      return res.status(400).json({
+        error: `lockPeriod must be one of ${LOCK_PERIODS.join(', ')}`
+      });
+    }
+    if (lockPeriod < staker.lockPeriod) {
+      return res.status(400).json({
+        error: `lockPeriod cannot be shorter than the current ${staker.lockPeriod} days`
+      });
+    }
+
+    staker.stakedAmount = (parseFloat(staker.stakedAmount) + amount).toFixed(6);
+    staker.lockPeriod = lockPeriod;
+    staker.stakingMultiplier = 1 + (lockPeriod / 365);
+    staker.unlockTime = Math.max(staker.unlockTime, Date.now() + lockPeriod * DAY_MS);
+
+    const transaction = recordTransaction({
+      txType: 'STAKE',
+      from: staker.walletAddress,
+      to: delegatedOperator(staker),
+      amount: amount.toFixed(6)
+    });
+
+    res.status(202).json({ staker, transaction });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to stake' });
+  }
+});
+
+/**
+ * POST /api/stakers/:stakerId/unstake
+ * Withdraws tokens from a stake once its lock has ended
+ *
+ * Body:
+ * - amount (string|number): Tokens to withdraw, at most the staked amount
+ */
+router.post('/:stakerId/unstake', (req, res) => {
+  try {
+    const staker = stakers.find(s => s.stakerId === req.params.stakerId);
+    if (!staker) {
+      return res.status(404).json({ error: 'Staker not found' });
+    }
+
+    const amount = parseAmount(req.body.amount);
+    if (amount === null) {
+      return res.status(400).json({ error: 'amount must be a positive number' });
+    }
+    if (amount > parseFloat(staker.stakedAmount)) {
+      return res.status(400).json({ error: 'amount exceeds the staked amount' });
+    }
+    if (Date.now() < staker.unlockTime) {
+      return res.status(400).json({
+        error: `Stake is locked until ${new Date(staker.unlockTime).toISOString()}`
+      });
+    }
+
+    staker.stakedAmount = (parseFloat(staker.stakedAmount) - amount).toFixed(6);
+
+    const transaction = recordTransaction({
+      txType: 'UNSTAKE',
+      from: STAKING_CONTRACT_ADDRESS,
+      to: staker.walletAddress,
+      amount: amount.toFixed(6)
+    });
+
+    res.status(202).json({ staker, transaction });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to unstake' });
+  }
+});
+
+/**
+ * POST /api/stakers/:stakerId/claim
+ * Claims all pending rewards
+ */
+router.post('/:stakerId/claim', (req, res) => {
+  try {
+    const staker = stakers.find(s => s.stakerId === req.params.stakerId);
+    if (!staker) {
+      return res.status(404).json({ error: 'Staker not found' });
+    }
+
+    const pending = parseFloat(staker.pendingRewards);
+    if (!(pending > 0)) {
+      return res.status(400).json({ error: 'No pending rewards to claim' });
+    }
+
+    staker.claimedRewards = (parseFloat(staker.claimedRewards) + pending).toFixed(6);
+    staker.pendingRewards = (0).toFixed(6);
+
+    const transaction = recordTransaction({
+      txType: 'CLAIM_REWARD',
+      from: staker.walletAddress,
+      to: delegatedOperator(staker),
+      amount: pending.toFixed(6)
+    });
+
+    res.status(202).json({ staker, transaction });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to claim rewards' });
+  }
+});
+
+/**
+ * POST /api/stakers/:stakerId/delegate
+ * Delegates the whole stake to an active node
+ *
+ * Body:
+ * - nodeId (string): Node to delegate to
+ */
+router.post('/:stakerId/delegate', (req, res) => {
+  try {
+    const staker = stakers.find(s => s.stakerId === req.params.stakerId);
+    if (!staker) {
+      return res.status(404).json({ error: 'Staker not found' });
+    }
+
+    const nodeId = typeof req.body.nodeId === 'string' ? req.body.nodeId.toUpperCase() : '';
+    const node = nodes.find(n => n.nodeId === nodeId);
+    if (!node) {
+      return res.status(400).json({ error: 'nodeId must be an existing node' });
+    }
+    if (node.status !== 'ACTIVE') {
+      return res.status(400).json({ error: `Node ${node.nodeId} is ${node.status}, not ACTIVE` });
+    }
+    if (staker.delegatedTo === node.nodeId) {
+      return res.status(400).json({ error: `Stake is already delegated to ${node.nodeId}` });
+    }
+
+    staker.delegatedTo = node.nodeId;
+
+    const transaction = recordTransaction({
+      txType: 'DELEGATE',
+      from: staker.walletAddress,
+      to: node.operatorAddress,
+      amount: staker.stakedAmount
+    });
+
+    res.status(202).json({ staker, transaction });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delegate stake' });
+  }
+});
+
 module.exports = router;
 
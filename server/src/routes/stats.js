@@ -47,7 +47,9 @@ router.get('/', (req, res) => {
     res.json({
       metadata: {
         generatedAt: metadata.generatedAt,
-        version: metadata.version
+        version: metadata.version,
+        scenario: metadata.scenario,
+        seed: metadata.seed
       },
       network: {
         totalNodes,
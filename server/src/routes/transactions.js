@@ -7,6 +7,7 @@
 const express = require('express');
 const router = express.Router();
 const { transactions } = require('../data/data');
+const { parseList, matchesList, parseRange, inRange } = require('../filters');
 
 /**
  * GET /api/transactions
@@ -18,18 +19,21 @@ const { transactions } = require('../data/data');
  * - txType (string): Filter by type (TRANSFER, STAKE, UNSTAKE, CLAIM_REWARD, DELEGATE, SLASH)
  * - status (string): Filter by status (CONFIRMED, PENDING, FAILED)
  * - address (string): Filter by from or to address
+ * - minAmount, maxAmount (number): Filter by token amount, inclusive
+ * - minGasUsed, maxGasUsed (number): Filter by gas used, inclusive
  * - startDate (number): Filter transactions after this timestamp
  * - endDate (number): Filter transactions before this timestamp
  * - sortBy (string): Sort field (timestamp, amount, gasUsed)
  * - sortOrder (string): 'asc' or 'desc', default 'desc'
+ *
+ * txType and status accept comma-separated values and match any of them
+ * (see filters.js)
  */
 router.get('/', (req, res) => {
   try {
     const page = Math.max(1, parseInt(req.query.page) || 1);
     const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 20));
     const { 
-      txType, 
-      status, 
       address,
       startDate,
       endDate,
@@ -37,15 +41,22 @@ router.get('/', (req, res) => {
       sortOrder = 'desc' 
     } = req.query;
 
-    let filteredTxs = [...transactions];
+    const txType = parseList(req.query.txType);
+    const status = parseList(req.query.status);
+    const amountRange = parseRange(req.query, 'amount');
+    const gasUsedRange = parseRange(req.query, 'gasUsed');
+    const rangeError = amountRange.error || gasUsedRange.error;
+    if (rangeError) {
+      return res.status(400).json({ error: rangeError });
+    }
 
     // Apply filters
-    if (txType) {
-      filteredTxs = filteredTxs.filter(tx => tx.txType === txType.toUpperCase());
-    }
-    if (status) {
-      filteredTxs = filteredTxs.filter(tx => tx.status === status.toUpperCase());
-    }
+    let filteredTxs = transactions.filter(tx =>
+      matchesList(tx.txType, txType) &&
+      matchesList(tx.status, status) &&
+      inRange(tx.amount, amountRange) &&
+      inRange(tx.gasUsed, gasUsedRange)
+    );
     if (address) {
       const addr = address.toLowerCase();
       filteredTxs = filteredTxs.filter(tx => 
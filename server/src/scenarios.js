@@ -0,0 +1,60 @@
+/**
+ * Data Scenarios
+ * ===============
+ * Named presets for the data generator. Each one overrides part of the
+ * generator's CONFIG to put the network in a recognisable state, so a UI
+ * state can be reproduced by starting the server with that scenario.
+ */
+
+const SCENARIOS = {
+  default: {
+    description: 'Evenly mixed statuses, as in the original mock data',
+    config: {}
+  },
+  'healthy-network': {
+    description: 'Nearly all nodes active with high uptime, few rejections or failures',
+    config: {
+      nodeStatusWeights: { ACTIVE: 90, INACTIVE: 6, PENDING: 4, SLASHED: 0 },
+      nodeUptime: [97, 99.99],
+      nodeSlashingEvents: [0, 0],
+      recordStatusWeights: { VALIDATED: 90, PENDING: 8, REJECTED: 2 },
+      txStatusWeights: { CONFIRMED: 96, PENDING: 3, FAILED: 1 }
+    }
+  },
+  'mass-slashing': {
+    description: 'Close to half the nodes slashed, with many SLASH and UNSTAKE transactions',
+    config: {
+      nodeStatusWeights: { ACTIVE: 35, INACTIVE: 15, PENDING: 5, SLASHED: 45 },
+      nodeUptime: [40, 95],
+      nodeSlashingEvents: [1, 6],
+      txTypeWeights: {
+        TRANSFER: 2,
+        STAKE: 1,
+        UNSTAKE: 4,
+        CLAIM_REWARD: 1,
+        DELEGATE: 2,
+        UNDELEGATE: 4,
+        SLASH: 6
+      },
+      txStatusWeights: { CONFIRMED: 80, PENDING: 10, FAILED: 10 }
+    }
+  },
+  'validation-backlog': {
+    description: 'Most health records waiting for validation, many pending transactions',
+    config: {
+      healthRecords: 4000,
+      recordStatusWeights: { VALIDATED: 20, PENDING: 75, REJECTED: 5 },
+      txStatusWeights: { CONFIRMED: 50, PENDING: 45, FAILED: 5 }
+    }
+  },
+  'whale-concentration': {
+    description: 'A handful of stakers holding most of the staked supply',
+    config: {
+      whaleStakers: 5,
+      whaleStakeAmount: [2000000, 6000000],
+      stakeAmount: [50, 5000]
+    }
+  }
+};
+
+module.exports = { SCENARIOS };